@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { Folder } from '../types';
+import { BulkNameRow, parseBulkNames } from '../utils/bulkNames';
+import { ClipboardIcon, DocumentTextIcon, ExclamationTriangleIcon, SaveIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface BulkNameDialogProps {
+  isOpen: boolean;
+  folders: readonly Folder[];
+  timeZone?: string; // Zone folder dates are compared in, as displayed
+  onApply: (names: { folderId: string; newName: string }[]) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const BulkNameDialog: React.FC<BulkNameDialogProps> = ({ isOpen, folders, timeZone, onApply, onExport, onClose }) => {
+  const { t } = useLanguage();
+  const [text, setText] = useState('');
+
+  const rows = useMemo(() => parseBulkNames(text, folders, timeZone), [text, folders, timeZone]);
+  const folderNames = useMemo(() => new Map(folders.map(folder => [folder.id, folder.originalName])), [folders]);
+
+  if (!isOpen) return null;
+
+  const matched = rows.filter(row => row.status === 'matched');
+
+  const describeMatch = (row: BulkNameRow): string => {
+    switch (row.status) {
+      case 'matched':
+        return folderNames.get(row.folderIds[0]) ?? row.folderIds[0];
+      case 'ambiguous':
+        return t('bulkNamesAmbiguous', { count: row.folderIds.length });
+      case 'duplicate':
+        return t('bulkNamesDuplicate');
+      default:
+        return t('bulkNamesUnmatched');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setText(await file.text());
+    } catch (error) {
+      console.warn('Failed to read the name list:', error);
+    }
+  };
+
+  const handleApply = () => {
+    onApply(matched.map(row => ({ folderId: row.folderIds[0], newName: row.newName })));
+    setText('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 animate-fade-in">
+      <div className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center mb-4">
+          <ClipboardIcon className="h-6 w-6 text-sky-400 mr-3 flex-shrink-0" />
+          <h3 className="text-lg font-semibold text-slate-100">{t('bulkNamesTitle')}</h3>
+        </div>
+
+        <p className="mb-3 text-sm text-slate-300">{t('bulkNamesDescription')}</p>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t('bulkNamesPlaceholder')}
+          rows={6}
+          spellCheck={false}
+          className="block w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-sm text-slate-200 font-mono"
+        />
+
+        {rows.length > 0 && (
+          <div className="mt-4">
+            <p className="mb-2 text-sm text-slate-300">{t('bulkNamesSummary', { matched: matched.length, total: rows.length })}</p>
+            <div className="max-h-60 overflow-y-auto border border-slate-700 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                  <tr>
+                    <th className="px-2 py-1 text-right font-medium">{t('bulkNamesRow')}</th>
+                    <th className="px-2 py-1 text-left font-medium">{t('bulkNamesKey')}</th>
+                    <th className="px-2 py-1 text-left font-medium">{t('bulkNamesNewName')}</th>
+                    <th className="px-2 py-1 text-left font-medium">{t('bulkNamesFolder')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.row} className={row.status === 'matched' ? 'text-slate-300' : 'text-amber-300 bg-amber-500/10'}>
+                      <td className="px-2 py-0.5 text-right font-mono">{row.row}</td>
+                      <td className="px-2 py-0.5 truncate max-w-0 w-1/3" title={row.key}>{row.key}</td>
+                      <td className="px-2 py-0.5 truncate max-w-0 w-1/3" title={row.newName}>{row.newName}</td>
+                      <td className="px-2 py-0.5 truncate max-w-0 w-1/3">
+                        {row.status !== 'matched' && <ExclamationTriangleIcon className="inline h-3 w-3 mr-1" />}
+                        {describeMatch(row)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap justify-between gap-3">
+          <div className="flex space-x-2">
+            <label className="flex items-center px-3 py-2 text-sm bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors cursor-pointer">
+              <DocumentTextIcon className="h-4 w-4 mr-2" />
+              {t('bulkNamesOpenFile')}
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+            <button
+              onClick={onExport}
+              className="flex items-center px-3 py-2 text-sm bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors"
+            >
+              <SaveIcon className="h-4 w-4 mr-2" />
+              {t('bulkNamesExport')}
+            </button>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={matched.length === 0}
+              className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('bulkNamesApply', { count: matched.length })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkNameDialog;
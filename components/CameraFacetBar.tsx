@@ -0,0 +1,60 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { CameraFacet } from '../utils/photoMetadata';
+
+interface CameraFacetBarProps {
+    facets: readonly CameraFacet[];
+    selectedCamera: string | null; // null shows every folder, '' the photos without camera info
+    onSelectCamera: (camera: string | null) => void;
+    splitByDevice: boolean;
+    onSplitByDeviceChange: (splitByDevice: boolean) => void;
+}
+
+const CameraFacetBar: React.FC<CameraFacetBarProps> = ({ facets, selectedCamera, onSelectCamera, splitByDevice, onSplitByDeviceChange }) => {
+    const { t } = useLanguage();
+
+    const chipClass = (isSelected: boolean) => `px-3 py-1 text-sm font-semibold rounded-full border transition-colors duration-200 ${
+        isSelected
+            ? 'bg-sky-500 border-sky-400 text-white shadow'
+            : 'bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-600'
+    }`;
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-3">
+                <h4 className="text-sm font-medium text-slate-300">{t('cameraFacetTitle')}</h4>
+                <label className="flex items-center gap-x-2 text-sm text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={splitByDevice}
+                        onChange={(e) => onSplitByDeviceChange(e.target.checked)}
+                        className="h-4 w-4 rounded border-slate-600 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                    />
+                    {t('splitByCameraLabel')}
+                </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={() => onSelectCamera(null)}
+                    className={chipClass(selectedCamera === null)}
+                >
+                    {t('cameraFacetAll')}
+                </button>
+                {facets.map(facet => (
+                    <button
+                        key={facet.camera}
+                        onClick={() => onSelectCamera(facet.camera === selectedCamera ? null : facet.camera)}
+                        className={chipClass(facet.camera === selectedCamera)}
+                        title={t('cameraFacetCount', { folders: facet.folderCount, photos: facet.photoCount })}
+                    >
+                        {facet.camera || t('unknownCamera')}
+                        <span className="ml-1.5 text-xs font-normal opacity-75">{facet.photoCount}</span>
+                    </button>
+                ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-400">{t('splitByCameraDescription')}</p>
+        </div>
+    );
+};
+
+export default CameraFacetBar;
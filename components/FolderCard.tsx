@@ -4,32 +4,65 @@ import { Folder, Photo } from '../types';
 import { FolderCardProps } from '../types/componentTypes';
 import Thumbnail from './Thumbnail';
 import ImageModal from './ImageModal';
-import { FolderIcon, CheckCircleIcon, ClipboardIcon, PencilSquareIcon, ExclamationTriangleIcon } from './Icons';
+import { FolderIcon, CheckCircleIcon, ClipboardIcon, PencilSquareIcon, ExclamationTriangleIcon, XMarkIcon, SparklesIcon } from './Icons';
 import { useLanguage } from '../contexts/LanguageContext';
 import { isNonEmptyString, createNonEmptyString } from '../utils/typeGuards';
+import { DEFAULT_FOLDER_NAME_TEMPLATE, formatDatePattern, formatDateRange, getFinalFolderName, getFolderDate } from '../utils/folderNameTemplate';
+import { getPhotoFileNames } from '../utils/photoNameTemplate';
+import { createDateInTimeZone } from '../utils/photoDates';
+import { suggestLocationName } from '../utils/gazetteer';
+import { validateFolderName } from '../utils/fileSystemUtils';
+
+// Photo names previewed before the rest is summarised as "and N more"
+const MAX_PHOTO_NAMES_LISTED = 3;
 
 const FolderCard: React.FC<FolderCardProps> = ({ 
   folder, 
   onNameChange, 
   onEdit,
+  onPinDate,
+  onClockOffsetChange,
+  nameOptions,
+  photoNameOptions,
+  sequence = 1,
   maxThumbnails = 4,
   showMetadata = false,
   isCompact = false,
   className
 }) => {
-    const { t } = useLanguage();
+    const { t, locale } = useLanguage();
     const [copied, setCopied] = useState(false);
     const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
 
+    const timeZone = nameOptions?.timeZone;
+
     const formatDate = (date: Date | null): string => {
         if (!date) return t('unknownDate');
-        return date.toISOString().split('T')[0];
+        return formatDatePattern(date, 'YYYY-MM-DD', timeZone);
     };
     
 
-    const formattedDate = formatDate(folder.representativeDate);
-    const finalName = `${formattedDate}_${folder.newName}`;
+    const dateRange = folder.metadata?.dateRange;
+    const formattedDate = !folder.pinnedDate && folder.dateLogic === 'range' && dateRange
+        ? formatDateRange(dateRange.earliest, dateRange.latest, undefined, timeZone)
+        : formatDate(getFolderDate(folder));
+    const finalName = getFinalFolderName(folder, sequence, nameOptions ?? {
+        template: DEFAULT_FOLDER_NAME_TEMPLATE,
+        unknownDate: t('unknownDate')
+    });
+    const photoNames = useMemo(
+        () => (photoNameOptions ? getPhotoFileNames(folder, photoNameOptions, finalName) : null),
+        [folder, photoNameOptions, finalName]
+    );
+    const locationSuggestion = useMemo(
+        () => (folder.centroid ? suggestLocationName(folder.centroid, locale) : null),
+        [folder.centroid, locale]
+    );
+
+    const nameError = folder.newName.trim() && !validateFolderName(finalName)
+        ? t('nameTemplateInvalidName', { name: finalName })
+        : null;
 
     const handleCopy = () => {
         navigator.clipboard.writeText(finalName).then(() => {
@@ -38,6 +71,27 @@ const FolderCard: React.FC<FolderCardProps> = ({
         });
     };
 
+    // <input type="date"> values are calendar days in the display time zone
+    const handlePinDateChange = (value: string) => {
+        if (!value) {
+            onPinDate?.(folder.id, null);
+            return;
+        }
+        const [year, month, day] = value.split('-').map(Number);
+        onPinDate?.(folder.id, createDateInTimeZone(year, month, day, timeZone));
+    };
+
+    const handleClockOffsetInput = (value: string) => {
+        const offsetHours = Number(value);
+        if (value !== '' && Number.isFinite(offsetHours)) {
+            onClockOffsetChange?.(folder.id, offsetHours);
+        }
+    };
+
+    const handleUsePhotoDate = (photo: Photo) => {
+        if (photo.date) onPinDate?.(folder.id, new Date(photo.date));
+    };
+
     const handleThumbnailClick = (photo: Photo) => {
         setSelectedPhoto(photo);
         setIsModalOpen(true);
@@ -72,7 +126,26 @@ const FolderCard: React.FC<FolderCardProps> = ({
                         <FolderIcon className="h-7 w-7 text-sky-400 mr-3 flex-shrink-0 mt-1" />
                     )}
                     <div className="flex-1 min-w-0">
-                        <p className="text-sm text-slate-400 truncate" title={folder.originalName}>{t('original')} {folder.originalName}</p>
+                        <div className="flex items-center gap-x-2 min-w-0">
+                            <p className="text-sm text-slate-400 truncate" title={folder.isSynthetic ? folder.originalName : folder.id}>{t('original')} {folder.originalName}</p>
+                            {folder.isSynthetic && (
+                                <span
+                                    className="flex-shrink-0 text-xs font-semibold text-violet-300 bg-violet-500/10 border border-violet-400/30 rounded px-1.5 py-0.5"
+                                    title={t('autoGroupedTitle')}
+                                >
+                                    {t('autoGroupedBadge')}
+                                </span>
+                            )}
+                            {!!folder.metadata?.outlierCount && (
+                                <span
+                                    className="flex-shrink-0 flex items-center text-xs font-semibold text-amber-300 bg-amber-500/10 border border-amber-400/30 rounded px-1.5 py-0.5"
+                                    title={t('outliersTitle')}
+                                >
+                                    <ExclamationTriangleIcon className="h-3.5 w-3.5 mr-1" />
+                                    {t('outliersBadge', { count: folder.metadata.outlierCount })}
+                                </span>
+                            )}
+                        </div>
                         {folder.isRenamed ? (
                             <button
                                 onClick={() => onEdit(folder.id)}
@@ -83,7 +156,14 @@ const FolderCard: React.FC<FolderCardProps> = ({
                                 <PencilSquareIcon className="h-5 w-5 text-slate-400 ml-2 flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity duration-200" />
                             </button>
                         ) : (
-                           <p className="font-semibold text-lg text-slate-100">{formattedDate}</p>
+                           <div className="flex items-center gap-x-2">
+                               <p className="font-semibold text-lg text-slate-100">{formattedDate}</p>
+                               {folder.pinnedDate && (
+                                   <span className="text-xs font-semibold text-sky-300 bg-sky-500/10 border border-sky-400/30 rounded px-1.5 py-0.5">
+                                       {t('pinnedDateBadge')}
+                                   </span>
+                               )}
+                           </div>
                         )}
                     </div>
                 </div>
@@ -103,27 +183,96 @@ const FolderCard: React.FC<FolderCardProps> = ({
                             </div>
                         </div>
 
+                        {onPinDate && (
+                            <div className="mb-4 flex items-center gap-x-2">
+                                <label htmlFor={`folder-date-${folder.id}`} className="text-sm font-medium text-slate-300">
+                                    {t('pinDateLabel')}
+                                </label>
+                                <input
+                                    id={`folder-date-${folder.id}`}
+                                    type="date"
+                                    value={folder.pinnedDate ? formatDate(folder.pinnedDate) : ''}
+                                    onChange={(e) => handlePinDateChange(e.target.value)}
+                                    className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-md text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500 [color-scheme:dark]"
+                                />
+                                {folder.pinnedDate && (
+                                    <button
+                                        onClick={() => handlePinDateChange('')}
+                                        className="p-1 text-slate-400 hover:text-slate-200 rounded-md hover:bg-slate-700 transition-colors"
+                                        aria-label={t('unpinDateAriaLabel')}
+                                        title={t('unpinDateAriaLabel')}
+                                    >
+                                        <XMarkIcon className="h-4 w-4" />
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {onClockOffsetChange && (
+                            <div className="mb-4 flex items-center gap-x-2">
+                                <label htmlFor={`clock-offset-${folder.id}`} className="text-sm font-medium text-slate-300" title={t('clockOffsetTitle')}>
+                                    {t('clockOffsetLabel')}
+                                </label>
+                                <input
+                                    id={`clock-offset-${folder.id}`}
+                                    type="number"
+                                    step={1}
+                                    min={-48}
+                                    max={48}
+                                    value={folder.clockOffsetHours ?? 0}
+                                    onChange={(e) => handleClockOffsetInput(e.target.value)}
+                                    className="w-20 px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-md text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                                />
+                                <span className="text-sm text-slate-400">{t('clockOffsetUnit')}</span>
+                            </div>
+                        )}
+
                         <div>
                             <div className="flex justify-between items-center mb-1">
                                 <label htmlFor={`folder-name-${folder.id}`} className="block text-sm font-medium text-slate-300">
                                     {t('newFolderNameLabel')}
                                 </label>
+                                {locationSuggestion && folder.newName !== locationSuggestion && (
+                                    <button
+                                        onClick={() => onNameChange(folder.id, locationSuggestion)}
+                                        className="flex items-center text-xs font-semibold text-emerald-300 bg-emerald-500/10 border border-emerald-400/30 rounded-full px-2 py-0.5 hover:bg-emerald-500/20 transition-colors"
+                                        title={t('locationSuggestionTitle')}
+                                    >
+                                        <SparklesIcon className="h-3.5 w-3.5 mr-1" />
+                                        {locationSuggestion}
+                                    </button>
+                                )}
                             </div>
-                            <div className="flex items-center space-x-0">
-                                <span className="text-slate-300 bg-slate-700 px-3 py-2 rounded-l-md border border-r-0 border-slate-600 whitespace-nowrap">{formattedDate}_</span>
-                                <input
-                                    id={`folder-name-${folder.id}`}
-                                    type="text"
-                                    value={folder.newName}
-                                    onChange={(e) => onNameChange(folder.id, e.target.value)}
-                                    placeholder={t('newFolderNamePlaceholder')}
-                                    className="block w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-r-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-200 placeholder-slate-400"
-                                />
-                            </div>
-                             {suggestionError && (
+                            <input
+                                id={`folder-name-${folder.id}`}
+                                type="text"
+                                value={folder.newName}
+                                onChange={(e) => onNameChange(folder.id, e.target.value)}
+                                placeholder={t('newFolderNamePlaceholder')}
+                                className="block w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-200 placeholder-slate-400"
+                            />
+                            <p className="mt-2 text-xs text-slate-400 truncate" title={finalName}>
+                                {t('nameTemplatePreview')} <span className="font-mono text-slate-300">{finalName}</span>
+                            </p>
+                            {photoNames && folder.photos.length > 0 && (
+                                <div className="mt-2 text-xs text-slate-400">
+                                    <p>{t('photoNamesPreview')}</p>
+                                    <ul className="mt-1 font-mono space-y-0.5">
+                                        {folder.photos.slice(0, MAX_PHOTO_NAMES_LISTED).map(photo => (
+                                            <li key={photo.id} className="truncate">
+                                                {photo.file?.name ?? photo.relativePath?.split('/').pop()} → <span className="text-slate-300">{photoNames.get(photo.id)}</span>
+                                            </li>
+                                        ))}
+                                        {folder.photos.length > MAX_PHOTO_NAMES_LISTED && (
+                                            <li>{t('conflictMore', { count: folder.photos.length - MAX_PHOTO_NAMES_LISTED })}</li>
+                                        )}
+                                    </ul>
+                                </div>
+                            )}
+                             {nameError && (
                                 <div className="mt-2 flex items-center text-sm text-red-400">
                                     <ExclamationTriangleIcon className="h-4 w-4 mr-2" aria-label={t('errorIconAriaLabel')} />
-                                    {suggestionError}
+                                    {nameError}
                                 </div>
                             )}
                         </div>
@@ -151,6 +300,8 @@ const FolderCard: React.FC<FolderCardProps> = ({
                 onClose={handleCloseModal}
                 onPrevious={handlePreviousPhoto}
                 onNext={handleNextPhoto}
+                onUsePhotoDate={onPinDate ? handleUsePhotoDate : undefined}
+                timeZone={timeZone}
             />
         </div>
     );
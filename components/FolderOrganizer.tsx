@@ -1,47 +1,205 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import FolderCard from './FolderCard';
+import BulkNameDialog from './BulkNameDialog';
 import Spinner from './Spinner';
 import ProgressModal from './ProgressModal';
 import { VirtualScrollGrid } from './VirtualScrollGrid';
 import PerformanceMonitor from './PerformanceMonitor';
-import { FolderArrowDownIcon, ArrowPathIcon, CodeBracketIcon, SaveIcon, ComputerDesktopIcon } from './Icons';
+import NameTemplateEditor from './NameTemplateEditor';
+import PhotoNameTemplateEditor from './PhotoNameTemplateEditor';
+import PhotoMapPanel from './PhotoMapPanel';
+import CameraFacetBar from './CameraFacetBar';
+import OrganizeModeSelector from './OrganizeModeSelector';
+import PlanPreviewDialog from './PlanPreviewDialog';
+import ProjectBanner from './ProjectBanner';
+import ResumeBanner from './ResumeBanner';
+import UndoBanner from './UndoBanner';
+import UndoPreviewDialog from './UndoPreviewDialog';
+import { FolderArrowDownIcon, ArrowPathIcon, ClipboardIcon, CodeBracketIcon, SaveIcon, ComputerDesktopIcon } from './Icons';
 import { useLanguage } from '../contexts/LanguageContext';
-import { useFolderProcessor, DateLogic } from '../hooks/useFolderProcessor';
-import { organizePhotosToFolders, isFileSystemAccessSupported, isValidFolderNameBoolean, ProcessingProgress } from '../utils/fileSystemUtils';
-import { Folder } from '../types';
+import { useFolderProcessor } from '../hooks/useFolderProcessor';
+import {
+    CompletedRename,
+    FailedFile,
+    FileSystemError,
+    InPlaceRename,
+    OrganizePreview,
+    OrganizeSummary,
+    ProcessingProgress,
+    ensureReadWritePermission,
+    isFileSystemAccessSupported,
+    organizePhotosToFolders,
+    pickTargetDirectory,
+    previewOrganize,
+    renameFoldersInPlace,
+    retryFailedFiles
+} from '../utils/fileSystemUtils';
+import { ConflictPolicy, DateLogic, Folder, FolderGrouping, LooseFileClustering, OrganizeMode, ScanOptions, ScriptTarget } from '../types';
 import { ErrorType, ErrorSeverity, handleError } from '../utils/errorHandler';
+import { createFolderListBlob } from '../utils/bulkNames';
+import { DEFAULT_SCAN_OPTIONS } from '../utils/directoryScanner';
+import { DEFAULT_FOLDER_NAME_TEMPLATE, FolderNameOptions, getFinalFolderName, validateFolderNameTemplate } from '../utils/folderNameTemplate';
+import { useLocalStorage } from '../utils/hookFactories';
+import { DEFAULT_PHOTO_NAME_TEMPLATE, PhotoNameOptions, getPhotoFileNames, validatePhotoNameTemplate } from '../utils/photoNameTemplate';
+import { applyClockOffset } from '../utils/photoDates';
+import { folderHasCamera, getCameraFacets, getPhotoCamera } from '../utils/photoMetadata';
+import {
+    OrganizeJournal,
+    UndoPreview,
+    clearOrganizeJournal,
+    createJournalHooks,
+    createRetryJournalHooks,
+    finishOrganizeJournal,
+    loadOrganizeJournal,
+    planOrganizeUndo,
+    resumeOrganizeJournal,
+    undoOrganizeJournal
+} from '../utils/organizeJournal';
+import { PreviewExportFormat, createPreviewExportBlob } from '../utils/organizePreview';
+import { ProjectFile, applyProjectToFolders, createProjectBlob, createProjectFile, parseProjectFile } from '../utils/projectFile';
+import { RenameOperation, createRenameScripts, detectScriptTarget } from '../utils/renameScript';
+import { isConflictPolicy, isScriptTarget } from '../utils/typeGuards';
 
 // --- Utility Functions ---
 
-type FormatDateFn = (date: Date | null) => string;
+const SCAN_DEPTH_OPTIONS = [1, 2, 3, 4, 5, 8];
 
-const createRenameScriptBlob = (
+const SCRIPT_TARGET_KEYS = {
+    [ScriptTarget.CMD]: ['scriptTargetCmd', 'scriptRunCmd'],
+    [ScriptTarget.POWERSHELL]: ['scriptTargetPowerShell', 'scriptRunPowerShell'],
+    [ScriptTarget.POSIX_SH]: ['scriptTargetSh', 'scriptRunSh'],
+    [ScriptTarget.PYTHON]: ['scriptTargetPython', 'scriptRunPython']
+} as const satisfies Record<ScriptTarget, readonly [string, string]>;
+
+type FinalNameFn = (folder: Folder) => string;
+// New name of each photo by photo id, null while photos keep their names
+type PhotoNamesFn = (folder: Folder) => ReadonlyMap<string, string> | null;
+
+// Dry run waiting for the go-ahead; without a target the plan can only be looked at, e.g. to fix names
+interface PendingOrganize {
+    target?: FileSystemDirectoryHandle;
+    folders: unknown[]; // Validated again by organizePhotosToFolders
+    preview: OrganizePreview;
+}
+
+// Photos of a finished run whose copy did not match, with what is needed to copy them again
+interface FailedRun {
+    target: FileSystemDirectoryHandle;
+    mode: OrganizeMode;
+    sourceDirectoryHandle?: FileSystemDirectoryHandle;
+    files: FailedFile[];
+}
+
+// Deepest folders first, so renaming a parent never invalidates the path of a nested folder
+const getRenamedFolders = (folders: Folder[]): Folder[] => folders
+    .filter(f => f.isRenamed && f.newName.trim())
+    .sort((a, b) => b.id.split('/').length - a.id.split('/').length);
+
+// Path of each photo that has one, with the name it gets; its own name while photos keep their names
+const getPhotoRenames = (folder: Folder, photoNames: ReadonlyMap<string, string> | null) => folder.photos
+    .flatMap(photo => {
+        const path = photo.relativePath ?? photo.file?.name;
+        return path ? [{ path, newName: photoNames?.get(photo.id) ?? path.split('/').pop() ?? path }] : [];
+    });
+
+// A path inside a folder renamed from `from` to `to`; other paths stay as they are
+const replacePathPrefix = (path: string, from: string, to: string): string =>
+    path === from ? to : path.startsWith(`${from}/`) ? to + path.slice(from.length) : path;
+
+// What to rename on disk for a folder: its photos under their new names first, as in the script
+const getInPlaceRename = (folder: Folder, newName: string, photoNames: ReadonlyMap<string, string> | null): InPlaceRename => {
+    const photos = getPhotoRenames(folder, photoNames);
+    const fileNames = photoNames ? { fileNames: photos.map(photo => photo.newName) } : {};
+    return folder.isSynthetic
+        ? { newName, photoPaths: photos.map(photo => photo.path), ...fileNames }
+        : { newName, path: folder.id, ...(photoNames ? { photoPaths: photos.map(photo => photo.path), ...fileNames } : {}) };
+};
+
+// The folder list as it is on disk after renaming in place, so a later run or script starts from the
+// new paths. Renames are applied in the order they ran, deepest first, so a folder's own id is still the
+// one it was renamed under when its turn comes.
+const applyInPlaceRenames = (
     folders: Folder[],
-    formatDate: FormatDateFn
-): { blob: Blob; filename: string } => {
-    const isWindows = typeof navigator !== 'undefined' && navigator.platform.toLowerCase().includes('win');
-    const renamedFolders = folders.filter(f => f.isRenamed && f.newName.trim());
-
-    let scriptContent = '';
-    if (isWindows) {
-        scriptContent = '@echo off\r\nchcp 65001 > nul\r\n';
-        renamedFolders.forEach(folder => {
-            const finalName = `${formatDate(folder.representativeDate)}_${folder.newName}`;
-            scriptContent += `ren "${folder.originalName}" "${finalName}"\r\n`;
-        });
-    } else {
-        scriptContent = '#!/bin/bash\n\n';
-        renamedFolders.forEach(folder => {
-            const finalName = `${formatDate(folder.representativeDate)}_${folder.newName}`;
-            scriptContent += `mv -v -- "${folder.originalName}" "${finalName}"\n`;
+    renamedFolders: Folder[],
+    renames: readonly InPlaceRename[],
+    completed: readonly CompletedRename[]
+): Folder[] =>
+    completed.reduce((current, { index, path, photoPaths }) => {
+        const renamedFolder = renamedFolders[index];
+        const name = path.split('/').pop() ?? path;
+        const movedPhotos = new Map(renames[index].photoPaths?.map((photoPath, i): [string, string] => [photoPath, photoPaths[i]]));
+        return current.map((folder): Folder => {
+            if (folder.id === renamedFolder.id) {
+                // Gathered photos now sit in a folder of their own
+                const { isSynthetic, ...rest } = folder;
+                return {
+                    ...rest,
+                    id: path,
+                    originalName: name,
+                    newName: '',
+                    isRenamed: false,
+                    photos: folder.photos.map(photo => {
+                        const photoPath = photo.relativePath ?? photo.file?.name;
+                        const relativePath = (photoPath && movedPhotos.get(photoPath))
+                            ?? (photo.relativePath && replacePathPrefix(photo.relativePath, renamedFolder.id, path));
+                        return relativePath ? { ...photo, relativePath } : photo;
+                    })
+                };
+            }
+            if (renamedFolder.isSynthetic) return folder;
+            return {
+                ...folder,
+                id: folder.isSynthetic ? folder.id : replacePathPrefix(folder.id, renamedFolder.id, path),
+                photos: folder.photos.map(photo => (photo.relativePath
+                    ? { ...photo, relativePath: replacePathPrefix(photo.relativePath, renamedFolder.id, path) }
+                    : photo))
+            };
         });
-    }
+    }, folders);
 
-    const blob = new Blob([scriptContent], { type: 'text/plain' });
-    const filename = isWindows ? 'rename_folders.bat' : 'rename_folders.sh';
-    
-    return { blob, filename };
+const downloadBlob = ({ blob, filename }: { blob: Blob; filename: string }) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+const getRenameOperations = (folders: Folder[], getFinalName: FinalNameFn, getPhotoNames: PhotoNamesFn): RenameOperation[] => getRenamedFolders(folders)
+    .flatMap((folder): RenameOperation[] => {
+        const photos = getPhotoRenames(folder, getPhotoNames(folder));
+        if (folder.isSynthetic) {
+            return [{
+                type: 'gather',
+                newName: getFinalName(folder),
+                photoPaths: photos.map(photo => photo.path),
+                fileNames: photos.map(photo => photo.newName)
+            }];
+        }
+        // The photos go first, while their folder still has its old path
+        return [
+            ...photos
+                .filter(photo => photo.path.split('/').pop() !== photo.newName)
+                .map(photo => ({ type: 'rename' as const, path: photo.path, newName: photo.newName })),
+            { type: 'rename', path: folder.id, newName: getFinalName(folder) }
+        ];
+    });
+
+// The rename script and its rollback script, for the same operations so their step ids match
+const createRenameScriptBlobs = (
+    folders: Folder[],
+    getFinalName: FinalNameFn,
+    getPhotoNames: PhotoNamesFn,
+    target: ScriptTarget,
+    rootFolderName: string
+): { blob: Blob; filename: string }[] => {
+    const operations = getRenameOperations(folders, getFinalName, getPhotoNames);
+    const { script, rollback } = createRenameScripts(operations, target, { rootFolderName });
+    return [script, rollback].map(({ content, filename }) => ({ blob: new Blob([content], { type: 'text/plain' }), filename }));
 };
 
 // --- Component ---
@@ -64,6 +222,25 @@ const FolderOrganizer: React.FC = () => {
 
     const [isDragging, setIsDragging] = useState(false);
     const [dateLogic, setDateLogic] = useState<DateLogic>('earliest');
+    const [scanOptions, setScanOptions] = useState<ScanOptions>(DEFAULT_SCAN_OPTIONS);
+    const [nameTemplate, setNameTemplate] = useLocalStorage('folderNameTemplate', DEFAULT_FOLDER_NAME_TEMPLATE);
+    const [displayTimeZone, setDisplayTimeZone] = useLocalStorage('displayTimeZone', '');
+    const [renamePhotos, setRenamePhotos] = useLocalStorage('renamePhotos', false);
+    const [photoNameTemplate, setPhotoNameTemplate] = useLocalStorage('photoNameTemplate', DEFAULT_PHOTO_NAME_TEMPLATE);
+    const [selectedCamera, setSelectedCamera] = useState<string | null>(null);
+    const [splitByCamera, setSplitByCamera] = useLocalStorage('splitByCamera', false);
+    // Handle of the dropped folder, only available in browsers that expose it on drop
+    const [sourceDirectoryHandle, setSourceDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
+    const [organizeMode, setOrganizeMode] = useState<OrganizeMode>(OrganizeMode.COPY);
+    const [storedConflictPolicy, setConflictPolicy] = useLocalStorage<ConflictPolicy>('conflictPolicy', ConflictPolicy.RENAME);
+    const [verifyCopies, setVerifyCopies] = useLocalStorage('verifyCopies', true);
+    const [storedScriptTarget, setScriptTarget] = useLocalStorage<ScriptTarget>('renameScriptTarget', detectScriptTarget());
+    // Stored values may be stale or edited by hand; an unknown one would break rendering
+    const conflictPolicy = isConflictPolicy(storedConflictPolicy) ? storedConflictPolicy : ConflictPolicy.RENAME;
+    const scriptTarget = isScriptTarget(storedScriptTarget) ? storedScriptTarget : detectScriptTarget();
+    // Organize run shown as a dry run, waiting for the user to confirm it
+    const [pendingOrganize, setPendingOrganize] = useState<PendingOrganize | null>(null);
+    const [isBulkNameOpen, setIsBulkNameOpen] = useState(false);
     const [showPerformanceMonitor, setShowPerformanceMonitor] = useState(process.env.NODE_ENV === 'development');
     
     // File System Access states
@@ -73,12 +250,67 @@ const FolderOrganizer: React.FC = () => {
         total: 0,
         status: 'preparing'
     });
+    const [organizeSummary, setOrganizeSummary] = useState<OrganizeSummary | null>(null);
+    const [organizeMessage, setOrganizeMessage] = useState<string | null>(null);
+    // Set while a cancellable run is copying
+    const [organizeAbort, setOrganizeAbort] = useState<AbortController | null>(null);
+    const [failedRun, setFailedRun] = useState<FailedRun | null>(null);
+    // Latest organize run: resumable while unfinished, e.g. after the tab was closed, undoable once finished
+    const [lastJournal, setLastJournal] = useState<OrganizeJournal | null>(null);
+    const [undoPreview, setUndoPreview] = useState<UndoPreview | null>(null);
+    // Opened project file, applied to every folder loaded while it is open
+    const [project, setProject] = useState<ProjectFile | null>(null);
+    const [projectRestored, setProjectRestored] = useState<number | null>(null);
+    const [projectError, setProjectError] = useState<string | null>(null);
+    // Project already applied to the loaded folders, so later edits are not overwritten
+    const appliedProjectRef = useRef<ProjectFile | null>(null);
 
     useEffect(() => {
         return () => {
             cleanup();
         };
     }, [cleanup]);
+
+    const refreshJournal = useCallback(() => {
+        loadOrganizeJournal()
+            .then(setLastJournal)
+            .catch(error => console.warn('Failed to load the organize journal:', error));
+    }, []);
+
+    useEffect(() => {
+        refreshJournal();
+    }, [refreshJournal]);
+
+    useEffect(() => {
+        if (status !== 'done') {
+            appliedProjectRef.current = null;
+            return;
+        }
+        if (!project || appliedProjectRef.current === project) return;
+
+        appliedProjectRef.current = project;
+        const restored = applyProjectToFolders(folders, project);
+        setFolders(restored.folders);
+        setProjectRestored(restored.restored);
+    }, [status, folders, project, setFolders]);
+
+    const finishJournal = useCallback(async () => {
+        try {
+            await finishOrganizeJournal();
+        } catch (error) {
+            console.warn('Failed to finish the organize journal:', error);
+        }
+        refreshJournal();
+    }, [refreshJournal]);
+
+    const discardJournal = useCallback(async () => {
+        try {
+            await clearOrganizeJournal();
+        } catch (error) {
+            console.warn('Failed to clear the organize journal:', error);
+        }
+        setLastJournal(null);
+    }, []);
     
     const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
@@ -87,14 +319,19 @@ const FolderOrganizer: React.FC = () => {
         
         const items = event.dataTransfer.items;
         if (items && items.length > 0) {
+            // Must be requested while the drop event is being dispatched
+            const handlePromise = items[0].getAsFileSystemHandle?.() ?? Promise.resolve(null);
             const entry = items[0].webkitGetAsEntry();
             if (entry && entry.isDirectory) {
-                processDirectory(entry as FileSystemDirectoryEntry, dateLogic);
+                handlePromise
+                    .then(handle => setSourceDirectoryHandle(handle?.kind === 'directory' ? handle as FileSystemDirectoryHandle : null))
+                    .catch(() => setSourceDirectoryHandle(null));
+                processDirectory(entry as FileSystemDirectoryEntry, dateLogic, scanOptions, displayTimeZone || undefined);
             } else {
                 setFailure(t('errorDropFile'));
             }
         }
-    }, [t, dateLogic, processDirectory, setFailure]);
+    }, [t, dateLogic, scanOptions, displayTimeZone, processDirectory, setFailure]);
 
     const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
@@ -116,6 +353,12 @@ const FolderOrganizer: React.FC = () => {
         );
     }, [setFolders]);
 
+    // Names imported from a spreadsheet are typed in as if by hand, still waiting to be saved
+    const handleApplyBulkNames = useCallback((names: { folderId: string; newName: string }[]) => {
+        names.forEach(({ folderId, newName }) => handleNameChange(folderId, newName));
+        setIsBulkNameOpen(false);
+    }, [handleNameChange]);
+
     const handleSaveAll = useCallback(() => {
         setFolders(prevFolders =>
             prevFolders.map(folder =>
@@ -126,6 +369,22 @@ const FolderOrganizer: React.FC = () => {
         );
     }, [setFolders]);
     
+    const handlePinDate = useCallback((folderId: string, pinnedDate: Date | null) => {
+        setFolders(prevFolders =>
+            prevFolders.map(folder =>
+                folder.id === folderId ? { ...folder, pinnedDate } : folder
+            )
+        );
+    }, [setFolders]);
+
+    const handleClockOffsetChange = useCallback((folderId: string, offsetHours: number) => {
+        setFolders(prevFolders =>
+            prevFolders.map(folder =>
+                folder.id === folderId ? applyClockOffset(folder, offsetHours, displayTimeZone || undefined) : folder
+            )
+        );
+    }, [setFolders, displayTimeZone]);
+
      const handleEditFolder = useCallback((folderId: string) => {
         setFolders(prevFolders =>
             prevFolders.map(folder =>
@@ -136,101 +395,431 @@ const FolderOrganizer: React.FC = () => {
         );
     }, [setFolders]);
 
-    
-    const formatDateForScript = (date: Date | null): string => {
-        if (!date) return t('unknownDate');
-        return date.toISOString().split('T')[0];
-    };
+
+    // A template with syntax errors falls back to the default so outputs stay usable while editing
+    const nameOptions: FolderNameOptions = useMemo(() => ({
+        template: validateFolderNameTemplate(nameTemplate).length === 0 ? nameTemplate : DEFAULT_FOLDER_NAME_TEMPLATE,
+        unknownDate: t('unknownDate'),
+        timeZone: displayTimeZone || undefined
+    }), [nameTemplate, displayTimeZone, t]);
+
+    const folderSequence = useMemo(
+        () => new Map(folders.map((folder, index) => [folder.id, index + 1])),
+        [folders]
+    );
+
+    const getFinalName = useCallback(
+        (folder: Folder) => getFinalFolderName(folder, folderSequence.get(folder.id) ?? 1, nameOptions),
+        [folderSequence, nameOptions]
+    );
+
+    const photoNameOptions: PhotoNameOptions | undefined = useMemo(() => (renamePhotos ? {
+        template: validatePhotoNameTemplate(photoNameTemplate).length === 0 ? photoNameTemplate : DEFAULT_PHOTO_NAME_TEMPLATE,
+        unknownDate: t('unknownDate'),
+        timeZone: displayTimeZone || undefined
+    } : undefined), [renamePhotos, photoNameTemplate, displayTimeZone, t]);
+
+    const getPhotoNames = useCallback(
+        (folder: Folder) => (photoNameOptions ? getPhotoFileNames(folder, photoNameOptions, getFinalName(folder)) : null),
+        [photoNameOptions, getFinalName]
+    );
+
+    const cameraFacets = useMemo(() => getCameraFacets(folders), [folders]);
+
+    // A camera that is gone after loading another folder no longer filters anything
+    const activeCamera = cameraFacets.some(facet => facet.camera === selectedCamera) ? selectedCamera : null;
+
+    const visibleFolders = useMemo(
+        () => (activeCamera === null ? folders : folders.filter(folder => folderHasCamera(folder, activeCamera))),
+        [folders, activeCamera]
+    );
+
+    // Moving needs a writable handle of the dropped folder; without one the photos are copied
+    const activeOrganizeMode = organizeMode === OrganizeMode.MOVE && !sourceDirectoryHandle ? OrganizeMode.COPY : organizeMode;
+
+    const reportOrganizeError = useCallback((error: unknown, operation: string, folderCount: number) => {
+        // Cancelling is the user's choice, not a failure worth logging
+        if (error instanceof FileSystemError && error.code === 'CANCELLED') {
+            setIsOrganizing(true);
+            setOrganizingProgress(prev => ({ ...prev, status: 'error', error: t('organizeCancelled') }));
+            return;
+        }
+
+        const appError = handleError(
+            error instanceof Error ? error : new Error(String(error)),
+            ErrorType.FILE_ACCESS_DENIED,
+            ErrorSeverity.HIGH,
+            {
+                operation,
+                folderCount
+            }
+        );
+        setIsOrganizing(true);
+        setOrganizingProgress(prev => ({
+            ...prev,
+            status: 'error',
+            error: appError.userMessage
+        }));
+    }, [t]);
+
+    const runOrganize = useCallback(async (
+        target: FileSystemDirectoryHandle,
+        foldersToOrganize: unknown[],
+        policy: ConflictPolicy
+    ) => {
+        setIsOrganizing(true);
+        setOrganizeSummary(null);
+        setOrganizeMessage(null);
+        setOrganizingProgress({ current: 0, total: 0, status: 'preparing' });
+        const controller = new AbortController();
+        setOrganizeAbort(controller);
+        const failures: FailedFile[] = [];
+
+        try {
+            const result = await organizePhotosToFolders(foldersToOrganize, (progress) => {
+                setOrganizingProgress(progress);
+            }, {
+                splitByDevice: splitByCamera,
+                mode: activeOrganizeMode,
+                sourceDirectoryHandle: sourceDirectoryHandle ?? undefined,
+                targetDirectoryHandle: target,
+                conflictPolicy: policy,
+                verify: verifyCopies,
+                signal: controller.signal,
+                onFileFailed: failure => failures.push(failure),
+                ...createJournalHooks({
+                    mode: activeOrganizeMode,
+                    conflictPolicy: policy,
+                    verify: verifyCopies,
+                    sourceDirectoryHandle: sourceDirectoryHandle ?? undefined
+                })
+            });
+
+            if (result.success) {
+                setOrganizeSummary(result.data);
+                setFailedRun(failures.length > 0 ? {
+                    target,
+                    mode: activeOrganizeMode,
+                    sourceDirectoryHandle: sourceDirectoryHandle ?? undefined,
+                    files: failures
+                } : null);
+                await finishJournal();
+            } else {
+                reportOrganizeError(result.error, 'organizePhotosToFolders', foldersToOrganize.length);
+                refreshJournal();
+            }
+        } catch (error) {
+            reportOrganizeError(error, 'organizePhotosToFolders', foldersToOrganize.length);
+            refreshJournal();
+        } finally {
+            setOrganizeAbort(null);
+        }
+    }, [splitByCamera, activeOrganizeMode, sourceDirectoryHandle, verifyCopies, reportOrganizeError, finishJournal, refreshJournal]);
+
+    const handleResumeJournal = useCallback(async () => {
+        if (!lastJournal) return;
+
+        setIsOrganizing(true);
+        setOrganizeSummary(null);
+        setOrganizeMessage(null);
+        setOrganizingProgress({ current: lastJournal.completed.length, total: 0, status: 'preparing' });
+
+        const controller = new AbortController();
+        setOrganizeAbort(controller);
+        const failures: FailedFile[] = [];
+
+        try {
+            const result = await resumeOrganizeJournal(lastJournal, setOrganizingProgress, {
+                signal: controller.signal,
+                onFileFailed: failure => failures.push(failure)
+            });
+            if (result.success) {
+                setOrganizeSummary(result.data);
+                setFailedRun(failures.length > 0 ? {
+                    target: lastJournal.targetDirectoryHandle,
+                    mode: lastJournal.mode,
+                    sourceDirectoryHandle: lastJournal.sourceDirectoryHandle,
+                    files: failures
+                } : null);
+                await finishJournal();
+            } else {
+                reportOrganizeError(result.error, 'resumeOrganizeJournal', lastJournal.plan.folders.length);
+                refreshJournal();
+            }
+        } catch (error) {
+            reportOrganizeError(error, 'resumeOrganizeJournal', lastJournal.plan.folders.length);
+            refreshJournal();
+        } finally {
+            setOrganizeAbort(null);
+        }
+    }, [lastJournal, reportOrganizeError, finishJournal, refreshJournal]);
+
+    const handleRetryFailed = useCallback(async () => {
+        if (!failedRun) return;
+
+        setOrganizeSummary(null);
+        setOrganizingProgress({ current: 0, total: failedRun.files.length, status: 'preparing' });
+        const controller = new AbortController();
+        setOrganizeAbort(controller);
+        const failures: FailedFile[] = [];
+
+        try {
+            const result = await retryFailedFiles(failedRun.target, failedRun.files, setOrganizingProgress, {
+                mode: failedRun.mode,
+                sourceDirectoryHandle: failedRun.sourceDirectoryHandle,
+                signal: controller.signal,
+                onFileFailed: failure => failures.push(failure),
+                ...createRetryJournalHooks()
+            });
+            if (result.success) {
+                setOrganizeSummary(result.data);
+                setFailedRun(failures.length > 0 ? { ...failedRun, files: failures } : null);
+            } else {
+                reportOrganizeError(result.error, 'retryFailedFiles', failedRun.files.length);
+            }
+        } catch (error) {
+            reportOrganizeError(error, 'retryFailedFiles', failedRun.files.length);
+        } finally {
+            setOrganizeAbort(null);
+            // Photos copied before a failure or cancellation are in the journal too
+            refreshJournal();
+        }
+    }, [failedRun, reportOrganizeError, refreshJournal]);
+
+    const handlePreviewUndo = useCallback(() => {
+        if (lastJournal) setUndoPreview(planOrganizeUndo(lastJournal));
+    }, [lastJournal]);
+
+    const handleConfirmUndo = useCallback(async () => {
+        if (!lastJournal || !undoPreview) return;
+        setUndoPreview(null);
+
+        setIsOrganizing(true);
+        setOrganizeSummary(null);
+        setOrganizeMessage(null);
+        setOrganizingProgress({ current: 0, total: undoPreview.actions.length, status: 'preparing' });
+
+        try {
+            const result = await undoOrganizeJournal(lastJournal, undoPreview, setOrganizingProgress);
+            if (result.success) {
+                setOrganizeMessage(result.data.kept.length > 0
+                    ? t('undoKept', { reverted: result.data.reverted, kept: result.data.kept.length })
+                    : t('undoDone', { reverted: result.data.reverted }));
+                await discardJournal();
+            } else {
+                reportOrganizeError(result.error, 'undoOrganizeJournal', lastJournal.plan.folders.length);
+            }
+        } catch (error) {
+            reportOrganizeError(error, 'undoOrganizeJournal', lastJournal.plan.folders.length);
+        } finally {
+            // The undo banner shows again while the journal is still there
+            refreshJournal();
+        }
+    }, [lastJournal, undoPreview, reportOrganizeError, discardJournal, refreshJournal, t]);
+
+    const journalBanner = lastJournal && !isOrganizing && (lastJournal.finishedAt
+        ? <UndoBanner journal={lastJournal} onUndo={handlePreviewUndo} onDismiss={discardJournal} />
+        : <ResumeBanner journal={lastJournal} onResume={handleResumeJournal} onDiscard={discardJournal} />);
 
     // File System Access functionality
+    const handleCloseProgressModal = useCallback(() => {
+        setIsOrganizing(false);
+        setOrganizingProgress({ current: 0, total: 0, status: 'preparing' });
+        setOrganizeSummary(null);
+        setOrganizeMessage(null);
+        setFailedRun(null);
+    }, []);
+
     const handleOrganizeToComputer = useCallback(async () => {
         if (!isFileSystemAccessSupported()) {
             alert(t('fileSystemNotSupported'));
             return;
         }
 
-        // Check if all folders have valid names
-        const validationErrors: string[] = [];
         const foldersToOrganize = folders.filter(f => f.isRenamed).map(folder => {
-            const finalName = `${formatDateForScript(folder.representativeDate)}_${folder.newName}`;
-            if (!isValidFolderNameBoolean(finalName)) {
-                validationErrors.push(`Invalid folder name: ${finalName}`);
-            }
+            const photosWithFile = folder.photos.filter(p => !!p.file);
+            const photoNames = getPhotoNames(folder);
             return {
-                name: finalName,
-                photos: folder.photos.map(p => p.file).filter((f): f is File => !!f)
+                name: getFinalName(folder),
+                photos: photosWithFile.map(p => p.file as File),
+                devices: photosWithFile.map(p => getPhotoCamera(p) || t('unknownCamera')),
+                sourcePaths: photosWithFile.map(p => p.relativePath ?? (p.file as File).name),
+                ...(photoNames ? { fileNames: photosWithFile.map(p => photoNames.get(p.id) ?? (p.file as File).name) } : {})
             };
         });
 
-        if (validationErrors.length > 0) {
-            alert(`Please fix these folder names:\n${validationErrors.join('\n')}`);
+        // Invalid names and an empty selection are shown in the plan, which cannot be run until they are fixed
+        const dryRun = await previewOrganize(foldersToOrganize, { splitByDevice: splitByCamera });
+        if (!dryRun.success) {
+            reportOrganizeError(dryRun.error, 'previewOrganize', foldersToOrganize.length);
             return;
         }
-
-        if (foldersToOrganize.length === 0) {
-            alert('No folders are ready to organize. Please rename at least one folder.');
+        if (dryRun.data.invalidFolders.length > 0 || foldersToOrganize.length === 0) {
+            setPendingOrganize({ folders: foldersToOrganize, preview: dryRun.data });
             return;
         }
 
-        setIsOrganizing(true);
-        setOrganizingProgress({ current: 0, total: 0, status: 'preparing' });
+        if (activeOrganizeMode === OrganizeMode.RENAME) {
+            setIsOrganizing(true);
+            setOrganizeSummary(null);
+            setOrganizeMessage(null);
+            setOrganizingProgress({ current: 0, total: 0, status: 'preparing' });
+
+            try {
+                const renamedFolders = getRenamedFolders(folders);
+                const renames = renamedFolders.map(folder => getInPlaceRename(folder, getFinalName(folder), getPhotoNames(folder)));
+                const result = await renameFoldersInPlace(renames, setOrganizingProgress);
+                if (!result.success) {
+                    if (result.error.code === 'CANCELLED') {
+                        handleCloseProgressModal();
+                        return;
+                    }
+                    setOrganizeMessage(t('renameInPlaceFailed'));
+                    reportOrganizeError(result.error, 'renameFoldersInPlace', foldersToOrganize.length);
+                    return;
+                }
+
+                const { renamed, failure } = result.data;
+                setFolders(prevFolders => applyInPlaceRenames(prevFolders, renamedFolders, renames, renamed));
+                if (failure) {
+                    setOrganizeMessage(t('renameInPlacePartial', { renamed: renamed.length, total: renamedFolders.length }));
+                    reportOrganizeError(failure, 'renameFoldersInPlace', foldersToOrganize.length);
+                } else {
+                    setOrganizeMessage(t('renameInPlaceDone', { count: renamed.length }));
+                }
+            } catch (error) {
+                setOrganizeMessage(t('renameInPlaceFailed'));
+                reportOrganizeError(error, 'renameFoldersInPlace', foldersToOrganize.length);
+            }
+            return;
+        }
 
         try {
-            const result = await organizePhotosToFolders(foldersToOrganize, (progress) => {
-                setOrganizingProgress(progress);
+            // Ask while the click still counts as a user gesture; organizePhotosToFolders checks the answer
+            if (activeOrganizeMode === OrganizeMode.MOVE && sourceDirectoryHandle) {
+                await ensureReadWritePermission(sourceDirectoryHandle);
+            }
+
+            const targetResult = await pickTargetDirectory();
+            if (!targetResult.success) {
+                reportOrganizeError(targetResult.error, 'pickTargetDirectory', foldersToOrganize.length);
+                return;
+            }
+            if (!targetResult.data) return;
+
+            const previewResult = await previewOrganize(foldersToOrganize, {
+                splitByDevice: splitByCamera,
+                targetDirectoryHandle: targetResult.data
             });
-            
-            if (!result.success) {
-                const appError = handleError(
-                    result.error,
-                    ErrorType.FILE_ACCESS_DENIED,
-                    ErrorSeverity.HIGH,
-                    {
-                        operation: 'organizePhotosToFolders',
-                        folderCount: foldersToOrganize.length
-                    }
-                );
-                setOrganizingProgress(prev => ({
-                    ...prev,
-                    status: 'error',
-                    error: appError.userMessage
-                }));
+            if (!previewResult.success) {
+                reportOrganizeError(previewResult.error, 'previewOrganize', foldersToOrganize.length);
+                return;
             }
+
+            setPendingOrganize({ target: targetResult.data, folders: foldersToOrganize, preview: previewResult.data });
+        } catch (error) {
+            reportOrganizeError(error, 'organizePhotosToFolders', foldersToOrganize.length);
+        }
+    }, [folders, getFinalName, getPhotoNames, splitByCamera, activeOrganizeMode, sourceDirectoryHandle, reportOrganizeError, handleCloseProgressModal, setFolders, t]);
+
+    const handleConfirmPlan = useCallback(() => {
+        if (!pendingOrganize?.target) return;
+        setPendingOrganize(null);
+        runOrganize(pendingOrganize.target, pendingOrganize.folders, conflictPolicy);
+    }, [pendingOrganize, conflictPolicy, runOrganize]);
+
+    const handleExportPlan = useCallback((format: PreviewExportFormat) => {
+        if (!pendingOrganize) return;
+        downloadBlob(createPreviewExportBlob(pendingOrganize.preview, format, activeOrganizeMode, pendingOrganize.target?.name));
+    }, [pendingOrganize, activeOrganizeMode]);
+
+    const handleGenerateScript = () => {
+        createRenameScriptBlobs(folders, getFinalName, getPhotoNames, scriptTarget, rootFolderName).forEach(downloadBlob);
+    };
+
+    const handleExportNames = () => {
+        downloadBlob(createFolderListBlob(folders, nameOptions.timeZone));
+    };
+
+    const handleSaveProject = () => {
+        downloadBlob(createProjectBlob(createProjectFile(rootFolderName, folders, {
+            dateLogic,
+            scanOptions,
+            nameTemplate,
+            displayTimeZone,
+            renamePhotos,
+            photoNameTemplate,
+            splitByCamera,
+            conflictPolicy,
+            verifyCopies,
+            scriptTarget
+        })));
+    };
+
+    const handleOpenProject = useCallback(async (file: File) => {
+        setProjectError(null);
+        let text: string;
+        try {
+            text = await file.text();
         } catch (error) {
             const appError = handleError(
                 error instanceof Error ? error : new Error(String(error)),
                 ErrorType.FILE_ACCESS_DENIED,
-                ErrorSeverity.HIGH,
-                {
-                    operation: 'organizePhotosToFolders',
-                    folderCount: foldersToOrganize.length
-                }
+                ErrorSeverity.MEDIUM,
+                { operation: 'openProject' }
             );
-            setOrganizingProgress(prev => ({
-                ...prev,
-                status: 'error',
-                error: appError.userMessage
-            }));
+            setProjectError(appError.userMessage);
+            return;
         }
-    }, [folders, t]);
 
-    const handleCloseProgressModal = useCallback(() => {
-        setIsOrganizing(false);
-        setOrganizingProgress({ current: 0, total: 0, status: 'preparing' });
+        const result = parseProjectFile(text);
+        if (!result.success) {
+            setProjectError(result.error.code === 'UNSUPPORTED_VERSION'
+                ? t('projectUnsupportedVersion', { version: result.error.details ?? '' })
+                : t('projectInvalid'));
+            return;
+        }
+
+        // Date rule and scan options take effect with the next drop; the rest right away
+        const { settings } = result.data;
+        if (settings.dateLogic) setDateLogic(settings.dateLogic);
+        if (settings.scanOptions) setScanOptions(settings.scanOptions);
+        if (settings.nameTemplate !== undefined) setNameTemplate(settings.nameTemplate);
+        if (settings.displayTimeZone !== undefined) setDisplayTimeZone(settings.displayTimeZone);
+        if (settings.renamePhotos !== undefined) setRenamePhotos(settings.renamePhotos);
+        if (settings.photoNameTemplate !== undefined) setPhotoNameTemplate(settings.photoNameTemplate);
+        if (settings.splitByCamera !== undefined) setSplitByCamera(settings.splitByCamera);
+        if (settings.conflictPolicy) setConflictPolicy(settings.conflictPolicy);
+        if (settings.verifyCopies !== undefined) setVerifyCopies(settings.verifyCopies);
+        if (settings.scriptTarget) setScriptTarget(settings.scriptTarget);
+        setProject(result.data);
+    }, [
+        t,
+        setNameTemplate,
+        setDisplayTimeZone,
+        setRenamePhotos,
+        setPhotoNameTemplate,
+        setSplitByCamera,
+        setConflictPolicy,
+        setVerifyCopies,
+        setScriptTarget
+    ]);
+
+    const handleCloseProject = useCallback(() => {
+        setProject(null);
+        setProjectError(null);
     }, []);
 
-    const handleGenerateScript = () => {
-        const { blob, filename } = createRenameScriptBlob(folders, formatDateForScript);
-
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    };
+    const renderProjectBanner = (canSave: boolean) => (
+        <ProjectBanner
+            project={project}
+            restored={status === 'done' ? projectRestored : null}
+            error={projectError}
+            onSave={canSave ? handleSaveProject : undefined}
+            onOpen={handleOpenProject}
+            onClose={handleCloseProject}
+        />
+    );
     
     if (status === 'idle' || status === 'error') {
         return (
@@ -241,6 +830,10 @@ const FolderOrganizer: React.FC = () => {
                     <p className="mt-2 text-sm text-green-400 font-medium">あなたの写真はブラウザ内でローカルに処理され、アップロードされることはありません</p>
                 </div>
 
+                {journalBanner}
+
+                {renderProjectBanner(false)}
+
                 <div className="p-8 sm:p-10 bg-slate-800/50 rounded-2xl border border-slate-700/80">
                      {status === 'error' && error && (
                         <div className="mb-6 p-4 bg-red-900/50 border border-red-500/50 rounded-lg text-left">
@@ -264,29 +857,126 @@ const FolderOrganizer: React.FC = () => {
                     <div className="mt-8">
                         <h4 className="text-base font-semibold text-slate-200 mb-3">{t('dateRuleTitle')}</h4>
                         <div className="flex justify-center">
+                            <div className="flex flex-wrap items-center justify-center gap-1 p-1 bg-slate-700/50 rounded-lg">
+                                {([
+                                    [DateLogic.EARLIEST, t('dateRuleOldest')],
+                                    [DateLogic.LATEST, t('dateRuleNewest')],
+                                    [DateLogic.RANGE, t('dateRuleRange')],
+                                    [DateLogic.MEDIAN, t('dateRuleMedian')],
+                                    [DateLogic.MODE, t('dateRuleMode')],
+                                    [DateLogic.TRIMMED_EARLIEST, t('dateRuleTrimmed')]
+                                ] as const).map(([logic, label]) => (
+                                    <button
+                                        key={logic}
+                                        onClick={() => setDateLogic(logic)}
+                                        className={`px-4 py-1 text-sm font-semibold rounded-md transition-all duration-300 ${
+                                            dateLogic === logic
+                                                ? 'bg-sky-500 text-white shadow'
+                                                : 'text-slate-300 hover:bg-slate-600'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="mt-8 flex flex-col sm:flex-row justify-center gap-8">
+                        <div>
+                            <h4 className="text-base font-semibold text-slate-200 mb-3">{t('scanDepthTitle')}</h4>
+                            <select
+                                value={scanOptions.maxDepth}
+                                onChange={(e) => {
+                                    const maxDepth = Number(e.target.value);
+                                    setScanOptions(prev => ({ ...prev, maxDepth, groupLevel: Math.min(prev.groupLevel, maxDepth) }));
+                                }}
+                                className="px-3 py-1.5 text-sm bg-slate-700/50 border border-slate-600 rounded-lg text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                            >
+                                {SCAN_DEPTH_OPTIONS.map(depth => (
+                                    <option key={depth} value={depth}>{t('scanDepthLevels', { depth })}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <h4 className="text-base font-semibold text-slate-200 mb-3">{t('groupingTitle')}</h4>
+                            <div className="flex items-center justify-center gap-x-3">
+                                <div className="flex items-center space-x-1 p-1 bg-slate-700/50 rounded-lg">
+                                    {([
+                                        [FolderGrouping.LEAF, t('groupingLeaf')],
+                                        [FolderGrouping.LEVEL, t('groupingLevel')],
+                                        [FolderGrouping.FLATTEN, t('groupingFlatten')]
+                                    ] as const).map(([grouping, label]) => (
+                                        <button
+                                            key={grouping}
+                                            onClick={() => setScanOptions(prev => ({ ...prev, grouping }))}
+                                            className={`px-3 py-1 text-sm font-semibold rounded-md transition-all duration-300 ${
+                                                scanOptions.grouping === grouping
+                                                    ? 'bg-sky-500 text-white shadow'
+                                                    : 'text-slate-300 hover:bg-slate-600'
+                                            }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {scanOptions.grouping === FolderGrouping.LEVEL && (
+                                    <label className="flex items-center gap-x-2 text-sm text-slate-300">
+                                        {t('groupLevelLabel')}
+                                        <select
+                                            value={scanOptions.groupLevel}
+                                            onChange={(e) => setScanOptions(prev => ({ ...prev, groupLevel: Number(e.target.value) }))}
+                                            className="px-2 py-1 bg-slate-700/50 border border-slate-600 rounded-md text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                                        >
+                                            {Array.from({ length: scanOptions.maxDepth }, (_, i) => i + 1).map(level => (
+                                                <option key={level} value={level}>{level}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="mt-8">
+                        <h4 className="text-base font-semibold text-slate-200 mb-3">{t('looseFilesTitle')}</h4>
+                        <div className="flex flex-wrap items-center justify-center gap-3">
                             <div className="flex items-center space-x-1 p-1 bg-slate-700/50 rounded-lg">
-                                <button
-                                    onClick={() => setDateLogic('earliest')}
-                                    className={`px-4 py-1 text-sm font-semibold rounded-md transition-all duration-300 ${
-                                        dateLogic === 'earliest'
-                                            ? 'bg-sky-500 text-white shadow'
-                                            : 'text-slate-300 hover:bg-slate-600'
-                                    }`}
-                                >
-                                    {t('dateRuleOldest')}
-                                </button>
-                                <button
-                                    onClick={() => setDateLogic('latest')}
-                                    className={`px-4 py-1 text-sm font-semibold rounded-md transition-all duration-300 ${
-                                        dateLogic === 'latest'
-                                            ? 'bg-sky-500 text-white shadow'
-                                            : 'text-slate-300 hover:bg-slate-600'
-                                    }`}
-                                >
-                                    {t('dateRuleNewest')}
-                                </button>
+                                {([
+                                    [LooseFileClustering.OFF, t('looseFilesOff')],
+                                    [LooseFileClustering.DAY, t('looseFilesDay')],
+                                    [LooseFileClustering.WEEK, t('looseFilesWeek')],
+                                    [LooseFileClustering.MONTH, t('looseFilesMonth')],
+                                    [LooseFileClustering.EVENT, t('looseFilesEvent')]
+                                ] as const).map(([looseFileClustering, label]) => (
+                                    <button
+                                        key={looseFileClustering}
+                                        onClick={() => setScanOptions(prev => ({ ...prev, looseFileClustering }))}
+                                        className={`px-3 py-1 text-sm font-semibold rounded-md transition-all duration-300 ${
+                                            scanOptions.looseFileClustering === looseFileClustering
+                                                ? 'bg-sky-500 text-white shadow'
+                                                : 'text-slate-300 hover:bg-slate-600'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
+                            {scanOptions.looseFileClustering === LooseFileClustering.EVENT && (
+                                <label className="flex items-center gap-x-2 text-sm text-slate-300">
+                                    {t('eventGapLabel')}
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={168}
+                                        value={scanOptions.eventGapHours}
+                                        onChange={(e) => setScanOptions(prev => ({ ...prev, eventGapHours: Math.max(1, Number(e.target.value) || 1) }))}
+                                        className="w-20 px-2 py-1 bg-slate-700/50 border border-slate-600 rounded-md text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                                    />
+                                </label>
+                            )}
                         </div>
+                        <p className="mt-2 text-xs text-slate-400">{t('looseFilesDescription')}</p>
                     </div>
 
                      <div className="mt-8 space-y-3 text-sm text-slate-400 max-w-2xl mx-auto">
@@ -302,6 +992,23 @@ const FolderOrganizer: React.FC = () => {
                         </p>
                     </div>
                 </div>
+
+                <ProgressModal
+                    isOpen={isOrganizing}
+                    progress={organizingProgress}
+                    summary={organizeSummary}
+                    message={organizeMessage}
+                    failures={failedRun?.files}
+                    onClose={handleCloseProgressModal}
+                    onCancel={organizeAbort ? () => organizeAbort.abort() : undefined}
+                    onRetry={handleRetryFailed}
+                />
+
+                <UndoPreviewDialog
+                    preview={undoPreview}
+                    onConfirm={handleConfirmUndo}
+                    onCancel={() => setUndoPreview(null)}
+                />
             </div>
         )
     }
@@ -311,19 +1018,26 @@ const FolderOrganizer: React.FC = () => {
             <div className="flex flex-col items-center justify-center min-h-[50vh]">
                 <Spinner />
                 <p className="mt-4 text-lg text-slate-300 font-semibold text-center px-4">{processingMessage}</p>
-                {progress && progress.total > 0 && (
-                    <div className="w-full max-w-md mt-4">
-                        <div className="w-full bg-slate-700 rounded-full h-2.5">
-                            <div
-                                className="bg-sky-500 h-2.5 rounded-full transition-all duration-300 ease-linear"
-                                style={{ width: `${(progress.processed / progress.total) * 100}%` }}
-                            ></div>
+                {progress && (() => {
+                    // While scanning, report directories of the current level; afterwards, files
+                    const isScanning = progress.phase === 'scanning';
+                    const processed = isScanning ? progress.processedFolders : progress.processedFiles;
+                    const total = isScanning ? progress.totalFolders : progress.totalFiles;
+                    if (total <= 0) return null;
+                    return (
+                        <div className="w-full max-w-md mt-4">
+                            <div className="w-full bg-slate-700 rounded-full h-2.5">
+                                <div
+                                    className="bg-sky-500 h-2.5 rounded-full transition-all duration-300 ease-linear"
+                                    style={{ width: `${(processed / total) * 100}%` }}
+                                ></div>
+                            </div>
+                            <p className="text-sm text-slate-400 text-center mt-2 font-mono">
+                                {processed} / {total}
+                            </p>
                         </div>
-                        <p className="text-sm text-slate-400 text-center mt-2 font-mono">
-                            {progress.processed} / {progress.total}
-                        </p>
-                    </div>
-                )}
+                    );
+                })()}
             </div>
         );
     }
@@ -381,6 +1095,14 @@ const FolderOrganizer: React.FC = () => {
                             </div>
                         )}
 
+                        <button
+                            onClick={() => setIsBulkNameOpen(true)}
+                            className="flex items-center bg-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors duration-200 shadow-sm"
+                        >
+                            <ClipboardIcon className="h-5 w-5 mr-2" />
+                            {t('bulkNamesButton')}
+                        </button>
+
                         <button
                             onClick={reset}
                             className="flex items-center bg-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors duration-200 shadow-sm"
@@ -390,26 +1112,73 @@ const FolderOrganizer: React.FC = () => {
                         </button>
                     </div>
                 </div>
+
+                {journalBanner}
+
+                {renderProjectBanner(folders.length > 0)}
+
+                <NameTemplateEditor
+                    template={nameTemplate}
+                    onChange={setNameTemplate}
+                    timeZone={displayTimeZone}
+                    onTimeZoneChange={setDisplayTimeZone}
+                    previewFolder={folders[0]}
+                />
+
+                <PhotoNameTemplateEditor
+                    enabled={renamePhotos}
+                    onEnabledChange={setRenamePhotos}
+                    template={photoNameTemplate}
+                    onChange={setPhotoNameTemplate}
+                    timeZone={nameOptions.timeZone}
+                />
+
+                <PhotoMapPanel folders={folders} timeZone={nameOptions.timeZone} />
+
+                {isFileSystemAccessSupported() && (
+                    <OrganizeModeSelector
+                        mode={activeOrganizeMode}
+                        onModeChange={setOrganizeMode}
+                        canMove={sourceDirectoryHandle !== null}
+                        verify={verifyCopies}
+                        onVerifyChange={setVerifyCopies}
+                    />
+                )}
+
+                {cameraFacets.some(facet => facet.camera) && (
+                    <CameraFacetBar
+                        facets={cameraFacets}
+                        selectedCamera={activeCamera}
+                        onSelectCamera={setSelectedCamera}
+                        splitByDevice={splitByCamera}
+                        onSplitByDeviceChange={setSplitByCamera}
+                    />
+                )}
                 
-                {folders.length > 20 ? (
+                {visibleFolders.length > 20 ? (
                     // Use virtual scrolling for large lists
                     <div className="mb-6">
                         <div className="mb-4 text-sm text-slate-400">
-                            Showing {folders.length} folders (virtual scrolling enabled for better performance)
+                            Showing {visibleFolders.length} folders (virtual scrolling enabled for better performance)
                         </div>
                         <VirtualScrollGrid
-                            items={folders}
+                            items={visibleFolders}
                             itemHeight={400} // Approximate height of FolderCard
                             containerHeight={Math.min(1200, Math.max(800, folders.length * 50))} // Dynamic height with limits
                             overscan={2}
                             className="rounded-lg border border-slate-700/50 bg-slate-900/50"
-                            renderItem={(folder, index) => (
+                            renderItem={(folder) => (
                                 <div className="p-4 border-b border-slate-700/30 last:border-b-0">
                                     <FolderCard
                                         key={folder.id}
                                         folder={folder}
                                         onNameChange={handleNameChange}
                                         onEdit={handleEditFolder}
+                                        onPinDate={handlePinDate}
+                                        onClockOffsetChange={handleClockOffsetChange}
+                                        nameOptions={nameOptions}
+                                        photoNameOptions={photoNameOptions}
+                                        sequence={folderSequence.get(folder.id)}
                                     />
                                 </div>
                             )}
@@ -418,12 +1187,17 @@ const FolderOrganizer: React.FC = () => {
                 ) : (
                     // Use regular grid for smaller lists
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                        {folders.map(folder => (
+                        {visibleFolders.map(folder => (
                             <FolderCard
                                 key={folder.id}
                                 folder={folder}
                                 onNameChange={handleNameChange}
                                 onEdit={handleEditFolder}
+                                onPinDate={handlePinDate}
+                                onClockOffsetChange={handleClockOffsetChange}
+                                nameOptions={nameOptions}
+                                photoNameOptions={photoNameOptions}
+                                sequence={folderSequence.get(folder.id)}
                             />
                         ))}
                     </div>
@@ -434,7 +1208,19 @@ const FolderOrganizer: React.FC = () => {
                     <p className="mt-2 text-slate-400">
                         {t('renameScriptInstructions', { folderName: rootFolderName })}
                     </p>
-                    <div className="mt-6">
+                    <div className="mt-6 flex flex-col sm:flex-row sm:items-center gap-4">
+                        <label className="flex items-center gap-x-2 text-sm text-slate-300">
+                            {t('scriptTargetLabel')}
+                            <select
+                                value={scriptTarget}
+                                onChange={(e) => setScriptTarget(e.target.value as ScriptTarget)}
+                                className="bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-sm text-slate-200 focus:ring-sky-500 focus:border-sky-500"
+                            >
+                                {Object.values(ScriptTarget).map(target => (
+                                    <option key={target} value={target}>{t(SCRIPT_TARGET_KEYS[target][0])}</option>
+                                ))}
+                            </select>
+                        </label>
                         <button
                             onClick={handleGenerateScript}
                             disabled={!anyRenamed}
@@ -444,13 +1230,46 @@ const FolderOrganizer: React.FC = () => {
                             {t('generateRenameScript')}
                         </button>
                     </div>
+                    <p className="mt-3 text-xs text-slate-400">{t(SCRIPT_TARGET_KEYS[scriptTarget][1])}</p>
+                    <p className="mt-1 text-xs text-slate-400">{t('renameScriptRollback')}</p>
                 </div>
                 
                 {/* Progress Modal for File System Operations */}
                 <ProgressModal
                     isOpen={isOrganizing}
                     progress={organizingProgress}
+                    summary={organizeSummary}
+                    message={organizeMessage}
+                    failures={failedRun?.files}
                     onClose={handleCloseProgressModal}
+                    onCancel={organizeAbort ? () => organizeAbort.abort() : undefined}
+                    onRetry={handleRetryFailed}
+                />
+
+                <UndoPreviewDialog
+                    preview={undoPreview}
+                    onConfirm={handleConfirmUndo}
+                    onCancel={() => setUndoPreview(null)}
+                />
+
+                <PlanPreviewDialog
+                    preview={pendingOrganize?.preview ?? null}
+                    mode={activeOrganizeMode}
+                    targetName={pendingOrganize?.target?.name}
+                    policy={conflictPolicy}
+                    onPolicyChange={setConflictPolicy}
+                    onExport={handleExportPlan}
+                    onConfirm={handleConfirmPlan}
+                    onCancel={() => setPendingOrganize(null)}
+                />
+
+                <BulkNameDialog
+                    isOpen={isBulkNameOpen}
+                    folders={folders}
+                    timeZone={nameOptions.timeZone}
+                    onApply={handleApplyBulkNames}
+                    onExport={handleExportNames}
+                    onClose={() => setIsBulkNameOpen(false)}
                 />
                 
                 {/* Performance Monitor */}
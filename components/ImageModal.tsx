@@ -1,6 +1,14 @@
-import React, { useEffect } from 'react';
-import { Photo } from '../types';
-import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon } from './Icons';
+import React, { useEffect, useState } from 'react';
+import { Photo, PhotoDateSource } from '../types';
+import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon, ChevronDownIcon, ChevronUpIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getPhotoMetadataRows } from '../utils/photoMetadata';
+
+const DATE_SOURCE_LABEL_KEYS = {
+  [PhotoDateSource.EXIF]: 'dateSourceExif',
+  [PhotoDateSource.FILENAME]: 'dateSourceFilename',
+  [PhotoDateSource.FILE_MODIFIED]: 'dateSourceFileModified'
+} as const;
 
 interface ImageModalProps {
   photo: Photo | null;
@@ -9,6 +17,8 @@ interface ImageModalProps {
   onClose: () => void;
   onPrevious?: () => void;
   onNext?: () => void;
+  onUsePhotoDate?: (photo: Photo) => void;
+  timeZone?: string;
 }
 
 const ImageModal: React.FC<ImageModalProps> = ({
@@ -17,8 +27,13 @@ const ImageModal: React.FC<ImageModalProps> = ({
   isOpen,
   onClose,
   onPrevious,
-  onNext
+  onNext,
+  onUsePhotoDate,
+  timeZone
 }) => {
+  const { t } = useLanguage();
+  const [showDetails, setShowDetails] = useState(false);
+
   // キーボードナビゲーション
   useEffect(() => {
     if (!isOpen) return;
@@ -64,6 +79,8 @@ const ImageModal: React.FC<ImageModalProps> = ({
 
   const currentIndex = photos.findIndex(p => p.id === photo.id);
   const hasMultiple = photos.length > 1;
+  const dateSource = photo.metadata?.dateSource;
+  const metadataRows = getPhotoMetadataRows(photo);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 animate-fade-in">
@@ -121,6 +138,46 @@ const ImageModal: React.FC<ImageModalProps> = ({
           onClick={(e) => e.stopPropagation()}
         />
 
+        {/* 撮影日時と取得元 */}
+        <div className="absolute top-4 left-4 z-10 bg-black/50 text-white px-4 py-2 rounded-lg text-sm">
+          <p className="font-semibold">{photo.date ? new Date(photo.date).toLocaleString(undefined, { timeZone }) : t('unknownDate')}</p>
+          {dateSource && (
+            <p className={`text-xs ${dateSource === PhotoDateSource.EXIF ? 'text-slate-300' : 'text-amber-300'}`}>
+              {t('dateSourceLabel')} {t(DATE_SOURCE_LABEL_KEYS[dateSource])}
+            </p>
+          )}
+          {onUsePhotoDate && photo.date && (
+            <button
+              onClick={() => onUsePhotoDate(photo)}
+              className="mt-2 text-xs font-semibold text-sky-300 hover:text-sky-200 underline"
+            >
+              {t('usePhotoDate')}
+            </button>
+          )}
+          {metadataRows.length > 0 && (
+            <div className="mt-2">
+              <button
+                onClick={() => setShowDetails(prev => !prev)}
+                className="flex items-center text-xs font-semibold text-slate-300 hover:text-white"
+                aria-expanded={showDetails}
+              >
+                {showDetails ? <ChevronUpIcon className="h-3 w-3 mr-1" /> : <ChevronDownIcon className="h-3 w-3 mr-1" />}
+                {showDetails ? t('hideMetadata') : t('showMetadata')}
+              </button>
+              {showDetails && (
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                  {metadataRows.map(row => (
+                    <React.Fragment key={row.label}>
+                      <dt className="text-slate-400">{t(row.label)}</dt>
+                      <dd className="text-slate-100">{row.value}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* 画像インジケーター */}
         {hasMultiple && (
           <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/50 text-white px-4 py-2 rounded-full text-sm">
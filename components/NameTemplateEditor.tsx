@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { Folder } from '../types';
+import { ExclamationTriangleIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+    DEFAULT_FOLDER_NAME_TEMPLATE,
+    FOLDER_NAME_TOKENS,
+    TemplateValidationError,
+    buildFolderNameContext,
+    renderFolderNameTemplate,
+    validateFolderNameTemplate
+} from '../utils/folderNameTemplate';
+import { getAvailableTimeZones } from '../utils/photoDates';
+
+interface NameTemplateEditorProps {
+    template: string;
+    onChange: (template: string) => void;
+    timeZone: string; // '' follows the browser
+    onTimeZoneChange: (timeZone: string) => void;
+    previewFolder?: Folder;
+}
+
+const NameTemplateEditor: React.FC<NameTemplateEditorProps> = ({ template, onChange, timeZone, onTimeZoneChange, previewFolder }) => {
+    const { t } = useLanguage();
+    const unknownDate = t('unknownDate');
+    const timeZones = useMemo(() => getAvailableTimeZones(), []);
+
+    const previewContext = useMemo(() => {
+        const sampleName = t('nameTemplateSampleName');
+        if (!previewFolder) {
+            const now = new Date();
+            return { date: now, start: now, end: now, count: 42, camera: '', name: sampleName, original: sampleName, seq: 1 };
+        }
+        const context = buildFolderNameContext(previewFolder, 1);
+        return { ...context, name: context.name || sampleName };
+    }, [previewFolder, t]);
+
+    const errors = useMemo(
+        () => validateFolderNameTemplate(template, { context: previewContext, unknownDate, timeZone: timeZone || undefined }),
+        [template, previewContext, unknownDate, timeZone]
+    );
+
+    const preview = renderFolderNameTemplate(template, previewContext, unknownDate, timeZone || undefined).trim();
+
+    const describeError = (error: TemplateValidationError): string => {
+        switch (error.code) {
+            case 'UNKNOWN_TOKEN':
+                return t('nameTemplateUnknownToken', { token: error.detail ?? '' });
+            case 'UNBALANCED_BRACES':
+                return t('nameTemplateUnbalanced');
+            case 'INVALID_NAME':
+                return t('nameTemplateInvalidName', { name: error.detail ?? '' });
+        }
+    };
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg">
+            <div className="flex justify-between items-center mb-2">
+                <label htmlFor="folder-name-template" className="block text-sm font-medium text-slate-300">
+                    {t('nameTemplateLabel')}
+                </label>
+                <button
+                    onClick={() => onChange(DEFAULT_FOLDER_NAME_TEMPLATE)}
+                    disabled={template === DEFAULT_FOLDER_NAME_TEMPLATE}
+                    className="text-xs text-sky-400 hover:text-sky-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                    {t('nameTemplateReset')}
+                </button>
+            </div>
+            <input
+                id="folder-name-template"
+                type="text"
+                value={template}
+                onChange={(e) => onChange(e.target.value)}
+                spellCheck={false}
+                className="block w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-200 font-mono"
+            />
+            <div className="mt-2 flex flex-wrap gap-1.5">
+                {FOLDER_NAME_TOKENS.map(token => (
+                    <button
+                        key={token}
+                        onClick={() => onChange(`${template}{${token}}`)}
+                        className="px-2 py-0.5 text-xs font-mono text-slate-300 bg-slate-700 rounded hover:bg-slate-600 transition-colors"
+                    >
+                        {`{${token}}`}
+                    </button>
+                ))}
+            </div>
+            <p className="mt-3 text-sm text-slate-400">
+                {t('nameTemplatePreview')}{' '}
+                <span className="font-semibold text-slate-100 break-all">{preview}</span>
+            </p>
+            <label className="mt-3 flex items-center gap-x-2 text-sm text-slate-300">
+                {t('displayTimeZoneLabel')}
+                <select
+                    value={timeZone}
+                    onChange={(e) => onTimeZoneChange(e.target.value)}
+                    className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-md text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                >
+                    <option value="">{t('displayTimeZoneBrowser')}</option>
+                    {timeZones.map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                </select>
+            </label>
+            {errors.length > 0 && (
+                <div className="mt-2 space-y-1">
+                    {errors.map((error, index) => (
+                        <div key={index} className="flex items-center text-sm text-red-400">
+                            <ExclamationTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" aria-label={t('errorIconAriaLabel')} />
+                            {describeError(error)}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NameTemplateEditor;
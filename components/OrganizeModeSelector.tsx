@@ -0,0 +1,72 @@
+import React from 'react';
+import { OrganizeMode } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface OrganizeModeSelectorProps {
+    mode: OrganizeMode;
+    onModeChange: (mode: OrganizeMode) => void;
+    canMove: boolean; // Moving needs a writable handle of the dropped folder
+    verify: boolean;
+    onVerifyChange: (verify: boolean) => void;
+}
+
+const OrganizeModeSelector: React.FC<OrganizeModeSelectorProps> = ({ mode, onModeChange, canMove, verify, onVerifyChange }) => {
+    const { t } = useLanguage();
+
+    const description = {
+        [OrganizeMode.COPY]: t('organizeModeCopyDescription'),
+        [OrganizeMode.MOVE]: t('organizeModeMoveDescription'),
+        [OrganizeMode.RENAME]: t('organizeModeRenameDescription')
+    }[mode];
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg">
+            <div className="flex flex-wrap items-center gap-3">
+                <h4 className="text-sm font-medium text-slate-300">{t('organizeModeTitle')}</h4>
+                <div className="flex items-center space-x-1 p-1 bg-slate-700/50 rounded-lg">
+                    {([
+                        [OrganizeMode.COPY, t('organizeModeCopy')],
+                        [OrganizeMode.MOVE, t('organizeModeMove')],
+                        [OrganizeMode.RENAME, t('organizeModeRename')]
+                    ] as const).map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => onModeChange(value)}
+                            disabled={value === OrganizeMode.MOVE && !canMove}
+                            className={`px-3 py-1 text-sm font-semibold rounded-md transition-all duration-300 disabled:text-slate-500 disabled:cursor-not-allowed ${
+                                mode === value
+                                    ? 'bg-sky-500 text-white shadow'
+                                    : 'text-slate-300 hover:bg-slate-600 disabled:hover:bg-transparent'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className={`mt-2 text-xs ${mode === OrganizeMode.MOVE ? 'text-amber-300' : 'text-slate-400'}`}>{description}</p>
+            {/* Renames are not journaled, so "Undo last organize" does not cover them */}
+            {mode === OrganizeMode.RENAME && (
+                <p className="mt-1 text-xs text-amber-300">{t('organizeModeRenameNoUndo')}</p>
+            )}
+            {!canMove && (
+                <p className="mt-1 text-xs text-slate-500">{t('organizeModeMoveUnavailable')}</p>
+            )}
+            {/* Moving always verifies, as originals are only deleted once their copy matches */}
+            {mode !== OrganizeMode.RENAME && (
+                <label className="mt-3 flex items-center gap-x-2 text-sm text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={verify || mode === OrganizeMode.MOVE}
+                        disabled={mode === OrganizeMode.MOVE}
+                        onChange={(e) => onVerifyChange(e.target.checked)}
+                        className="h-4 w-4 rounded border-slate-600 bg-slate-700 text-sky-500 focus:ring-sky-500 disabled:opacity-60"
+                    />
+                    {t('verifyCopiesLabel')}
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default OrganizeModeSelector;
@@ -0,0 +1,266 @@
+import React, { useMemo, useState } from 'react';
+import { Folder, Photo } from '../types';
+import ImageModal from './ImageModal';
+import { ChevronDownIcon, ChevronUpIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { PLACES } from '../utils/gazetteer';
+import { INLAND_SEAS, LAND_OUTLINES } from '../utils/worldOutline';
+import {
+    MapCluster,
+    clusterMapPhotos,
+    collectMapPhotos,
+    createProjector,
+    getGraticuleStep,
+    getMapBounds,
+    getOutlinePath
+} from '../utils/photoMap';
+
+interface PhotoMapPanelProps {
+    folders: readonly Folder[];
+    timeZone?: string;
+}
+
+const VIEWPORT = { width: 800, height: 450, padding: 32 };
+const CLUSTER_RADIUS = 18;
+const ZOOM_LEVELS = [1, 2, 4, 8, 16];
+const FOLDER_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fbbf24', '#a78bfa', '#34d399', '#fb7185', '#60a5fa'];
+const MIXED_COLOR = '#e2e8f0';
+
+const PhotoMapPanel: React.FC<PhotoMapPanelProps> = ({ folders, timeZone }) => {
+    const { t, locale } = useLanguage();
+    const [isOpen, setIsOpen] = useState(true);
+    const [folderFilter, setFolderFilter] = useState('');
+    const [zoomIndex, setZoomIndex] = useState(0);
+    const [modalPhotos, setModalPhotos] = useState<Photo[]>([]);
+    const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
+
+    const allMapPhotos = useMemo(() => collectMapPhotos(folders), [folders]);
+
+    const mappedFolders = useMemo(() => {
+        const ids = new Set(allMapPhotos.map(item => item.folderId));
+        return folders.filter(folder => ids.has(folder.id));
+    }, [folders, allMapPhotos]);
+
+    const folderColors = useMemo(
+        () => new Map(mappedFolders.map((folder, index) => [folder.id, FOLDER_COLORS[index % FOLDER_COLORS.length]])),
+        [mappedFolders]
+    );
+
+    const mapPhotos = useMemo(
+        () => (folderFilter ? allMapPhotos.filter(item => item.folderId === folderFilter) : allMapPhotos),
+        [allMapPhotos, folderFilter]
+    );
+
+    const view = useMemo(() => {
+        const fullBounds = getMapBounds(mapPhotos.map(item => item.point));
+        if (!fullBounds) return null;
+
+        // Zoom in around the centre of the photos
+        const zoom = ZOOM_LEVELS[zoomIndex];
+        const centerX = (fullBounds.minX + fullBounds.maxX) / 2;
+        const centerY = (fullBounds.minY + fullBounds.maxY) / 2;
+        const halfWidth = (fullBounds.maxX - fullBounds.minX) / 2 / zoom;
+        const halfHeight = (fullBounds.maxY - fullBounds.minY) / 2 / zoom;
+        const bounds = {
+            minX: centerX - halfWidth,
+            maxX: centerX + halfWidth,
+            minY: centerY - halfHeight,
+            maxY: centerY + halfHeight
+        };
+
+        const projector = createProjector(bounds, VIEWPORT);
+        const topLeft = projector.toGeo(0, 0);
+        const bottomRight = projector.toGeo(VIEWPORT.width, VIEWPORT.height);
+        const isVisible = (x: number, y: number) => x >= 0 && x <= VIEWPORT.width && y >= 0 && y <= VIEWPORT.height;
+
+        const step = getGraticuleStep(Math.max(bottomRight.longitude - topLeft.longitude, topLeft.latitude - bottomRight.latitude));
+        const longitudes: number[] = [];
+        for (let lon = Math.ceil(topLeft.longitude / step) * step; lon <= bottomRight.longitude; lon += step) {
+            longitudes.push(lon);
+        }
+        const latitudes: number[] = [];
+        for (let lat = Math.ceil(bottomRight.latitude / step) * step; lat <= topLeft.latitude; lat += step) {
+            latitudes.push(lat);
+        }
+
+        const places = PLACES
+            .map(place => ({ place, ...projector.toScreen(place) }))
+            .filter(({ x, y }) => isVisible(x, y));
+
+        const clusters = clusterMapPhotos(mapPhotos, projector.toScreen, CLUSTER_RADIUS)
+            .filter(({ x, y }) => isVisible(x, y));
+
+        const land = getOutlinePath(LAND_OUTLINES, projector.toScreen, VIEWPORT)
+            + getOutlinePath(INLAND_SEAS, projector.toScreen, VIEWPORT, true);
+
+        return {
+            clusters,
+            land,
+            places,
+            longitudes: longitudes.map(lon => ({ lon, x: projector.toScreen({ latitude: 0, longitude: lon }).x })),
+            latitudes: latitudes.map(lat => ({ lat, y: projector.toScreen({ latitude: lat, longitude: 0 }).y })),
+            decimals: step < 1 ? String(step).split('.')[1].length : 0
+        };
+    }, [mapPhotos, zoomIndex]);
+
+    if (allMapPhotos.length === 0) return null;
+
+    const folderNames = new Map(folders.map(folder => [folder.id, folder.originalName]));
+
+    const getClusterColor = (cluster: MapCluster) => {
+        return cluster.folderIds.length === 1 ? folderColors.get(cluster.folderIds[0]) ?? MIXED_COLOR : MIXED_COLOR;
+    };
+
+    const handleClusterClick = (cluster: MapCluster) => {
+        const photos = cluster.items.map(item => item.photo);
+        setModalPhotos(photos);
+        setSelectedPhoto(photos[0]);
+    };
+
+    const handleCloseModal = () => {
+        setSelectedPhoto(null);
+        setModalPhotos([]);
+    };
+
+    const stepPhoto = (direction: 1 | -1) => {
+        if (!selectedPhoto) return;
+        const index = modalPhotos.findIndex(p => p.id === selectedPhoto.id);
+        setSelectedPhoto(modalPhotos[(index + direction + modalPhotos.length) % modalPhotos.length]);
+    };
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="w-full flex justify-between items-center text-left"
+                aria-expanded={isOpen}
+            >
+                <span className="text-sm font-medium text-slate-300">
+                    {t('mapTitle')}{' '}
+                    <span className="text-slate-400">{t('mapPhotoCount', { count: allMapPhotos.length })}</span>
+                </span>
+                {isOpen ? <ChevronUpIcon className="h-4 w-4 text-slate-400" /> : <ChevronDownIcon className="h-4 w-4 text-slate-400" />}
+            </button>
+
+            {isOpen && view && (
+                <>
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                        <select
+                            value={folderFilter}
+                            onChange={(e) => { setFolderFilter(e.target.value); setZoomIndex(0); }}
+                            className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-md text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                        >
+                            <option value="">{t('mapAllFolders')}</option>
+                            {mappedFolders.map(folder => (
+                                <option key={folder.id} value={folder.id}>{folder.originalName}</option>
+                            ))}
+                        </select>
+                        <div className="flex items-center space-x-1 p-1 bg-slate-700/50 rounded-lg">
+                            <button
+                                onClick={() => setZoomIndex(prev => Math.max(0, prev - 1))}
+                                disabled={zoomIndex === 0}
+                                className="px-2 text-sm font-semibold text-slate-300 rounded-md hover:bg-slate-600 disabled:text-slate-500"
+                                aria-label={t('mapZoomOut')}
+                            >
+                                −
+                            </button>
+                            <button
+                                onClick={() => setZoomIndex(prev => Math.min(ZOOM_LEVELS.length - 1, prev + 1))}
+                                disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+                                className="px-2 text-sm font-semibold text-slate-300 rounded-md hover:bg-slate-600 disabled:text-slate-500"
+                                aria-label={t('mapZoomIn')}
+                            >
+                                +
+                            </button>
+                        </div>
+                        <p className="text-xs text-slate-400">{t('mapHint')}</p>
+                    </div>
+
+                    <svg
+                        viewBox={`0 0 ${VIEWPORT.width} ${VIEWPORT.height}`}
+                        className="mt-3 w-full rounded-md bg-slate-900/70 border border-slate-700"
+                        role="img"
+                        aria-label={t('mapTitle')}
+                    >
+                        <path d={view.land} fill="#1e293b" stroke="#475569" strokeWidth={1} strokeLinejoin="round" />
+                        {view.longitudes.map(({ lon, x }) => (
+                            <g key={`lon-${lon}`}>
+                                <line x1={x} y1={0} x2={x} y2={VIEWPORT.height} stroke="#334155" strokeWidth={1} />
+                                <text x={x + 3} y={VIEWPORT.height - 4} fontSize={10} fill="#64748b">{lon.toFixed(view.decimals)}°</text>
+                            </g>
+                        ))}
+                        {view.latitudes.map(({ lat, y }) => (
+                            <g key={`lat-${lat}`}>
+                                <line x1={0} y1={y} x2={VIEWPORT.width} y2={y} stroke="#334155" strokeWidth={1} />
+                                <text x={4} y={y - 3} fontSize={10} fill="#64748b">{lat.toFixed(view.decimals)}°</text>
+                            </g>
+                        ))}
+                        {view.places.map(({ place, x, y }) => (
+                            <g key={place.name}>
+                                <circle cx={x} cy={y} r={2.5} fill="#94a3b8" />
+                                <text x={x + 5} y={y + 3} fontSize={11} fill="#94a3b8">
+                                    {locale === 'ja' ? place.nameJa : place.name}
+                                </text>
+                            </g>
+                        ))}
+                        {view.clusters.map(cluster => {
+                            const count = cluster.items.length;
+                            const radius = count > 1 ? Math.min(8 + Math.log2(count) * 3, 20) : 6;
+                            // Each photo belongs to one cluster, so its first photo names it
+                            return (
+                                <g
+                                    key={cluster.items[0].photo.id}
+                                    onClick={() => handleClusterClick(cluster)}
+                                    className="cursor-pointer"
+                                >
+                                    <title>
+                                        {cluster.folderIds.map(id => folderNames.get(id)).join(', ')} ({count})
+                                    </title>
+                                    <circle
+                                        cx={cluster.x}
+                                        cy={cluster.y}
+                                        r={radius}
+                                        fill={getClusterColor(cluster)}
+                                        fillOpacity={0.85}
+                                        stroke="#0f172a"
+                                        strokeWidth={2}
+                                    />
+                                    {count > 1 && (
+                                        <text x={cluster.x} y={cluster.y + 4} textAnchor="middle" fontSize={11} fontWeight="bold" fill="#0f172a">
+                                            {count}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+                    </svg>
+
+                    <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+                        {mappedFolders.map(folder => (
+                            <button
+                                key={folder.id}
+                                onClick={() => { setFolderFilter(prev => (prev === folder.id ? '' : folder.id)); setZoomIndex(0); }}
+                                className={`flex items-center text-xs ${folderFilter === folder.id ? 'text-slate-100 font-semibold' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                <span className="inline-block h-2.5 w-2.5 rounded-full mr-1.5" style={{ backgroundColor: folderColors.get(folder.id) }} />
+                                {folder.originalName}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <ImageModal
+                photo={selectedPhoto}
+                photos={modalPhotos}
+                isOpen={selectedPhoto !== null}
+                onClose={handleCloseModal}
+                onPrevious={() => stepPhoto(-1)}
+                onNext={() => stepPhoto(1)}
+                timeZone={timeZone}
+            />
+        </div>
+    );
+};
+
+export default PhotoMapPanel;
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { ExclamationTriangleIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { TemplateValidationError } from '../utils/folderNameTemplate';
+import {
+    DEFAULT_PHOTO_NAME_TEMPLATE,
+    PHOTO_NAME_TOKENS,
+    renderPhotoNameTemplate,
+    validatePhotoNameTemplate
+} from '../utils/photoNameTemplate';
+
+interface PhotoNameTemplateEditorProps {
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+    template: string;
+    onChange: (template: string) => void;
+    timeZone?: string;
+}
+
+const PhotoNameTemplateEditor: React.FC<PhotoNameTemplateEditorProps> = ({ enabled, onEnabledChange, template, onChange, timeZone }) => {
+    const { t } = useLanguage();
+    const errors = useMemo(() => validatePhotoNameTemplate(template), [template]);
+
+    const preview = renderPhotoNameTemplate(
+        template,
+        { date: new Date(), seq: 1, ext: 'jpg', original: 'IMG_0001', camera: '', folder: t('nameTemplateSampleName') },
+        t('unknownDate'),
+        timeZone
+    );
+
+    const describeError = (error: TemplateValidationError): string => {
+        return error.code === 'UNKNOWN_TOKEN'
+            ? t('nameTemplateUnknownToken', { token: error.detail ?? '' })
+            : t('nameTemplateUnbalanced');
+    };
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg">
+            <label className="flex items-center gap-x-2 text-sm font-medium text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => onEnabledChange(e.target.checked)}
+                    className="rounded border-slate-500 bg-slate-900/50 text-sky-500 focus:ring-sky-500"
+                />
+                {t('photoNameToggle')}
+            </label>
+            {enabled && (
+                <div className="mt-3">
+                    <div className="flex justify-between items-center mb-2">
+                        <label htmlFor="photo-name-template" className="block text-sm font-medium text-slate-300">
+                            {t('photoNameTemplateLabel')}
+                        </label>
+                        <button
+                            onClick={() => onChange(DEFAULT_PHOTO_NAME_TEMPLATE)}
+                            disabled={template === DEFAULT_PHOTO_NAME_TEMPLATE}
+                            className="text-xs text-sky-400 hover:text-sky-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+                        >
+                            {t('nameTemplateReset')}
+                        </button>
+                    </div>
+                    <input
+                        id="photo-name-template"
+                        type="text"
+                        value={template}
+                        onChange={(e) => onChange(e.target.value)}
+                        spellCheck={false}
+                        className="block w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 sm:text-sm text-slate-200 font-mono"
+                    />
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                        {PHOTO_NAME_TOKENS.map(token => (
+                            <button
+                                key={token}
+                                onClick={() => onChange(`${template}{${token}}`)}
+                                className="px-2 py-0.5 text-xs font-mono text-slate-300 bg-slate-700 rounded hover:bg-slate-600 transition-colors"
+                            >
+                                {`{${token}}`}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="mt-3 text-sm text-slate-400">
+                        {t('nameTemplatePreview')}{' '}
+                        <span className="font-semibold text-slate-100 break-all">{preview}</span>
+                    </p>
+                    <p className="mt-1 text-xs text-slate-400">{t('photoNameTemplateHint')}</p>
+                    {errors.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                            {errors.map((error, index) => (
+                                <div key={index} className="flex items-center text-sm text-red-400">
+                                    <ExclamationTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" aria-label={t('errorIconAriaLabel')} />
+                                    {describeError(error)}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PhotoNameTemplateEditor;
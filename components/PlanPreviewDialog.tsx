@@ -0,0 +1,214 @@
+import React from 'react';
+import { ConflictPolicy, OrganizeMode } from '../types';
+import { OrganizePreview } from '../utils/fileSystemUtils';
+import { PreviewExportFormat, estimateOrganizeSeconds } from '../utils/organizePreview';
+import { formatBytes } from '../utils/photoMetadata';
+import { ExclamationTriangleIcon, FolderArrowDownIcon, SaveIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PlanPreviewDialogProps {
+  preview: OrganizePreview | null; // Open while set
+  mode: OrganizeMode;
+  targetName?: string; // Not chosen yet while the plan cannot be run
+  policy: ConflictPolicy;
+  onPolicyChange: (policy: ConflictPolicy) => void;
+  onExport: (format: PreviewExportFormat) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Names listed before the rest is summarised as "and N more"
+const MAX_LISTED = 5;
+// Rows of the file table; the export has all of them
+const MAX_FILES_LISTED = 100;
+
+const PlanPreviewDialog: React.FC<PlanPreviewDialogProps> = ({
+  preview,
+  mode,
+  targetName,
+  policy,
+  onPolicyChange,
+  onExport,
+  onConfirm,
+  onCancel
+}) => {
+  const { t } = useLanguage();
+
+  if (!preview) return null;
+
+  const { conflicts, invalidFolders, files } = preview;
+  const hasConflicts = conflicts.existingFolders.length > 0 || conflicts.conflictingFiles.length > 0;
+  const canConfirm = targetName !== undefined && invalidFolders.length === 0 && files.length > 0;
+  const seconds = estimateOrganizeSeconds(preview, mode);
+
+  const policies = [
+    [ConflictPolicy.RENAME, t('conflictPolicyRename'), t('conflictPolicyRenameDescription')],
+    [ConflictPolicy.MERGE, t('conflictPolicyMerge'), t('conflictPolicyMergeDescription')],
+    [ConflictPolicy.KEEP_NEWER, t('conflictPolicyKeepNewer'), t('conflictPolicyKeepNewerDescription')],
+    [ConflictPolicy.SKIP, t('conflictPolicySkip'), t('conflictPolicySkipDescription')],
+    [ConflictPolicy.OVERWRITE, t('conflictPolicyOverwrite'), t('conflictPolicyOverwriteDescription')]
+  ] as const;
+
+  const renderList = (items: readonly string[]) => (
+    <ul className="mt-1 text-xs text-slate-400 font-mono space-y-0.5">
+      {items.slice(0, MAX_LISTED).map(item => (
+        <li key={item} className="truncate">{item}</li>
+      ))}
+      {items.length > MAX_LISTED && (
+        <li>{t('conflictMore', { count: items.length - MAX_LISTED })}</li>
+      )}
+    </ul>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 animate-fade-in">
+      <div className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center mb-4">
+          <FolderArrowDownIcon className="h-6 w-6 text-sky-400 mr-3 flex-shrink-0" />
+          <h3 className="text-lg font-semibold text-slate-100">{t('planTitle')}</h3>
+        </div>
+
+        <div className="mb-4 space-y-3 text-sm text-slate-300">
+          {targetName !== undefined && (
+            <p>
+              {t('planSummary', {
+                target: targetName,
+                folders: preview.newFolders.length,
+                files: files.length,
+                size: formatBytes(preview.totalBytes)
+              })}
+              {' '}
+              {seconds < 60
+                ? t('planEstimateSeconds', { count: seconds })
+                : t('planEstimateMinutes', { count: Math.ceil(seconds / 60) })}
+            </p>
+          )}
+
+          {invalidFolders.length > 0 && (
+            <div className="p-3 bg-red-500/10 border border-red-400/30 rounded-lg">
+              <p className="flex items-center text-red-200">
+                <ExclamationTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+                {t('planInvalidFolders', { count: invalidFolders.length })}
+              </p>
+              {renderList(invalidFolders.map(folder => `${folder.name}: ${folder.reason}`))}
+            </div>
+          )}
+
+          {files.length === 0 && invalidFolders.length === 0 && <p>{t('planEmpty')}</p>}
+
+          {canConfirm && mode === OrganizeMode.MOVE && (
+            <p className="p-3 bg-amber-500/10 border border-amber-400/30 rounded-lg text-amber-200">
+              {t('organizeMoveConfirm')}
+            </p>
+          )}
+
+          {conflicts.existingFolders.length > 0 && (
+            <div>
+              <p>{t('conflictExistingFolders', { count: conflicts.existingFolders.length })}</p>
+              {renderList(conflicts.existingFolders)}
+            </div>
+          )}
+          {conflicts.conflictingFiles.length > 0 && (
+            <div>
+              <p>{t('conflictExistingFiles', { count: conflicts.conflictingFiles.length })}</p>
+              {renderList(conflicts.conflictingFiles)}
+            </div>
+          )}
+
+          {preview.newFolders.length > 0 && (
+            <div>
+              <p>{t('planNewFolders', { count: preview.newFolders.length })}</p>
+              {renderList(preview.newFolders)}
+            </div>
+          )}
+
+          {files.length > 0 && (
+            <div className="max-h-60 overflow-y-auto border border-slate-700 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">{t('planDestination')}</th>
+                    <th className="px-2 py-1 text-right font-medium">{t('planSize')}</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {files.slice(0, MAX_FILES_LISTED).map((file, index) => (
+                    <tr key={index} className={file.conflict ? 'text-amber-300' : 'text-slate-300'}>
+                      <td className="px-2 py-0.5 truncate max-w-0 w-full" title={file.sourcePath}>
+                        {file.conflict && <ExclamationTriangleIcon className="inline h-3 w-3 mr-1" />}
+                        {file.destination}
+                      </td>
+                      <td className="px-2 py-0.5 text-right whitespace-nowrap">{formatBytes(file.size)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {files.length > MAX_FILES_LISTED && (
+                <p className="px-2 py-1 text-xs text-slate-400">{t('conflictMore', { count: files.length - MAX_FILES_LISTED })}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {canConfirm && hasConflicts && (
+          <fieldset className="mb-6 space-y-2">
+            <legend className="mb-2 text-sm font-medium text-slate-300">{t('conflictPolicyTitle')}</legend>
+            {policies.map(([value, label, description]) => (
+              <label
+                key={value}
+                className={`flex items-start p-2 rounded-lg border cursor-pointer transition-colors ${
+                  policy === value ? 'border-sky-500 bg-sky-500/10' : 'border-slate-700 hover:bg-slate-700/50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="conflict-policy"
+                  value={value}
+                  checked={policy === value}
+                  onChange={() => onPolicyChange(value)}
+                  className="mt-1 mr-3 text-sky-500 focus:ring-sky-500"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-200">{label}</span>
+                  <span className="block text-xs text-slate-400">{description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div className="flex flex-wrap justify-between gap-3">
+          <div className="flex space-x-2">
+            {(['json', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                className="flex items-center px-3 py-2 text-sm bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors"
+              >
+                <SaveIcon className="h-4 w-4 mr-2" />
+                {t('planExport', { format: format.toUpperCase() })}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={!canConfirm}
+              className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('planConfirm')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanPreviewDialog;
@@ -1,20 +1,41 @@
 import React from 'react';
-import { ProcessingProgress } from '../utils/fileSystemUtils';
+import { FailedFile, FileOutcome, OrganizeSummary, ProcessingProgress } from '../utils/fileSystemUtils';
+import { formatBytes } from '../utils/photoMetadata';
 import { CheckCircleIcon, ExclamationTriangleIcon, ArrowPathIcon } from './Icons';
 import { useLanguage } from '../contexts/LanguageContext';
 
 interface ProgressModalProps {
   isOpen: boolean;
   progress: ProcessingProgress;
+  summary?: OrganizeSummary | null;
+  message?: string | null; // Shown once finished, e.g. the outcome of an undo or what was renamed before an error
+  failures?: readonly FailedFile[];
   onClose: () => void;
   onCancel?: () => void;
+  onRetry?: () => void; // Copies the failed photos again
 }
 
+// Failed photos listed before the rest is summarised as "and N more"
+const MAX_FAILURES_LISTED = 5;
+
+const SUMMARY_LABEL_KEYS = {
+  copied: 'summaryCopied',
+  overwritten: 'summaryOverwritten',
+  renamed: 'summaryRenamed',
+  skipped: 'summarySkipped',
+  duplicate: 'summaryDuplicate',
+  failed: 'summaryFailed'
+} as const satisfies Record<FileOutcome, string>;
+
 const ProgressModal: React.FC<ProgressModalProps> = ({
   isOpen,
   progress,
+  summary,
+  message,
+  failures = [],
   onClose,
-  onCancel
+  onCancel,
+  onRetry
 }) => {
   const { t } = useLanguage();
 
@@ -30,6 +51,14 @@ const ProgressModal: React.FC<ProgressModalProps> = ({
         return t('creatingFolders');
       case 'moving':
         return t('movingFiles');
+      case 'renaming':
+        return t('renamingFolders');
+      case 'verifying':
+        return t('verifyingFiles');
+      case 'cleaning':
+        return t('removingEmptyFolders');
+      case 'reverting':
+        return t('revertingOrganize');
       case 'completed':
         return t('completed');
       case 'error':
@@ -86,9 +115,56 @@ const ProgressModal: React.FC<ProgressModalProps> = ({
                 style={{ width: `${progressPercentage}%` }}
               />
             </div>
+            {progress.bytesPerSecond !== undefined && (
+              <div className="flex justify-between text-xs text-slate-500 mt-2">
+                <span>{t('progressSpeed', { speed: formatBytes(progress.bytesPerSecond) })}</span>
+                {progress.secondsRemaining !== undefined && (
+                  <span>
+                    {progress.secondsRemaining < 60
+                      ? t('progressSecondsLeft', { count: progress.secondsRemaining })
+                      : t('progressMinutesLeft', { count: Math.ceil(progress.secondsRemaining / 60) })}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Summary of what happened to the photos */}
+        {progress.status === 'completed' && summary && (
+          <dl className="mb-6 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {(Object.keys(SUMMARY_LABEL_KEYS) as FileOutcome[])
+              .filter(outcome => summary[outcome] > 0)
+              .map(outcome => (
+                <React.Fragment key={outcome}>
+                  <dt className={outcome === 'failed' ? 'text-red-300' : 'text-slate-400'}>{t(SUMMARY_LABEL_KEYS[outcome])}</dt>
+                  <dd className={`text-right font-mono ${outcome === 'failed' ? 'text-red-300' : 'text-slate-200'}`}>{summary[outcome]}</dd>
+                </React.Fragment>
+              ))}
+          </dl>
+        )}
+
+        {/* Copies that did not match their original */}
+        {progress.status === 'completed' && failures.length > 0 && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500/30 rounded-lg text-sm">
+            <p className="text-red-300">{t('verifyFailed', { count: failures.length })}</p>
+            <ul className="mt-1 text-xs text-red-200/80 font-mono space-y-0.5">
+              {failures.slice(0, MAX_FAILURES_LISTED).map(failure => (
+                <li key={[...failure.path, failure.name].join('/')} className="truncate" title={failure.reason}>
+                  {[...failure.path, failure.name].join('/')}
+                </li>
+              ))}
+              {failures.length > MAX_FAILURES_LISTED && (
+                <li>{t('conflictMore', { count: failures.length - MAX_FAILURES_LISTED })}</li>
+              )}
+            </ul>
           </div>
         )}
 
+        {(progress.status === 'completed' || progress.status === 'error') && message && (
+          <p className="mb-6 text-sm text-center text-slate-300">{message}</p>
+        )}
+
         {/* Error Message */}
         {progress.status === 'error' && progress.error && (
           <div className="mb-6 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
@@ -99,12 +175,22 @@ const ProgressModal: React.FC<ProgressModalProps> = ({
         {/* Action Buttons */}
         <div className="flex justify-end space-x-3">
           {progress.status === 'completed' || progress.status === 'error' ? (
-            <button
-              onClick={onClose}
-              className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 transition-colors"
-            >
-              {t('close')}
-            </button>
+            <>
+              {progress.status === 'completed' && failures.length > 0 && onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="px-4 py-2 bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors"
+                >
+                  {t('verifyRetry', { count: failures.length })}
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 transition-colors"
+              >
+                {t('close')}
+              </button>
+            </>
           ) : (
             <>
               {onCancel && (
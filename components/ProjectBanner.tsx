@@ -0,0 +1,78 @@
+import React from 'react';
+import { DocumentTextIcon, ExclamationTriangleIcon, SaveIcon, XMarkIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ProjectFile } from '../utils/projectFile';
+
+interface ProjectBannerProps {
+    project: ProjectFile | null;
+    restored: number | null; // Folders restored from the project; null until a folder has been loaded with it
+    error: string | null;
+    onSave?: () => void; // Without it there is nothing to save yet
+    onOpen: (file: File) => void;
+    onClose: () => void;
+}
+
+const ProjectBanner: React.FC<ProjectBannerProps> = ({ project, restored, error, onSave, onOpen, onClose }) => {
+    const { t } = useLanguage();
+
+    const description = !project
+        ? t('projectDescription')
+        : restored === null
+            ? t('projectWaiting', { folder: project.rootFolderName, count: project.folders.length })
+            : t('projectRestored', { folder: project.rootFolderName, restored, total: project.folders.length });
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg text-left">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-grow">
+                    <h4 className="text-sm font-semibold text-slate-200">{t('projectTitle')}</h4>
+                    <p className="text-sm text-slate-400">{description}</p>
+                    {error && (
+                        <p className="mt-1 flex items-center text-sm text-red-400">
+                            <ExclamationTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" aria-label={t('errorIconAriaLabel')} />
+                            {error}
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-x-2 flex-shrink-0">
+                    {onSave && (
+                        <button
+                            onClick={onSave}
+                            className="flex items-center bg-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors duration-200"
+                        >
+                            <SaveIcon className="h-5 w-5 mr-2" />
+                            {t('projectSave')}
+                        </button>
+                    )}
+                    <label className="flex items-center bg-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors duration-200 cursor-pointer">
+                        <DocumentTextIcon className="h-5 w-5 mr-2" />
+                        {t('projectOpen')}
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                // Cleared so the same file can be opened again
+                                e.target.value = '';
+                                if (file) onOpen(file);
+                            }}
+                        />
+                    </label>
+                    {project && (
+                        <button
+                            onClick={onClose}
+                            className="p-2 text-slate-400 rounded-lg hover:bg-slate-700 hover:text-slate-200 transition-colors duration-200"
+                            aria-label={t('projectClose')}
+                            title={t('projectClose')}
+                        >
+                            <XMarkIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProjectBanner;
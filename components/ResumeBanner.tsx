@@ -0,0 +1,56 @@
+import React from 'react';
+import { ArrowPathIcon, ExclamationTriangleIcon, XMarkIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { OrganizeJournal, getJournalFileCount } from '../utils/organizeJournal';
+
+interface ResumeBannerProps {
+    journal: OrganizeJournal;
+    onResume: () => void;
+    onDiscard: () => void;
+}
+
+const ResumeBanner: React.FC<ResumeBannerProps> = ({ journal, onResume, onDiscard }) => {
+    const { t, locale } = useLanguage();
+    // Photos are read again from the dropped folder, which needs its handle
+    const canResume = journal.sourceDirectoryHandle !== undefined;
+
+    return (
+        <div className="mb-8 p-4 bg-amber-500/10 border border-amber-400/30 rounded-lg text-left">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <ExclamationTriangleIcon className="h-6 w-6 text-amber-400 flex-shrink-0" />
+                <div className="flex-grow">
+                    <h4 className="text-sm font-semibold text-amber-200">{t('resumeTitle')}</h4>
+                    <p className="text-sm text-slate-300">
+                        {t('resumeDescription', {
+                            target: journal.targetDirectoryHandle.name,
+                            date: new Date(journal.startedAt).toLocaleString(locale),
+                            done: journal.completed.length,
+                            total: getJournalFileCount(journal)
+                        })}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-400">{canResume ? t('resumePermissionHint') : t('resumeUnavailable')}</p>
+                </div>
+                <div className="flex items-center gap-x-2 flex-shrink-0">
+                    {canResume && (
+                        <button
+                            onClick={onResume}
+                            className="flex items-center bg-amber-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-amber-700 transition-colors duration-200 shadow-sm"
+                        >
+                            <ArrowPathIcon className="h-5 w-5 mr-2" />
+                            {t('resumeButton')}
+                        </button>
+                    )}
+                    <button
+                        onClick={onDiscard}
+                        className="flex items-center bg-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors duration-200"
+                    >
+                        <XMarkIcon className="h-5 w-5 mr-2" />
+                        {t('resumeDiscard')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResumeBanner;
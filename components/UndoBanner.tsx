@@ -0,0 +1,50 @@
+import React from 'react';
+import { ArrowPathIcon, XMarkIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { OrganizeJournal, getJournalFileCount } from '../utils/organizeJournal';
+
+interface UndoBannerProps {
+    journal: OrganizeJournal;
+    onUndo: () => void;
+    onDismiss: () => void;
+}
+
+const UndoBanner: React.FC<UndoBannerProps> = ({ journal, onUndo, onDismiss }) => {
+    const { t, locale } = useLanguage();
+
+    return (
+        <div className="mb-8 p-4 bg-slate-800/50 border border-slate-700/80 rounded-lg text-left">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-grow">
+                    <h4 className="text-sm font-semibold text-slate-200">{t('undoTitle')}</h4>
+                    <p className="text-sm text-slate-400">
+                        {t('undoDescription', {
+                            target: journal.targetDirectoryHandle.name,
+                            date: new Date(journal.finishedAt ?? journal.startedAt).toLocaleString(locale),
+                            total: getJournalFileCount(journal)
+                        })}
+                    </p>
+                </div>
+                <div className="flex items-center gap-x-2 flex-shrink-0">
+                    <button
+                        onClick={onUndo}
+                        className="flex items-center bg-slate-700 text-slate-200 font-semibold py-2 px-4 rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors duration-200"
+                    >
+                        <ArrowPathIcon className="h-5 w-5 mr-2" />
+                        {t('undoButton')}
+                    </button>
+                    <button
+                        onClick={onDismiss}
+                        className="p-2 text-slate-400 rounded-lg hover:bg-slate-700 hover:text-slate-200 transition-colors duration-200"
+                        aria-label={t('undoDismiss')}
+                        title={t('undoDismiss')}
+                    >
+                        <XMarkIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UndoBanner;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { UndoAction } from '../utils/fileSystemUtils';
+import { UndoPreview } from '../utils/organizeJournal';
+import { ArrowPathIcon, ExclamationTriangleIcon } from './Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface UndoPreviewDialogProps {
+  preview: UndoPreview | null; // Open while set
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Paths listed per step before the rest is summarised as "and N more"
+const MAX_LISTED = 5;
+
+const ACTION_LABEL_KEYS = {
+  deleteCopy: 'undoDeleteCopies',
+  moveBack: 'undoMoveBack',
+  copyBack: 'undoCopyBack',
+  removeFolder: 'undoRemoveFolders'
+} as const satisfies Record<UndoAction['type'], string>;
+
+const UndoPreviewDialog: React.FC<UndoPreviewDialogProps> = ({ preview, onConfirm, onCancel }) => {
+  const { t } = useLanguage();
+
+  if (!preview) return null;
+
+  const renderList = (items: readonly string[]) => (
+    <ul className="mt-1 text-xs text-slate-400 font-mono space-y-0.5">
+      {items.slice(0, MAX_LISTED).map(item => (
+        <li key={item} className="truncate">{item}</li>
+      ))}
+      {items.length > MAX_LISTED && (
+        <li>{t('conflictMore', { count: items.length - MAX_LISTED })}</li>
+      )}
+    </ul>
+  );
+
+  const sections = (Object.keys(ACTION_LABEL_KEYS) as UndoAction['type'][])
+    .map(type => ({ type, paths: preview.actions.filter(action => action.type === type).map(action => action.path) }))
+    .filter(section => section.paths.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 animate-fade-in">
+      <div className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 p-6 max-w-lg w-full mx-4">
+        <div className="flex items-center mb-4">
+          <ArrowPathIcon className="h-6 w-6 text-sky-400 mr-3 flex-shrink-0" />
+          <h3 className="text-lg font-semibold text-slate-100">{t('undoPreviewTitle')}</h3>
+        </div>
+
+        <div className="mb-6 space-y-3 text-sm text-slate-300">
+          {sections.length === 0 && <p>{t('undoNothing')}</p>}
+          {sections.map(section => (
+            <div key={section.type}>
+              <p>{t(ACTION_LABEL_KEYS[section.type], { count: section.paths.length })}</p>
+              {renderList(section.paths)}
+            </div>
+          ))}
+          {preview.irreversible.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-400/30 rounded-lg">
+              <p className="flex items-center text-amber-200">
+                <ExclamationTriangleIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+                {t('undoIrreversible', { count: preview.irreversible.length })}
+              </p>
+              {renderList(preview.irreversible)}
+            </div>
+          )}
+          <p className="text-xs text-slate-400">{t('undoPreviewHint')}</p>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-700 text-slate-300 rounded-lg hover:bg-slate-600 transition-colors"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={sections.length === 0}
+            className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('undoConfirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UndoPreviewDialog;
@@ -1,12 +1,14 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Folder, Photo } from '../types';
+import { DateLogic, Folder, Photo, ScanOptions } from '../types';
 import { useLanguage } from '../contexts/LanguageContext';
 import MemoryManager from '../utils/memoryManager';
 import { ErrorType, ErrorSeverity, handleError } from '../utils/errorHandler';
+import { AUTO_FOLDER_ID_PREFIX, DEFAULT_SCAN_OPTIONS, ScannedFile, getFile, groupScannedFiles, joinPath, scanDirectoryTree } from '../utils/directoryScanner';
+import { selectFolderDate } from '../utils/photoDates';
 
 type ProcessorStatus = 'idle' | 'processing' | 'done' | 'error';
-export type DateLogic = 'earliest' | 'latest';
+export type { DateLogic };
 
 const workerScript = `
 // In-memory worker for processing photo data without blocking the main thread.
@@ -32,6 +34,245 @@ const RAW_FILE_SIZE_LIMITS = {
     OPTIMAL: 50 * 1024 * 1024   // 50MB - Optimal processing
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Tags read from every photo; date tags drive grouping, the rest is shown in the metadata panel
+const EXIF_DATE_TAGS = ['DateTimeOriginal', 'CreateDate', 'OffsetTimeOriginal', 'OffsetTimeDigitized', 'OffsetTime'];
+const EXIF_DETAIL_TAGS = [
+    'Make', 'Model', 'LensModel', 'ExposureTime', 'FNumber', 'ISO', 'FocalLength',
+    'ExifImageWidth', 'ExifImageHeight', 'ImageWidth', 'ImageHeight', 'Orientation'
+];
+
+const EXIF_GPS_TAGS = ['GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef'];
+
+// Raw GPS tags are [degrees, minutes, seconds] plus an N/S or E/W reference
+const toDecimalDegrees = (value, ref) => {
+    const parts = Array.isArray(value) ? value : [value];
+    if (parts.length === 0 || parts.some(part => typeof part !== 'number' || !isFinite(part))) return null;
+    const [degrees, minutes = 0, seconds = 0] = parts;
+    const decimal = degrees + minutes / 60 + seconds / 3600;
+    return ref === 'S' || ref === 'W' ? -decimal : decimal;
+};
+
+const readGps = (exifData) => {
+    if (!exifData) return null;
+    const latitude = typeof exifData.latitude === 'number'
+        ? exifData.latitude
+        : toDecimalDegrees(exifData.GPSLatitude, exifData.GPSLatitudeRef);
+    const longitude = typeof exifData.longitude === 'number'
+        ? exifData.longitude
+        : toDecimalDegrees(exifData.GPSLongitude, exifData.GPSLongitudeRef);
+    if (latitude === null || longitude === null) return null;
+    // 0,0 is what many devices write when they had no fix
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || (latitude === 0 && longitude === 0)) return null;
+    return { latitude, longitude };
+};
+
+// Mean of the points on the unit sphere, so folders spanning the date line stay correct
+const getCentroid = (points) => {
+    if (points.length === 0) return null;
+    let x = 0, y = 0, z = 0;
+    for (const { latitude, longitude } of points) {
+        const lat = latitude * Math.PI / 180;
+        const lon = longitude * Math.PI / 180;
+        x += Math.cos(lat) * Math.cos(lon);
+        y += Math.cos(lat) * Math.sin(lon);
+        z += Math.sin(lat);
+    }
+    x /= points.length;
+    y /= points.length;
+    z /= points.length;
+    return {
+        latitude: Math.atan2(z, Math.sqrt(x * x + y * y)) * 180 / Math.PI,
+        longitude: Math.atan2(y, x) * 180 / Math.PI
+    };
+};
+
+// Keep only cloneable primitive values of the detail tags
+const pickExifDetails = (exifData) => {
+    const details = {};
+    if (!exifData) return details;
+    for (const tag of EXIF_DETAIL_TAGS) {
+        const value = exifData[tag];
+        if (typeof value === 'string' ? value.trim() : typeof value === 'number' && isFinite(value)) {
+            details[tag] = typeof value === 'string' ? value.trim() : value;
+        }
+    }
+    return details;
+};
+
+// EXIF offsets look like "+09:00"; returns minutes east of UTC or null
+const parseExifOffset = (value) => {
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^([+-])(\\d{2}):?(\\d{2})$/);
+    if (!match) return null;
+    const minutes = Number(match[2]) * 60 + Number(match[3]);
+    return match[1] === '-' ? -minutes : minutes;
+};
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" strings in camera local time; with an offset they become exact instants
+const parseExifDate = (value, offset) => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^(\\d{4})[:-](\\d{2})[:-](\\d{2})[ T](\\d{2}):(\\d{2}):(\\d{2})/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    if (year < 1900 || month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const offsetMinutes = parseExifOffset(offset);
+    const date = offsetMinutes === null
+        ? new Date(year, month - 1, day, hour, minute, second)
+        : new Date(Date.UTC(year, month - 1, day, hour, minute, second) - offsetMinutes * 60 * 1000);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const readExifDate = (exifData) => {
+    return parseExifDate(exifData?.DateTimeOriginal, exifData?.OffsetTimeOriginal ?? exifData?.OffsetTime)
+        || parseExifDate(exifData?.CreateDate, exifData?.OffsetTimeDigitized ?? exifData?.OffsetTime);
+};
+
+// Date patterns found in camera, phone and messenger file names (camera local time)
+const FILENAME_DATE_PATTERNS = [
+    // Screenshot 2024-03-01 at 12.34.56, Screenshot_2024-03-01-12-34-56, WhatsApp Image 2024-03-01 at 12.34.56
+    /(\\d{4})-(\\d{2})-(\\d{2})(?:[ _T-]+(?:at )?(\\d{2})[.:-]?(\\d{2})[.:-]?(\\d{2}))?/,
+    // IMG_20240301_123456, PXL_20240301_123456789, 20240301_123456, IMG-20240301-WA0001
+    /(?:^|[^\\d])(\\d{4})(\\d{2})(\\d{2})(?:[_-](\\d{2})(\\d{2})(\\d{2})|(?!\\d))/
+];
+
+const parseFilenameDate = (fileName) => {
+    const baseName = fileName.replace(/\\.[^.]+$/, '');
+    for (const pattern of FILENAME_DATE_PATTERNS) {
+        const match = baseName.match(pattern);
+        if (!match) continue;
+        const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map(v => (v === undefined ? undefined : Number(v)));
+        if (year < 1990 || year > 2100 || month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) continue;
+        const date = new Date(year, month - 1, day, hour, minute, second);
+        if (!isNaN(date.getTime()) && date.getDate() === day) return date;
+    }
+    return null;
+};
+
+// EXIF first, then the file name, then the file system timestamp: { date, dateSource }
+const resolvePhotoDate = (exifDate, file) => {
+    if (exifDate) return { date: exifDate, dateSource: 'exif' };
+    const filenameDate = parseFilenameDate(file.name);
+    if (filenameDate) return { date: filenameDate, dateSource: 'filename' };
+    if (file.lastModified > 0) return { date: new Date(file.lastModified), dateSource: 'fileModified' };
+    return { date: null, dateSource: null };
+};
+
+const getDayKey = (date) => date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+
+const getMonthKey = (date) => date.getFullYear() + '-' + pad(date.getMonth() + 1);
+
+// ISO 8601 week, e.g. "2024-W09"
+const getWeekKey = (date) => {
+    const target = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    const dayOfWeek = target.getUTCDay() || 7;
+    target.setUTCDate(target.getUTCDate() + 4 - dayOfWeek);
+    const yearStart = Date.UTC(target.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((target.getTime() - yearStart) / DAY_MS + 1) / 7);
+    return target.getUTCFullYear() + '-W' + pad(week);
+};
+
+// Split loose photos into date-based clusters: [{ key, label, photoResults }]
+const clusterPhotoResults = (photoResults, cluster) => {
+    const dated = photoResults.filter(p => p.date instanceof Date).sort((a, b) => a.date - b.date);
+    const undated = photoResults.filter(p => !(p.date instanceof Date));
+    const clusters = [];
+
+    if (cluster.mode === 'event') {
+        // A new event starts whenever the gap to the previous photo exceeds the threshold
+        const gapMs = Math.max(1, cluster.gapHours) * 60 * 60 * 1000;
+        const labelCounts = {};
+        let current = null;
+        for (const photo of dated) {
+            if (!current || photo.date - current.lastDate > gapMs) {
+                const dayKey = getDayKey(photo.date);
+                labelCounts[dayKey] = (labelCounts[dayKey] || 0) + 1;
+                const label = labelCounts[dayKey] > 1 ? dayKey + ' (' + labelCounts[dayKey] + ')' : dayKey;
+                current = { key: 'event-' + label, label, photoResults: [], lastDate: photo.date };
+                clusters.push(current);
+            }
+            current.photoResults.push(photo);
+            current.lastDate = photo.date;
+        }
+    } else {
+        const getKey = cluster.mode === 'month' ? getMonthKey : cluster.mode === 'week' ? getWeekKey : getDayKey;
+        const byKey = new Map();
+        for (const photo of dated) {
+            const key = getKey(photo.date);
+            if (!byKey.has(key)) {
+                byKey.set(key, { key, label: key, photoResults: [] });
+                clusters.push(byKey.get(key));
+            }
+            byKey.get(key).photoResults.push(photo);
+        }
+    }
+
+    if (undated.length > 0) {
+        clusters.push({ key: 'undated', label: cluster.undatedLabel, photoResults: undated });
+    }
+
+    return clusters;
+};
+
+const getPhotoDimensions = (exifDetails) => {
+    const width = exifDetails.ExifImageWidth ?? exifDetails.ImageWidth;
+    const height = exifDetails.ExifImageHeight ?? exifDetails.ImageHeight;
+    return typeof width === 'number' && typeof height === 'number' ? { width, height } : {};
+};
+
+// Turn processed photo results into a Folder object. The folder date is chosen on the main thread
+// (selectFolderDate in utils/photoDates.ts), where the display time zone is known.
+const buildFolder = (id, originalName, photoResults, dateLogic, isSynthetic) => {
+    const validTimes = photoResults.filter(p => p.date instanceof Date).map(p => p.date.getTime());
+
+    let dateRange = null;
+    if (validTimes.length > 0) {
+        dateRange = { earliest: new Date(Math.min(...validTimes)), latest: new Date(Math.max(...validTimes)) };
+    }
+
+    const photos = photoResults.map(p => ({
+        id: p.id,
+        date: p.date?.toISOString() ?? '',
+        file: p.file,
+        relativePath: p.relativePath,
+        isRaw: p.isRaw,
+        thumbnailUrl: p.thumbnailUrl,
+        metadata: {
+            size: p.file.size,
+            mimeType: p.file.type,
+            lastModified: p.file.lastModified,
+            ...(p.dateSource ? { dateSource: p.dateSource } : {}),
+            ...getPhotoDimensions(p.exifDetails),
+            ...(Object.keys(p.exifDetails).length > 0 ? { exifData: p.exifDetails } : {}),
+            ...(p.gps ? { gps: p.gps } : {}),
+        },
+    }));
+    const centroid = getCentroid(photoResults.map(p => p.gps).filter(Boolean));
+
+    return {
+        id,
+        originalName,
+        photos,
+        representativeDate: null,
+        newName: '',
+        isRenamed: false,
+        dateLogic,
+        ...(isSynthetic ? { isSynthetic: true } : {}),
+        ...(centroid ? { centroid } : {}),
+        ...(dateRange ? {
+            metadata: {
+                totalSize: photoResults.reduce((sum, p) => sum + p.file.size, 0),
+                photoCount: photoResults.length,
+                dateRange,
+            }
+        } : {}),
+    };
+};
+
 self.onmessage = async (e) => {
     try {
         const { folderFileGroups, dateLogic } = e.data;
@@ -54,8 +295,14 @@ self.onmessage = async (e) => {
             
             if (group.files.length === 0) continue;
 
+            // Keep each file paired with its path relative to the dropped root
+            const groupEntries = group.files.map((file, index) => ({
+                file,
+                relativePath: group.paths?.[index] || file.name
+            }));
+
             // Filter files by size before processing (different limits for RAW vs regular files)
-            const validFiles = group.files.filter(file => {
+            const validEntries = groupEntries.filter(({ file }) => {
                 const sizeLimit = isRawFile(file.name) ? RAW_FILE_SIZE_LIMITS.SKIP : FILE_SIZE_LIMITS.SKIP;
                 if (file.size > sizeLimit) {
                     console.warn('Skipping large file:', file.name, 'Size:', Math.round(file.size / 1024 / 1024) + 'MB');
@@ -70,7 +317,7 @@ self.onmessage = async (e) => {
                 return true;
             });
 
-            if (validFiles.length === 0) {
+            if (validEntries.length === 0) {
                 processedFiles += group.files.length;
                 continue;
             }
@@ -91,13 +338,15 @@ self.onmessage = async (e) => {
             // Process files in batches to reduce memory pressure
             const photoResults = [];
             
-            for (let batchStart = 0; batchStart < validFiles.length; batchStart += BATCH_SIZE) {
-                const batchEnd = Math.min(batchStart + BATCH_SIZE, validFiles.length);
-                const batch = validFiles.slice(batchStart, batchEnd);
+            for (let batchStart = 0; batchStart < validEntries.length; batchStart += BATCH_SIZE) {
+                const batchEnd = Math.min(batchStart + BATCH_SIZE, validEntries.length);
+                const batch = validEntries.slice(batchStart, batchEnd);
                 
-                const batchPromises = batch.map(async (file) => {
+                const batchPromises = batch.map(async ({ file, relativePath }) => {
                     try {
                         let date = null;
+                        let exifDetails = {};
+                        let gps = null;
                         let thumbnailUrl = null;
                         let isRaw = false;
 
@@ -107,12 +356,13 @@ self.onmessage = async (e) => {
                             // Process RAW file
                             try {
                                 // Extract EXIF data
-                                const exifData = await exifr.parse(file, { 
-                                    pick: ['DateTimeOriginal', 'CreateDate'],
-                                    translateKeys: false,
-                                    reviveValues: false 
+                                const exifData = await exifr.parse(file, {
+                                    pick: [...EXIF_DATE_TAGS, ...EXIF_DETAIL_TAGS, ...EXIF_GPS_TAGS],
+                                    reviveValues: false
                                 });
-                                date = exifData?.DateTimeOriginal || exifData?.CreateDate || null;
+                                date = readExifDate(exifData);
+                                exifDetails = pickExifDetails(exifData);
+                                gps = readGps(exifData);
 
                                 // Try to extract thumbnail
                                 try {
@@ -135,21 +385,28 @@ self.onmessage = async (e) => {
                         } else {
                             // Process regular image file
                             try {
-                                const exifData = await exifr.parse(file, { 
-                                    pick: ['DateTimeOriginal', 'CreateDate'],
-                                    translateKeys: false,
-                                    reviveValues: false 
+                                const exifData = await exifr.parse(file, {
+                                    pick: [...EXIF_DATE_TAGS, ...EXIF_DETAIL_TAGS, ...EXIF_GPS_TAGS],
+                                    reviveValues: false
                                 });
-                                date = exifData?.DateTimeOriginal || exifData?.CreateDate || null;
+                                date = readExifDate(exifData);
+                                exifDetails = pickExifDetails(exifData);
+                                gps = readGps(exifData);
                             } catch (exifError) {
                                 // Expected for files without EXIF
                             }
                         }
                         
+                        const { date: resolvedDate, dateSource } = resolvePhotoDate(date, file);
+
                         return { 
-                            id: file.name + file.lastModified, 
-                            date, 
+                            id: relativePath + file.lastModified, 
+                            date: resolvedDate, 
+                            dateSource,
+                            exifDetails,
+                            gps,
                             file, 
+                            relativePath,
                             thumbnailUrl,
                             isRaw 
                         };
@@ -170,7 +427,7 @@ self.onmessage = async (e) => {
                         processedFiles,
                         totalFiles,
                         currentFolder: group.originalName,
-                        batchProgress: batchEnd / validFiles.length
+                        batchProgress: batchEnd / validEntries.length
                     }
                 });
                 
@@ -181,30 +438,15 @@ self.onmessage = async (e) => {
             }
 
             if (photoResults.length === 0) continue;
-            
-            const validDates = photoResults.map(p => p.date).filter(d => d instanceof Date);
-            
-            let representativeDate = null;
-            if (validDates.length > 0) {
-                representativeDate = new Date(Math[dateLogic === 'earliest' ? 'min' : 'max'](...validDates.map(d => d.getTime())));
-            }
 
-            const photos = photoResults.map(p => ({
-                id: p.id,
-                date: p.date?.toISOString() ?? '',
-                file: p.file,
-                isRaw: p.isRaw,
-                thumbnailUrl: p.thumbnailUrl,
-            }));
-
-            allProcessedFolders.push({
-                id: group.id,
-                originalName: group.originalName,
-                photos,
-                representativeDate,
-                newName: '',
-                isRenamed: false,
-            });
+            if (group.cluster) {
+                // Loose photos become one synthetic folder per date cluster
+                for (const cluster of clusterPhotoResults(photoResults, group.cluster)) {
+                    allProcessedFolders.push(buildFolder(group.id + cluster.key, cluster.label, cluster.photoResults, dateLogic, true));
+                }
+            } else {
+                allProcessedFolders.push(buildFolder(group.id, group.originalName, photoResults, dateLogic, false));
+            }
         }
 
         self.postMessage({ type: 'done', payload: allProcessedFolders });
@@ -215,18 +457,6 @@ self.onmessage = async (e) => {
 };
 `;
 
-const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
-    return new Promise((resolve, reject) => {
-        reader.readEntries(resolve, reject);
-    });
-};
-
-const getFile = (entry: FileSystemFileEntry): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        entry.file(resolve, reject);
-    });
-};
-
 export const useFolderProcessor = () => {
     const { t } = useLanguage();
     const [status, setStatus] = useState<ProcessorStatus>('idle');
@@ -241,9 +471,11 @@ export const useFolderProcessor = () => {
         totalFiles: number;
         phase: string;
         memoryUsage?: number;
+        currentLevel?: number;
     } | null>(null);
     const objectUrls = useRef<string[]>([]);
     const workerRef = useRef<Worker | null>(null);
+    const timeZoneRef = useRef<string | undefined>(undefined);
     const memoryManager = useRef(MemoryManager.getInstance());
     
     const cleanup = useCallback(() => {
@@ -300,13 +532,13 @@ export const useFolderProcessor = () => {
                     setProgress(prev => prev ? { ...prev, phase: 'rendering' } : null);
                     
                     // Don't create object URLs immediately - do it lazily when needed
-                    const foldersWithoutUrls = payload.map((folder: any) => ({
+                    const foldersWithoutUrls = payload.map((folder: any) => selectFolderDate({
                         ...folder,
                         photos: folder.photos.map((photo: any) => ({
                             ...photo,
                             url: null // Will be created lazily
                         }))
-                    }));
+                    }, timeZoneRef.current));
 
                     const sortedFolders = foldersWithoutUrls.sort((a: Folder, b: Folder) => {
                         if (!a.representativeDate) return 1;
@@ -339,8 +571,14 @@ export const useFolderProcessor = () => {
         };
     }, [t, cleanup]);
 
-    const processDirectory = useCallback(async (directoryEntry: FileSystemDirectoryEntry, dateLogic: DateLogic) => {
+    const processDirectory = useCallback(async (
+        directoryEntry: FileSystemDirectoryEntry,
+        dateLogic: DateLogic,
+        scanOptions: ScanOptions = DEFAULT_SCAN_OPTIONS,
+        timeZone?: string
+    ) => {
         cleanup();
+        timeZoneRef.current = timeZone;
         setStatus('processing');
         setError(null);
         setRootFolderName(directoryEntry.name);
@@ -348,69 +586,93 @@ export const useFolderProcessor = () => {
         setProgress(null);
         setFolders([]);
 
+        let groupCount = 0;
+
         try {
-            const readAllEntries = async (dirReader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
-                let allEntries: FileSystemEntry[] = [];
-                let currentEntries: FileSystemEntry[];
-                do {
-                    currentEntries = await readEntries(dirReader);
-                    allEntries.push(...currentEntries);
-                } while (currentEntries.length > 0);
-                return allEntries;
-            };
-
-            const reader = directoryEntry.createReader();
-            const entries = await readAllEntries(reader);
-            const subDirectories = entries.filter(entry => entry.isDirectory) as FileSystemDirectoryEntry[];
-
-            if (subDirectories.length === 0) {
+            const { files: scannedFiles, subDirectoryCount } = await scanDirectoryTree(
+                directoryEntry,
+                Math.max(1, scanOptions.maxDepth),
+                (levelProgress) => {
+                    setProgress({
+                        processedFolders: levelProgress.scannedDirectories,
+                        totalFolders: levelProgress.totalDirectories,
+                        processedFiles: 0,
+                        totalFiles: levelProgress.foundFiles,
+                        phase: 'scanning',
+                        currentLevel: levelProgress.level
+                    });
+                    setProcessingMessage(t('scanningLevel', {
+                        level: levelProgress.level,
+                        maxDepth: levelProgress.maxDepth,
+                        scanned: levelProgress.scannedDirectories,
+                        total: levelProgress.totalDirectories
+                    }));
+                }
+            );
+
+            const looseFiles = scannedFiles.filter(scanned => scanned.directoryPath === '');
+            const clusterLooseFiles = scanOptions.looseFileClustering !== 'off' && looseFiles.length > 0;
+
+            if (subDirectoryCount === 0 && !clusterLooseFiles) {
                 const error = new Error(t('errorNoSubFolders'));
                 handleError(error, ErrorType.DIRECTORY_NOT_FOUND, ErrorSeverity.MEDIUM, {
                     directoryName: directoryEntry.name,
-                    entriesFound: entries.length
+                    entriesFound: scannedFiles.length
                 });
                 throw error;
             }
             
             setProcessingMessage('Gathering files to process...');
-            
-            const folderFileGroupsPromises = subDirectories.map(async (subDir) => {
-                const subDirReader = subDir.createReader();
-                const photoEntriesRaw = await readAllEntries(subDirReader);
-
-                const photoEntries = photoEntriesRaw.filter(entry => 
-                    entry.isFile && 
-                    entry.name.match(/\.(jpg|jpeg|png|heic|webp|gif|bmp|tiff|cr2|cr3|nef|nrw|arw|srf|sr2|dng|raf|orf|rw2|pef|srw|x3f|kdc|dcr|mrw|3fr|fff|iiq|rwl)$/i)
-                ) as FileSystemFileEntry[];
-                if (photoEntries.length === 0) return null;
-
-                const files = await Promise.all(photoEntries.map(getFile));
-
-                return {
-                    originalName: subDir.name,
-                    id: subDir.fullPath,
-                    files,
-                };
-            });
 
-            const folderFileGroupsWithNulls = await Promise.all(folderFileGroupsPromises);
-            const folderFileGroups = folderFileGroupsWithNulls.filter((g): g is NonNullable<typeof g> => g !== null);
+            const scannedGroups = groupScannedFiles(scannedFiles, scanOptions);
+            groupCount = scannedGroups.length;
+
+            const toFileGroup = async (files: ScannedFile[]) => ({
+                files: await Promise.all(files.map(scanned => getFile(scanned.entry))),
+                paths: files.map(scanned => joinPath(scanned.directoryPath, scanned.entry.name)),
+            });
 
+            const folderFileGroups: Array<{
+                originalName: string;
+                id: string;
+                files: File[];
+                paths: string[];
+                cluster?: { mode: string; gapHours: number; undatedLabel: string };
+            }> = await Promise.all(scannedGroups.map(async (group) => ({
+                originalName: group.originalName,
+                id: group.id,
+                ...(await toFileGroup(group.files)),
+            })));
+
+            if (clusterLooseFiles) {
+                // The worker splits this group into one folder per date cluster
+                folderFileGroups.push({
+                    originalName: directoryEntry.name,
+                    id: AUTO_FOLDER_ID_PREFIX,
+                    ...(await toFileGroup(looseFiles)),
+                    cluster: {
+                        mode: scanOptions.looseFileClustering,
+                        gapHours: scanOptions.eventGapHours,
+                        undatedLabel: t('unknownDate'),
+                    },
+                });
+            }
 
             if (folderFileGroups.length === 0) {
                 const error = new Error(t('errorNoImages'));
                 handleError(error, ErrorType.INVALID_FILE_FORMAT, ErrorSeverity.MEDIUM, {
-                    subDirectories: subDirectories.length,
+                    subDirectories: subDirectoryCount,
                     validGroups: folderFileGroups.length
                 });
                 throw error;
             }
 
+            setProgress(null);
             workerRef.current?.postMessage({ folderFileGroups, dateLogic });
 
         } catch (e: any) {
             const appError = handleError(e, ErrorType.PROCESSING_FAILED, ErrorSeverity.HIGH, {
-                folderCount: folderFileGroups?.length || 0,
+                folderCount: groupCount,
                 operation: 'processDirectory'
             });
             setError(appError.userMessage);
@@ -8,7 +8,7 @@ export const translations = {
     // FolderOrganizer
     scanningFolder: 'Scanning folder: {folderName}...',
     processingSubFolder: 'Processing sub-folder {index}/{total}: {subDirName}',
-    errorNoSubFolders: 'No sub-folders found in the dropped folder. Please drop a folder that contains other folders of images.',
+    errorNoSubFolders: 'No sub-folders found in the dropped folder. Please drop a folder that contains other folders of images, or turn on "Create Folders from Loose Photos".',
     errorNoImages: 'No images found in any of the sub-folders.',
     errorUnknown: 'An unknown error occurred during processing.',
     errorOccurred: 'An Error Occurred',
@@ -25,11 +25,41 @@ export const translations = {
     allFoldersRenamedTitle: 'All Done!',
     allFoldersRenamedDescription: 'You\'ve renamed all folders. You can now download the script to apply the changes instantly.',
     renameScriptInstructionsTitle: 'Finish Renaming in One Click',
-    renameScriptInstructions: "1. Download the script. 2. Place it inside the main folder you dropped ('{folderName}'). 3. Run it (double-click on Windows, or run `sh rename_folders.sh` in the terminal on Mac/Linux) to rename all folders at once.",
+    renameScriptInstructions: "1. Choose where the script will run and download it. 2. Place it inside the main folder you dropped ('{folderName}'). 3. Run it there to rename all folders at once. The script refuses to run anywhere else, skips any folder that is missing or whose new name is taken, and records what it did in rename_folders.log.",
+    renameScriptRollback: 'A rollback script (rollback_folders) is downloaded with it. Run it the same way to undo the renames recorded in the log.',
     generateRenameScript: 'Download Rename Script',
+    scriptTargetLabel: 'Script for',
+    scriptTargetCmd: 'Windows (cmd)',
+    scriptTargetPowerShell: 'PowerShell',
+    scriptTargetSh: 'macOS / Linux / NAS (sh)',
+    scriptTargetPython: 'Python 3 (any OS)',
+    scriptRunCmd: 'Double-click rename_folders.bat.',
+    scriptRunPowerShell: 'Right-click rename_folders.ps1 and choose "Run with PowerShell", or run `pwsh ./rename_folders.ps1`.',
+    scriptRunSh: 'Run `sh rename_folders.sh` in a terminal.',
+    scriptRunPython: 'Run `python3 rename_folders.py` in a terminal.',
     dateRuleTitle: 'Folder Date Priority',
     dateRuleOldest: 'Oldest Date',
     dateRuleNewest: 'Newest Date',
+    dateRuleRange: 'Date Range',
+    dateRuleMedian: 'Median Date',
+    dateRuleMode: 'Most Frequent Day',
+    dateRuleTrimmed: 'Oldest (Ignore Outliers)',
+    scanDepthTitle: 'Scan Depth',
+    scanDepthLevels: '{depth} level(s)',
+    groupingTitle: 'Group Photos By',
+    groupingLeaf: 'Deepest Folder',
+    groupingLevel: 'Folder Level',
+    groupingFlatten: 'Top-Level Folder',
+    groupLevelLabel: 'Level:',
+    scanningLevel: 'Scanning level {level}/{maxDepth}: {scanned}/{total} folders',
+    looseFilesTitle: 'Create Folders from Loose Photos',
+    looseFilesDescription: 'Photos lying directly in the dropped folder are grouped by capture date into new folders.',
+    looseFilesOff: 'Off',
+    looseFilesDay: 'Per Day',
+    looseFilesWeek: 'Per Week',
+    looseFilesMonth: 'Per Month',
+    looseFilesEvent: 'Per Event',
+    eventGapLabel: 'Gap (hours):',
     saveAllChanges: 'Save All Changes',
     // FolderCard
     unknownDate: 'Unknown_Date',
@@ -40,9 +70,161 @@ export const translations = {
     saveNameAriaLabel: 'Save name',
     editNameAriaLabel: 'Edit name',
     readyToRename: 'Ready to rename!',
+    autoGroupedBadge: 'New folder',
+    autoGroupedTitle: 'Created from loose photos. This folder will be created when organizing.',
+    outliersBadge: '{count} outliers ignored',
+    outliersTitle: 'Some photos have dates far from the rest (e.g. a reset camera clock) and were ignored when choosing the folder date.',
+    // ImageModal
+    dateSourceLabel: 'Date from:',
+    dateSourceExif: 'EXIF',
+    dateSourceFilename: 'File name',
+    dateSourceFileModified: 'File modified time',
+    usePhotoDate: "Use this photo's date for the folder",
+    showMetadata: 'Show details',
+    hideMetadata: 'Hide details',
+    metadataCamera: 'Camera',
+    metadataLens: 'Lens',
+    metadataExposure: 'Exposure',
+    metadataAperture: 'Aperture',
+    metadataIso: 'ISO',
+    metadataFocalLength: 'Focal length',
+    metadataDimensions: 'Dimensions',
+    metadataOrientation: 'Orientation',
+    metadataFileSize: 'File size',
+    metadataFileType: 'File type',
     copied: 'Copied!',
     copyName: 'Copy Name',
     errorIconAriaLabel: 'Error',
+    locationSuggestionTitle: 'Suggested from the GPS position of the photos',
+    pinDateLabel: 'Folder date:',
+    pinnedDateBadge: 'Pinned',
+    unpinDateAriaLabel: 'Use the date from the photos',
+    clockOffsetLabel: 'Camera clock offset:',
+    clockOffsetUnit: 'hours',
+    clockOffsetTitle: 'If the camera clock was wrong, enter how many hours to shift the photo dates (e.g. +9 for a camera left on UTC in Japan). Only dates read from EXIF are shifted.',
+    // Folder name template
+    nameTemplateLabel: 'Folder Name Template',
+    nameTemplateReset: 'Reset to default',
+    nameTemplatePreview: 'Preview:',
+    nameTemplateSampleName: 'Summer_Vacation',
+    nameTemplateUnknownToken: 'Unknown token: {{token}}',
+    nameTemplateUnbalanced: 'Unbalanced braces in template.',
+    nameTemplateInvalidName: 'Invalid folder name: {name}',
+    photoNameToggle: 'Rename the photos too',
+    photoNameTemplateLabel: 'Photo File Name Template',
+    photoNameTemplateHint: 'Used when copying or moving to your computer and in the rename script. Photos are numbered by date within each folder; RAW + JPEG pairs share a number, and names that would clash get a _2, _3 suffix.',
+    photoNamesPreview: 'Photo names:',
+    projectTitle: 'Project file',
+    projectDescription: 'Save the names, date fixes and settings to a file to continue later, then open it and drop the same folder.',
+    projectSave: 'Save project',
+    projectOpen: 'Open project…',
+    projectClose: 'Close project',
+    projectWaiting: 'Project for "{folder}" opened with {count} folder(s). Drop that folder to restore its names.',
+    projectRestored: 'Restored {restored} of {total} saved folder(s) from the project for "{folder}".',
+    projectInvalid: 'This file is not a project file of this app.',
+    projectUnsupportedVersion: 'This project file was saved by a newer version of the app (version {version}).',
+    bulkNamesButton: 'Import names…',
+    bulkNamesTitle: 'Import folder names',
+    bulkNamesDescription: 'Paste cells from a spreadsheet or open a CSV file. Each row has the folder (its path, original name or date, e.g. 2024-05-01) and then the new name, or the columns are named in a header row such as "folder", "original name", "date" and "new name".',
+    bulkNamesPlaceholder: '2024-05-01\tKyoto trip',
+    bulkNamesOpenFile: 'Open CSV…',
+    bulkNamesExport: 'Export list as CSV',
+    bulkNamesSummary: '{matched} of {total} row(s) match a folder.',
+    bulkNamesRow: 'Row',
+    bulkNamesKey: 'Folder or date',
+    bulkNamesNewName: 'New name',
+    bulkNamesFolder: 'Matched folder',
+    bulkNamesUnmatched: 'No folder found',
+    bulkNamesAmbiguous: '{count} folders match',
+    bulkNamesDuplicate: 'Already named by an earlier row',
+    bulkNamesApply: 'Apply {count} name(s)',
+    displayTimeZoneLabel: 'Display time zone:',
+    displayTimeZoneBrowser: 'Browser default',
+    // Map
+    mapTitle: 'Map',
+    mapPhotoCount: '({count} photos with GPS)',
+    mapAllFolders: 'All folders',
+    mapZoomIn: 'Zoom in',
+    mapZoomOut: 'Zoom out',
+    mapHint: 'Click a marker to view its photos.',
+    // Camera facet
+    cameraFacetTitle: 'Cameras',
+    cameraFacetAll: 'All cameras',
+    cameraFacetCount: '{photos} photos in {folders} folders',
+    unknownCamera: 'Unknown camera',
+    splitByCameraLabel: 'Subfolder per camera',
+    splitByCameraDescription: 'When organizing to your computer, folders with photos from more than one camera get a subfolder for each camera.',
+    // Organize mode
+    organizeModeTitle: 'When organizing to your computer',
+    organizeModeCopy: 'Copy',
+    organizeModeMove: 'Move',
+    organizeModeRename: 'Rename in place',
+    organizeModeCopyDescription: 'Photos are copied into the new folders. The originals stay where they are.',
+    organizeModeMoveDescription: 'Each original is deleted once its copy has been checked (size and SHA-256), and source folders left empty are removed.',
+    organizeModeRenameDescription: 'Select the folder you dropped: its folders are renamed where they are, without copying any photos.',
+    organizeModeRenameNoUndo: 'Renaming in place cannot be undone from the app. Save a rename script first if you may want the old names back.',
+    organizeModeMoveUnavailable: 'Moving needs a folder dropped in Chrome or Edge, which allows write access to the originals.',
+    organizeMoveConfirm: 'The original photos will be deleted after they are copied. Continue?',
+    verifyCopiesLabel: 'Verify every copy against its original (SHA-256)',
+    verifyFailed: '{count} copy(ies) did not match the original and were removed. The originals were kept:',
+    verifyRetry: 'Retry {count} failed',
+    organizeCancelled: 'Organizing was cancelled. The photos finished so far were kept, and the run can be resumed.',
+    progressSpeed: '{speed}/s',
+    progressSecondsLeft: 'About {count} s left',
+    progressMinutesLeft: 'About {count} min left',
+    conflictExistingFolders: '{count} folder(s) already exist:',
+    conflictExistingFiles: '{count} name(s) are already taken by an existing file or another photo:',
+    conflictMore: '…and {count} more',
+    conflictPolicyTitle: 'When a file with the same name exists',
+    conflictPolicyRename: 'Keep both',
+    conflictPolicyRenameDescription: 'The new photo is saved with a number added, e.g. "IMG_0001 (2).jpg".',
+    conflictPolicyMerge: 'Merge',
+    conflictPolicyMergeDescription: 'Identical photos (same size and SHA-256) are not copied again; different ones are kept as both.',
+    conflictPolicyKeepNewer: 'Keep newer',
+    conflictPolicyKeepNewerDescription: 'Replace the existing file only when the new photo was modified more recently.',
+    conflictPolicySkip: 'Skip',
+    conflictPolicySkipDescription: 'Leave the existing file as it is and do not copy the new photo.',
+    conflictPolicyOverwrite: 'Overwrite',
+    conflictPolicyOverwriteDescription: 'Replace the existing file with the new photo.',
+    planTitle: 'Organize plan',
+    planSummary: '{folders} new folder(s) and {files} photo(s) ({size}) will be written to "{target}".',
+    planEstimateSeconds: 'Estimated time: about {count} s.',
+    planEstimateMinutes: 'Estimated time: about {count} min.',
+    planInvalidFolders: '{count} folder name(s) must be fixed before organizing:',
+    planEmpty: 'No folders are ready to organize. Rename at least one folder.',
+    planNewFolders: '{count} folder(s) will be created:',
+    planDestination: 'Destination',
+    planSize: 'Size',
+    planExport: 'Export {format}',
+    planConfirm: 'Organize',
+    summaryCopied: 'Copied',
+    summaryOverwritten: 'Overwritten',
+    summaryRenamed: 'Saved under a new name',
+    summarySkipped: 'Skipped',
+    summaryDuplicate: 'Already present',
+    summaryFailed: 'Failed verification',
+    resumeTitle: 'An earlier organize run was not finished',
+    resumeDescription: 'Organizing into "{target}" started {date} stopped after {done} of {total} photos.',
+    resumePermissionHint: 'Resuming asks again for access to the dropped folder and the target folder.',
+    resumeButton: 'Resume',
+    resumeDiscard: 'Discard',
+    resumeUnavailable: 'This run cannot be resumed: its photos were not dropped as a folder in Chrome or Edge.',
+    undoTitle: 'Last organize',
+    undoDescription: '{total} photos organized into "{target}" on {date}.',
+    undoButton: 'Undo last organize…',
+    undoDismiss: 'Forget this organize run',
+    undoPreviewTitle: 'Undo last organize',
+    undoDeleteCopies: '{count} copied photo(s) will be deleted:',
+    undoMoveBack: '{count} photo(s) will be moved back to where they came from:',
+    undoCopyBack: '{count} photo(s) will be copied back to where they came from:',
+    undoRemoveFolders: '{count} folder(s) created by the run will be removed if nothing else is in them:',
+    undoIrreversible: '{count} existing file(s) were overwritten; their earlier content cannot be restored:',
+    undoPreviewHint: 'Nothing has been changed yet. Photos edited since organizing are left in place.',
+    undoNothing: 'The last organize run did not write anything that can be undone.',
+    undoConfirm: 'Undo',
+    undoDone: 'Undo complete: {reverted} change(s) reverted.',
+    undoKept: '{reverted} change(s) reverted. {kept} item(s) were left in place because they changed or something is in the way.',
+    revertingOrganize: 'Undoing the last organize...',
     // Modal and Footer
     viewPrivacyAndDisclaimer: 'Privacy Policy & Disclaimer',
     privacyPolicyTitle: 'Privacy Policy',
@@ -58,6 +240,12 @@ export const translations = {
     preparing: 'Preparing...',
     creatingFolders: 'Creating folders...',
     movingFiles: 'Moving files...',
+    verifyingFiles: 'Verifying copies...',
+    renamingFolders: 'Renaming folders...',
+    renameInPlaceDone: '{count} folder(s) renamed. The list now shows their new names.',
+    renameInPlaceFailed: 'The folders could not be renamed. Nothing was changed.',
+    renameInPlacePartial: '{renamed} of {total} folder(s) were renamed before the error. They keep their new names, and the list shows them.',
+    removingEmptyFolders: 'Removing emptied folders...',
     completed: 'Completed',
     error: 'Error',
     cancel: 'Cancel',
@@ -104,7 +292,7 @@ export const translations = {
     // FolderOrganizer
     scanningFolder: 'フォルダをスキャン中: {folderName}...',
     processingSubFolder: 'サブフォルダを処理中 {index}/{total}: {subDirName}',
-    errorNoSubFolders: 'ドロップされたフォルダにサブフォルダが見つかりませんでした。画像の入ったフォルダを含む親フォルダをドロップしてください。',
+    errorNoSubFolders: 'ドロップされたフォルダにサブフォルダが見つかりませんでした。画像の入ったフォルダを含む親フォルダをドロップするか、「バラバラの写真からフォルダを作成」をオンにしてください。',
     errorNoImages: 'どのサブフォルダにも画像が見つかりませんでした。',
     errorUnknown: '処理中に不明なエラーが発生しました。',
     errorOccurred: 'エラーが発生しました',
@@ -121,11 +309,41 @@ export const translations = {
     allFoldersRenamedTitle: 'すべて完了！',
     allFoldersRenamedDescription: 'すべてのフォルダの名前を変更しました。スクリプトをダウンロードして、変更を即座に適用できます。',
     renameScriptInstructionsTitle: 'ワンクリックで名前変更を完了',
-    renameScriptInstructions: "1. スクリプトをダウンロードします。 2. ドロップしたメインフォルダ（'{folderName}'）内に配置します。 3. 実行すると（Windowsではダブルクリック、Mac/Linuxではターミナルで `sh rename_folders.sh` を実行）、すべてのフォルダが一括で名前変更されます。",
+    renameScriptInstructions: "1. スクリプトを実行する環境を選んでダウンロードします。 2. ドロップしたメインフォルダ（'{folderName}'）内に配置します。 3. そこで実行すると、すべてのフォルダが一括で名前変更されます。スクリプトは他の場所では実行されず、見つからないフォルダや新しい名前が使用中のフォルダはスキップし、実行内容を rename_folders.log に記録します。",
+    renameScriptRollback: '元に戻すためのスクリプト（rollback_folders）も一緒にダウンロードされます。同じ方法で実行すると、ログに記録された名前変更を元に戻します。',
     generateRenameScript: 'リネームスクリプトを生成',
+    scriptTargetLabel: 'スクリプトの種類',
+    scriptTargetCmd: 'Windows（cmd）',
+    scriptTargetPowerShell: 'PowerShell',
+    scriptTargetSh: 'macOS / Linux / NAS（sh）',
+    scriptTargetPython: 'Python 3（OS問わず）',
+    scriptRunCmd: 'rename_folders.bat をダブルクリックします。',
+    scriptRunPowerShell: 'rename_folders.ps1 を右クリックして「PowerShell で実行」を選ぶか、`pwsh ./rename_folders.ps1` を実行します。',
+    scriptRunSh: 'ターミナルで `sh rename_folders.sh` を実行します。',
+    scriptRunPython: 'ターミナルで `python3 rename_folders.py` を実行します。',
     dateRuleTitle: 'フォルダ内の日付優先',
     dateRuleOldest: '最も古い日付',
     dateRuleNewest: '最も新しい日付',
+    dateRuleRange: '期間',
+    dateRuleMedian: '中央値の日付',
+    dateRuleMode: '最も多い日',
+    dateRuleTrimmed: '最も古い日付（外れ値を除外）',
+    scanDepthTitle: 'スキャンする階層の深さ',
+    scanDepthLevels: '{depth}階層',
+    groupingTitle: '写真のグループ化',
+    groupingLeaf: '最下層のフォルダ',
+    groupingLevel: '指定した階層',
+    groupingFlatten: '最上位フォルダ',
+    groupLevelLabel: '階層:',
+    scanningLevel: '階層 {level}/{maxDepth} をスキャン中: {scanned}/{total} フォルダ',
+    looseFilesTitle: 'バラバラの写真からフォルダを作成',
+    looseFilesDescription: 'ドロップしたフォルダの直下にある写真を撮影日ごとにまとめ、新しいフォルダを作成します。',
+    looseFilesOff: 'オフ',
+    looseFilesDay: '日ごと',
+    looseFilesWeek: '週ごと',
+    looseFilesMonth: '月ごと',
+    looseFilesEvent: 'イベントごと',
+    eventGapLabel: '間隔（時間）:',
     saveAllChanges: 'すべての変更を保存',
     // FolderCard
     unknownDate: '日付不明',
@@ -136,9 +354,161 @@ export const translations = {
     saveNameAriaLabel: '名前を保存',
     editNameAriaLabel: '名前を編集',
     readyToRename: '名前変更の準備完了！',
+    autoGroupedBadge: '新規フォルダ',
+    autoGroupedTitle: 'バラバラの写真から作成されました。整理の実行時にこのフォルダが作成されます。',
+    outliersBadge: '外れ値 {count} 件を除外',
+    outliersTitle: '他の写真から大きく離れた日付（カメラの時計のリセットなど）の写真は、フォルダの日付の決定に使用されませんでした。',
+    // ImageModal
+    dateSourceLabel: '日付の取得元:',
+    dateSourceExif: 'EXIF',
+    dateSourceFilename: 'ファイル名',
+    dateSourceFileModified: 'ファイルの更新日時',
+    usePhotoDate: 'この写真の日付をフォルダに使う',
+    showMetadata: '詳細を表示',
+    hideMetadata: '詳細を隠す',
+    metadataCamera: 'カメラ',
+    metadataLens: 'レンズ',
+    metadataExposure: 'シャッター速度',
+    metadataAperture: '絞り',
+    metadataIso: 'ISO感度',
+    metadataFocalLength: '焦点距離',
+    metadataDimensions: 'サイズ',
+    metadataOrientation: '向き',
+    metadataFileSize: 'ファイルサイズ',
+    metadataFileType: 'ファイル形式',
     copied: 'コピーしました！',
     copyName: '名前をコピー',
     errorIconAriaLabel: 'エラー',
+    locationSuggestionTitle: '写真のGPS位置から提案された名前です',
+    pinDateLabel: 'フォルダの日付:',
+    pinnedDateBadge: '固定',
+    unpinDateAriaLabel: '写真から求めた日付に戻す',
+    clockOffsetLabel: 'カメラの時計のずれ:',
+    clockOffsetUnit: '時間',
+    clockOffsetTitle: 'カメラの時計がずれていた場合、写真の日時をずらす時間数を入力します（例: UTC のままのカメラを日本で使った場合は +9）。EXIF から読み取った日時だけがずれを補正されます。',
+    // Folder name template
+    nameTemplateLabel: 'フォルダ名のテンプレート',
+    nameTemplateReset: 'デフォルトに戻す',
+    nameTemplatePreview: 'プレビュー:',
+    nameTemplateSampleName: '夏休み',
+    nameTemplateUnknownToken: '不明なトークン: {{token}}',
+    nameTemplateUnbalanced: 'テンプレートの括弧が対応していません。',
+    nameTemplateInvalidName: '無効なフォルダ名: {name}',
+    photoNameToggle: '写真のファイル名も変更する',
+    photoNameTemplateLabel: '写真のファイル名テンプレート',
+    photoNameTemplateHint: 'コンピューターへのコピー・移動と名前変更スクリプトで使われます。写真はフォルダごとに日時順で番号が振られ、RAW と JPEG の組は同じ番号になります。重複する名前には _2、_3 が付きます。',
+    photoNamesPreview: '写真のファイル名:',
+    projectTitle: 'プロジェクトファイル',
+    projectDescription: '名前・日付の修正・設定をファイルに保存しておけば、後で開いて同じフォルダをドロップすると続きから作業できます。',
+    projectSave: 'プロジェクトを保存',
+    projectOpen: 'プロジェクトを開く…',
+    projectClose: 'プロジェクトを閉じる',
+    projectWaiting: '「{folder}」のプロジェクト（{count}個のフォルダ）を開きました。そのフォルダをドロップすると名前を復元します。',
+    projectRestored: '「{folder}」のプロジェクトから、保存された{total}個中{restored}個のフォルダを復元しました。',
+    projectInvalid: 'このファイルはこのアプリのプロジェクトファイルではありません。',
+    projectUnsupportedVersion: 'このプロジェクトファイルは新しいバージョンのアプリで保存されています（バージョン{version}）。',
+    bulkNamesButton: '名前を一括入力…',
+    bulkNamesTitle: 'フォルダ名の一括入力',
+    bulkNamesDescription: 'スプレッドシートのセルを貼り付けるか、CSVファイルを開いてください。各行にフォルダ（パス、元の名前、または2024-05-01のような日付）と新しい名前を入力するか、「folder」「original name」「date」「new name」などの見出し行で列を指定します。',
+    bulkNamesPlaceholder: '2024-05-01\t京都旅行',
+    bulkNamesOpenFile: 'CSVを開く…',
+    bulkNamesExport: '一覧をCSVで書き出す',
+    bulkNamesSummary: '{total}行中{matched}行がフォルダに一致しました。',
+    bulkNamesRow: '行',
+    bulkNamesKey: 'フォルダまたは日付',
+    bulkNamesNewName: '新しい名前',
+    bulkNamesFolder: '一致したフォルダ',
+    bulkNamesUnmatched: '一致するフォルダがありません',
+    bulkNamesAmbiguous: '{count}個のフォルダが一致',
+    bulkNamesDuplicate: '前の行で名前が指定済み',
+    bulkNamesApply: '{count}件の名前を適用',
+    displayTimeZoneLabel: '表示するタイムゾーン:',
+    displayTimeZoneBrowser: 'ブラウザの設定',
+    // Map
+    mapTitle: '地図',
+    mapPhotoCount: '（GPS付きの写真 {count} 枚）',
+    mapAllFolders: 'すべてのフォルダ',
+    mapZoomIn: '拡大',
+    mapZoomOut: '縮小',
+    mapHint: 'マーカーをクリックすると写真を表示します。',
+    // Camera facet
+    cameraFacetTitle: 'カメラ',
+    cameraFacetAll: 'すべてのカメラ',
+    cameraFacetCount: '{folders} フォルダ・{photos} 枚',
+    unknownCamera: '不明なカメラ',
+    splitByCameraLabel: 'カメラごとにサブフォルダを作成',
+    splitByCameraDescription: 'コンピューターに整理する際、複数のカメラの写真を含むフォルダにはカメラごとのサブフォルダを作成します。',
+    // Organize mode
+    organizeModeTitle: 'コンピューターに整理するとき',
+    organizeModeCopy: 'コピー',
+    organizeModeMove: '移動',
+    organizeModeRename: 'その場で名前変更',
+    organizeModeCopyDescription: '写真を新しいフォルダにコピーします。元の写真はそのまま残ります。',
+    organizeModeMoveDescription: 'コピーを検証（サイズとSHA-256）してから元の写真を削除し、空になったフォルダも削除します。',
+    organizeModeRenameDescription: 'ドロップしたフォルダを選択すると、写真をコピーせずにその中のフォルダ名をその場で変更します。',
+    organizeModeRenameNoUndo: 'その場での名前変更はアプリから元に戻せません。元の名前に戻す可能性がある場合は、先にリネームスクリプトを保存してください。',
+    organizeModeMoveUnavailable: '移動するには、元の写真への書き込みが可能なChrome・Edgeでフォルダをドロップしてください。',
+    organizeMoveConfirm: 'コピー後に元の写真が削除されます。続行しますか？',
+    verifyCopiesLabel: 'コピーごとに元の写真と照合する（SHA-256）',
+    verifyFailed: '{count}件のコピーが元の写真と一致しなかったため削除しました。元の写真は残っています：',
+    verifyRetry: '失敗した{count}件を再試行',
+    organizeCancelled: '整理をキャンセルしました。完了済みの写真はそのまま残り、後から再開できます。',
+    progressSpeed: '{speed}/秒',
+    progressSecondsLeft: '残り約{count}秒',
+    progressMinutesLeft: '残り約{count}分',
+    conflictExistingFolders: '{count}個のフォルダがすでに存在します：',
+    conflictExistingFiles: '{count}件の名前が既存のファイルまたは別の写真と重複しています：',
+    conflictMore: '…ほか{count}件',
+    conflictPolicyTitle: '同じ名前のファイルがある場合',
+    conflictPolicyRename: '両方残す',
+    conflictPolicyRenameDescription: '新しい写真に番号を付けて保存します（例: "IMG_0001 (2).jpg"）。',
+    conflictPolicyMerge: '統合',
+    conflictPolicyMergeDescription: '同一の写真（サイズとSHA-256が一致）は再コピーせず、異なる写真は両方残します。',
+    conflictPolicyKeepNewer: '新しい方を残す',
+    conflictPolicyKeepNewerDescription: '新しい写真の更新日時の方が新しい場合のみ既存のファイルを置き換えます。',
+    conflictPolicySkip: 'スキップ',
+    conflictPolicySkipDescription: '既存のファイルはそのままにし、新しい写真はコピーしません。',
+    conflictPolicyOverwrite: '上書き',
+    conflictPolicyOverwriteDescription: '既存のファイルを新しい写真で置き換えます。',
+    planTitle: '整理プラン',
+    planSummary: '新しいフォルダ{folders}個と写真{files}枚（{size}）を「{target}」に書き込みます。',
+    planEstimateSeconds: '予想時間: 約{count}秒',
+    planEstimateMinutes: '予想時間: 約{count}分',
+    planInvalidFolders: '整理する前に{count}個のフォルダ名を修正してください：',
+    planEmpty: '整理できるフォルダがありません。少なくとも1つのフォルダ名を変更してください。',
+    planNewFolders: '{count}個のフォルダを作成します：',
+    planDestination: '保存先',
+    planSize: 'サイズ',
+    planExport: '{format}で書き出す',
+    planConfirm: '整理する',
+    summaryCopied: 'コピー',
+    summaryOverwritten: '上書き',
+    summaryRenamed: '別名で保存',
+    summarySkipped: 'スキップ',
+    summaryDuplicate: '既に存在',
+    summaryFailed: '照合エラー',
+    resumeTitle: '前回の整理が完了していません',
+    resumeDescription: '{date}に開始した「{target}」への整理は、{total}枚中{done}枚で中断されました。',
+    resumePermissionHint: '再開すると、ドロップしたフォルダと保存先フォルダへのアクセスを再度確認します。',
+    resumeButton: '再開',
+    resumeDiscard: '破棄',
+    resumeUnavailable: 'この整理は再開できません（写真がChrome・Edgeでフォルダとしてドロップされていません）。',
+    undoTitle: '前回の整理',
+    undoDescription: '{date}に{total}枚の写真を「{target}」に整理しました。',
+    undoButton: '前回の整理を元に戻す…',
+    undoDismiss: 'この整理の記録を削除',
+    undoPreviewTitle: '前回の整理を元に戻す',
+    undoDeleteCopies: 'コピーした{count}枚の写真を削除します：',
+    undoMoveBack: '{count}枚の写真を元の場所に戻します：',
+    undoCopyBack: '{count}枚の写真を元の場所にコピーし直します：',
+    undoRemoveFolders: '整理で作成した{count}個のフォルダを、他に何もなければ削除します：',
+    undoIrreversible: '{count}個の既存ファイルは上書きされたため、以前の内容は復元できません：',
+    undoPreviewHint: 'まだ何も変更していません。整理後に編集された写真はそのまま残します。',
+    undoNothing: '前回の整理には元に戻せる変更がありません。',
+    undoConfirm: '元に戻す',
+    undoDone: '元に戻しました（{reverted}件）。',
+    undoKept: '{reverted}件を元に戻しました。{kept}件は変更されているか障害があるため、そのまま残しました。',
+    revertingOrganize: '前回の整理を元に戻しています...',
     // Modal and Footer
     viewPrivacyAndDisclaimer: 'プライバシーポリシーと免責事項',
     privacyPolicyTitle: 'プライバシーポリシー',
@@ -154,6 +524,12 @@ export const translations = {
     preparing: '準備中...',
     creatingFolders: 'フォルダ作成中...',
     movingFiles: 'ファイル移動中...',
+    verifyingFiles: 'コピーを検証中...',
+    renamingFolders: 'フォルダ名を変更中...',
+    renameInPlaceDone: '{count}個のフォルダ名を変更しました。一覧には新しい名前が表示されます。',
+    renameInPlaceFailed: 'フォルダ名を変更できませんでした。何も変更されていません。',
+    renameInPlacePartial: 'エラーまでに{total}個中{renamed}個のフォルダ名を変更しました。変更済みのフォルダは新しい名前のままで、一覧にも反映されています。',
+    removingEmptyFolders: '空になったフォルダを削除中...',
     completed: '完了',
     error: 'エラー',
     cancel: 'キャンセル',
@@ -1,6 +1,6 @@
 import React, { ReactElement } from 'react'
 import { render, RenderOptions } from '@testing-library/react'
-import { LanguageProvider } from '../contexts/LanguageContext'
+import { LanguageProvider } from '../../contexts/LanguageContext'
 
 // Custom render function that includes providers
 const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
@@ -75,4 +75,117 @@ export const mockWorkerResponse = (worker: any, response: any) => {
       worker.onmessage({ data: response })
     }
   }, 0)
-}
\ No newline at end of file
+}
+// In-memory File System Access handles. Files are created with the global File constructor,
+// so tests that read content back should stub File with one that implements arrayBuffer().
+export type MockDirectoryTree = { [name: string]: File | MockDirectoryTree }
+
+class MockFileHandle {
+  readonly kind = 'file'
+  constructor(public name: string, public file: File) {}
+
+  async getFile() {
+    return this.file
+  }
+
+  async createWritable() {
+    const chunks: BlobPart[] = []
+    return {
+      write: async (data: BlobPart) => { chunks.push(data) },
+      close: async () => { this.file = new File(chunks, this.name, { type: this.file.type }) },
+      abort: async () => { chunks.length = 0 }
+    }
+  }
+
+  async isSameEntry(other: unknown) {
+    return other === this
+  }
+}
+
+class MockDirectoryHandle {
+  readonly kind = 'directory'
+  readonly children = new Map<string, MockFileHandle | MockDirectoryHandle>()
+  constructor(public name: string) {}
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    const child = this.children.get(name)
+    if (child instanceof MockDirectoryHandle) return child
+    if (child) throw new DOMException(`${name} is a file`, 'TypeMismatchError')
+    if (!options?.create) throw new DOMException(`${name} not found`, 'NotFoundError')
+    const created = new MockDirectoryHandle(name)
+    this.children.set(name, created)
+    return created
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    const child = this.children.get(name)
+    if (child instanceof MockFileHandle) return child
+    if (child) throw new DOMException(`${name} is a directory`, 'TypeMismatchError')
+    if (!options?.create) throw new DOMException(`${name} not found`, 'NotFoundError')
+    const created = new MockFileHandle(name, new File([], name))
+    this.children.set(name, created)
+    return created
+  }
+
+  async removeEntry(name: string, options?: { recursive?: boolean }) {
+    const child = this.children.get(name)
+    if (!child) throw new DOMException(`${name} not found`, 'NotFoundError')
+    if (child instanceof MockDirectoryHandle && child.children.size > 0 && !options?.recursive) {
+      throw new DOMException(`${name} is not empty`, 'InvalidModificationError')
+    }
+    this.children.delete(name)
+  }
+
+  async *entries() {
+    yield* this.children.entries()
+  }
+
+  async *keys() {
+    yield* this.children.keys()
+  }
+
+  async *values() {
+    yield* this.children.values()
+  }
+
+  async isSameEntry(other: unknown) {
+    return other === this
+  }
+
+  async queryPermission() {
+    return 'granted' as PermissionState
+  }
+
+  async requestPermission() {
+    return 'granted' as PermissionState
+  }
+}
+
+export const createMockDirectoryHandle = (
+  name: string = 'root',
+  tree: MockDirectoryTree = {}
+): FileSystemDirectoryHandle => {
+  const handle = new MockDirectoryHandle(name)
+  Object.entries(tree).forEach(([childName, child]) => {
+    handle.children.set(
+      childName,
+      child instanceof File
+        ? new MockFileHandle(childName, child)
+        : createMockDirectoryHandle(childName, child) as unknown as MockDirectoryHandle
+    )
+  })
+  return handle as unknown as FileSystemDirectoryHandle
+}
+
+// Nested listing of a mock directory: file names map to their text content
+export const readMockDirectory = async (
+  handle: FileSystemDirectoryHandle
+): Promise<Record<string, unknown>> => {
+  const listing: Record<string, unknown> = {}
+  for await (const [name, entry] of handle.entries()) {
+    listing[name] = entry.kind === 'file'
+      ? await (await (entry as FileSystemFileHandle).getFile()).text()
+      : await readMockDirectory(entry as FileSystemDirectoryHandle)
+  }
+  return listing
+}
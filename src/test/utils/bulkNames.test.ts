@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { foldersToCsv, parseBulkNames, parseDelimitedText } from '../../../utils/bulkNames'
+import { Folder } from '../../../types'
+
+const createFolder = (id: string, date: string | null, newName = ''): Folder => ({
+  id,
+  originalName: id.split('/').pop() ?? id,
+  photos: [],
+  representativeDate: date ? new Date(date) : null,
+  newName,
+  isRenamed: false
+})
+
+const folders = [
+  createFolder('2024/Trip', '2024-05-01T10:00:00.000Z'),
+  createFolder('2024/Party', '2024-05-03T18:00:00.000Z'),
+  createFolder('2023/Party', '2023-12-24T18:00:00.000Z'),
+  createFolder('2024/Zoo', '2024-05-03T09:00:00.000Z')
+]
+
+describe('bulkNames', () => {
+  it('should parse quoted CSV fields and detect tab-separated paste', () => {
+    expect(parseDelimitedText('a,"b, ""c""",d\r\n"line\nbreak",e\n')).toEqual([
+      ['a', 'b, "c"', 'd'],
+      ['line\nbreak', 'e']
+    ])
+    expect(parseDelimitedText('Trip\tKyoto, 2024\nZoo\tUeno')).toEqual([
+      ['Trip', 'Kyoto, 2024'],
+      ['Zoo', 'Ueno']
+    ])
+    expect(parseDelimitedText('Trip;Kyoto')).toEqual([['Trip', 'Kyoto']])
+  })
+
+  it('should match rows by path, original name or date and flag the rest', () => {
+    const rows = parseBulkNames([
+      '2024/Trip\tKyoto',
+      'zoo\tUeno Zoo',
+      '2024/5/1\tKyoto again',
+      'Party\tBirthday',
+      '2024-05-03\tSaturday',
+      'Nowhere\tLost',
+      'Empty\t'
+    ].join('\n'), folders, 'UTC')
+
+    expect(rows.map(({ row, key, newName, status }) => ({ row, key, newName, status }))).toEqual([
+      { row: 1, key: '2024/Trip', newName: 'Kyoto', status: 'matched' },
+      { row: 2, key: 'zoo', newName: 'Ueno Zoo', status: 'matched' },
+      { row: 3, key: '2024/5/1', newName: 'Kyoto again', status: 'duplicate' },
+      { row: 4, key: 'Party', newName: 'Birthday', status: 'ambiguous' },
+      { row: 5, key: '2024-05-03', newName: 'Saturday', status: 'ambiguous' },
+      { row: 6, key: 'Nowhere', newName: 'Lost', status: 'unmatched' }
+    ])
+    expect(rows[1].folderIds).toEqual(['2024/Zoo'])
+    expect(rows[3].folderIds).toEqual(['2024/Party', '2023/Party'])
+  })
+
+  it('should read back its own export, header and byte order mark included', () => {
+    const named = folders.map((folder, index) => ({ ...folder, newName: index === 1 ? 'Birthday, "5"' : '' }))
+    const csv = foldersToCsv(named, 'UTC')
+
+    expect(csv.startsWith('\ufefffolder,original name,date,new name\r\n')).toBe(true)
+    expect(csv).toContain('2024/Party,Party,2024-05-03,"Birthday, ""5"""\r\n')
+
+    // Folders without a name are not renamed to nothing
+    const rows = parseBulkNames(csv, folders, 'UTC')
+    expect(rows).toEqual([
+      { row: 3, key: '2024/Party', newName: 'Birthday, "5"', folderIds: ['2024/Party'], status: 'matched' }
+    ])
+  })
+
+  it('should fall back to the original name or date when the path no longer matches', () => {
+    const rows = parseBulkNames('Date,Folder,New Name\n2023-12-24,Old/Path,Christmas\n', folders, 'UTC')
+
+    expect(rows).toEqual([
+      { row: 2, key: '2023-12-24', newName: 'Christmas', folderIds: ['2023/Party'], status: 'matched' }
+    ])
+  })
+})
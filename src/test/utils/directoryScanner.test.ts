@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  scanDirectoryTree,
+  groupScannedFiles,
+  getGroupKey,
+  DEFAULT_SCAN_OPTIONS
+} from '../../../utils/directoryScanner'
+
+type MockTree = { [name: string]: MockTree | 'file' }
+
+const createMockFileEntry = (name: string): FileSystemFileEntry => {
+  return {
+    name,
+    isFile: true,
+    isDirectory: false,
+    file: (callback: (file: File) => void) => callback(new File(['test content'], name))
+  } as unknown as FileSystemFileEntry
+}
+
+// Directory entry whose reader returns its children once, then an empty batch
+const createMockTree = (name: string, tree: MockTree): FileSystemDirectoryEntry => {
+  return {
+    name,
+    isFile: false,
+    isDirectory: true,
+    createReader: () => {
+      let consumed = false
+      return {
+        readEntries: (callback: (entries: FileSystemEntry[]) => void) => {
+          const entries = consumed ? [] : Object.entries(tree).map(([childName, child]) =>
+            child === 'file'
+              ? createMockFileEntry(childName)
+              : createMockTree(childName, child)
+          )
+          consumed = true
+          callback(entries)
+        }
+      }
+    }
+  } as unknown as FileSystemDirectoryEntry
+}
+
+const archive = createMockTree('archive', {
+  'loose.jpg': 'file',
+  '2023': {
+    'cover.jpg': 'file',
+    'Trip': {
+      'Day1': { 'a.jpg': 'file', 'notes.txt': 'file' },
+      'Day2': { 'b.jpg': 'file', 'c.nef': 'file' }
+    }
+  },
+  '2024': { 'd.png': 'file' }
+})
+
+describe('directoryScanner', () => {
+  describe('scanDirectoryTree', () => {
+    it('should only read immediate sub-folders at depth 1', async () => {
+      const { files, subDirectoryCount } = await scanDirectoryTree(archive, 1)
+
+      expect(subDirectoryCount).toBe(2)
+      expect(files.map(f => `${f.directoryPath}/${f.entry.name}`).sort()).toEqual([
+        '/loose.jpg',
+        '2023/cover.jpg',
+        '2024/d.png'
+      ])
+    })
+
+    it('should walk nested folders up to maxDepth and skip non-images', async () => {
+      const { files } = await scanDirectoryTree(archive, 3)
+
+      expect(files.map(f => f.directoryPath)).toContain('2023/Trip/Day2')
+      expect(files.map(f => f.entry.name)).not.toContain('notes.txt')
+      expect(files).toHaveLength(6)
+    })
+
+    it('should report progress for every level', async () => {
+      const levels: number[] = []
+      await scanDirectoryTree(archive, 3, progress => levels.push(progress.level))
+
+      expect(Array.from(new Set(levels))).toEqual([0, 1, 2, 3])
+    })
+  })
+
+  describe('grouping', () => {
+    it('should resolve group keys per strategy', () => {
+      expect(getGroupKey('2023/Trip/Day1', { ...DEFAULT_SCAN_OPTIONS, grouping: 'leaf' })).toBe('2023/Trip/Day1')
+      expect(getGroupKey('2023/Trip/Day1', { ...DEFAULT_SCAN_OPTIONS, grouping: 'level', groupLevel: 2 })).toBe('2023/Trip')
+      expect(getGroupKey('2023', { ...DEFAULT_SCAN_OPTIONS, grouping: 'level', groupLevel: 2 })).toBe('2023')
+      expect(getGroupKey('2023/Trip/Day1', { ...DEFAULT_SCAN_OPTIONS, grouping: 'flatten' })).toBe('2023')
+      expect(getGroupKey('', DEFAULT_SCAN_OPTIONS)).toBeNull()
+    })
+
+    it('should group files by leaf folder and keep relative paths as ids', async () => {
+      const { files } = await scanDirectoryTree(archive, 3)
+      const groups = groupScannedFiles(files, { ...DEFAULT_SCAN_OPTIONS, grouping: 'leaf' })
+
+      expect(groups.map(g => g.id).sort()).toEqual(['2023', '2023/Trip/Day1', '2023/Trip/Day2', '2024'])
+      expect(groups.find(g => g.id === '2023/Trip/Day2')?.originalName).toBe('Day2')
+    })
+
+    it('should flatten everything under each top-level folder', async () => {
+      const { files } = await scanDirectoryTree(archive, 3)
+      const groups = groupScannedFiles(files, { ...DEFAULT_SCAN_OPTIONS, grouping: 'flatten' })
+
+      expect(groups.map(g => [g.id, g.files.length])).toEqual([['2023', 4], ['2024', 1]])
+    })
+  })
+})
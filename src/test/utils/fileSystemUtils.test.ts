@@ -0,0 +1,633 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer'
+import {
+  CompletedFile,
+  FailedFile,
+  OrganizePlan,
+  createThroughputMeter,
+  executeOrganizePlan,
+  isSameContent,
+  organizePhotosToFolders,
+  previewOrganize,
+  renameFoldersInPlace,
+  retryFailedFiles,
+  revertOrganize
+} from '../../../utils/fileSystemUtils'
+import { ConflictPolicy, OrganizeMode, ValidFolderName } from '../../../types'
+import { createMockDirectoryHandle, readMockDirectory } from '../test-utils'
+
+const photo = (name: string, content: string = name) => new File([content], name, { type: 'image/jpeg' })
+
+describe('fileSystemUtils', () => {
+  let target: FileSystemDirectoryHandle
+
+  beforeEach(() => {
+    // jsdom's File cannot be read back, which verifying relies on
+    vi.stubGlobal('File', NodeFile)
+    target = createMockDirectoryHandle('target')
+    vi.stubGlobal('showDirectoryPicker', vi.fn(async () => target))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should copy photos and keep the originals by default', async () => {
+    const a = photo('a.jpg')
+    const source = createMockDirectoryHandle('source', { Trip: { 'a.jpg': a } })
+
+    const result = await organizePhotosToFolders([{ name: '2024-05-01 Trip', photos: [a] }])
+
+    expect(result.success).toBe(true)
+    expect(await readMockDirectory(target)).toEqual({ '2024-05-01 Trip': { 'a.jpg': 'a.jpg' } })
+    expect(await readMockDirectory(source)).toEqual({ Trip: { 'a.jpg': 'a.jpg' } })
+  })
+
+  it('should split folders with several cameras into per-device subfolders', async () => {
+    const photos = [photo('a.jpg'), photo('b.jpg'), photo('c.jpg')]
+
+    const result = await organizePhotosToFolders(
+      [{ name: 'Trip', photos, devices: ['Pixel 8', 'X-T5', 'Pixel 8'] }],
+      undefined,
+      { splitByDevice: true }
+    )
+
+    expect(result.success).toBe(true)
+    expect(await readMockDirectory(target)).toEqual({
+      Trip: { 'Pixel 8': { 'a.jpg': 'a.jpg', 'c.jpg': 'c.jpg' }, 'X-T5': { 'b.jpg': 'b.jpg' } }
+    })
+  })
+
+  it('should write photos under their new names, also after splitting by device', async () => {
+    const photos = [photo('a.jpg'), photo('b.jpg'), photo('c.jpg')]
+    const onPlanned = vi.fn(async (_plan: OrganizePlan) => undefined)
+
+    const result = await organizePhotosToFolders(
+      [{ name: 'Trip', photos, devices: ['Pixel 8', 'X-T5', 'Pixel 8'], fileNames: ['001.jpg', '002.jpg', '003.jpg'] }],
+      undefined,
+      { splitByDevice: true, onPlanned }
+    )
+
+    expect(result.success).toBe(true)
+    expect(await readMockDirectory(target)).toEqual({
+      Trip: { 'Pixel 8': { '001.jpg': 'a.jpg', '003.jpg': 'c.jpg' }, 'X-T5': { '002.jpg': 'b.jpg' } }
+    })
+    // The journal keeps the new names, so a resumed run writes the same files
+    const [[plan]] = onPlanned.mock.calls
+    expect(plan.folders.map(folder => folder.files.map(file => file.name))).toEqual([['001.jpg', '003.jpg'], ['002.jpg']])
+  })
+
+  it('should delete moved originals and the folders they leave empty', async () => {
+    const a = photo('a.jpg')
+    const b = photo('b.jpg')
+    const source = createMockDirectoryHandle('source', {
+      '2023': { Trip: { 'a.jpg': a, '.DS_Store': photo('.DS_Store') } },
+      Party: { 'b.jpg': b, 'notes.txt': photo('notes.txt') }
+    })
+
+    const result = await organizePhotosToFolders(
+      [{ name: 'Everything', photos: [a, b], sourcePaths: ['2023/Trip/a.jpg', 'Party/b.jpg'] }],
+      undefined,
+      { mode: OrganizeMode.MOVE, sourceDirectoryHandle: source }
+    )
+
+    expect(result.success).toBe(true)
+    expect(await readMockDirectory(target)).toEqual({ Everything: { 'a.jpg': 'a.jpg', 'b.jpg': 'b.jpg' } })
+    expect(await readMockDirectory(source)).toEqual({ Party: { 'notes.txt': 'notes.txt' } })
+  })
+
+  it('should keep the original when the copy does not match', async () => {
+    const a = photo('a.jpg')
+    const source = createMockDirectoryHandle('source', { Trip: { 'a.jpg': a } })
+    const targetFolder = await target.getDirectoryHandle('Trip 2024', { create: true })
+    const targetFile = await targetFolder.getFileHandle('a.jpg', { create: true })
+    // Simulate a write that silently truncates the copy
+    vi.spyOn(targetFile, 'getFile').mockResolvedValue(photo('a.jpg', 'a'))
+
+    const onFileFailed = vi.fn()
+
+    const result = await organizePhotosToFolders(
+      [{ name: 'Trip 2024', photos: [a], sourcePaths: ['Trip/a.jpg'] }],
+      undefined,
+      { mode: OrganizeMode.MOVE, sourceDirectoryHandle: source, onFileFailed }
+    )
+
+    expect(result.success && result.data.failed).toBe(1)
+    expect(onFileFailed).toHaveBeenCalledWith(expect.objectContaining({
+      path: ['Trip 2024'],
+      name: 'a.jpg',
+      sourcePath: 'Trip/a.jpg',
+      reason: 'Expected 5 bytes, found 1'
+    }))
+    expect(await readMockDirectory(source)).toEqual({ Trip: { 'a.jpg': 'a.jpg' } })
+  })
+
+  it('should tell a copy with other content from a truncated one', async () => {
+    const a = photo('a.jpg')
+    const targetFile = await (await target.getDirectoryHandle('Trip 2024', { create: true })).getFileHandle('a.jpg', { create: true })
+    // Same size as the original, different bytes
+    vi.spyOn(targetFile, 'getFile').mockResolvedValue(photo('a.jpg', 'b.jpg'))
+
+    const onFileFailed = vi.fn()
+
+    await organizePhotosToFolders([{ name: 'Trip 2024', photos: [a] }], undefined, { verify: true, onFileFailed })
+
+    expect(onFileFailed).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'a.jpg',
+      reason: 'Content mismatch: same size, but the SHA-256 differs'
+    }))
+  })
+
+  it('should retry only the photos that failed verification', async () => {
+    const targetFile = await (await target.getDirectoryHandle('Trip', { create: true })).getFileHandle('a.jpg', { create: true })
+    vi.spyOn(targetFile, 'getFile').mockResolvedValueOnce(photo('a.jpg', 'a'))
+    const failures: FailedFile[] = []
+
+    const result = await organizePhotosToFolders([{ name: 'Trip', photos: [photo('a.jpg'), photo('b.jpg')] }], undefined, {
+      verify: true,
+      onFileFailed: failure => failures.push(failure)
+    })
+
+    expect(result.success && result.data).toMatchObject({ overwritten: 0, copied: 1, failed: 1 })
+    expect(failures.map(({ name, planIndex, outcome }) => ({ name, planIndex, outcome }))).toEqual([{ name: 'a.jpg', planIndex: 0, outcome: 'overwritten' }])
+
+    const onFileRetried = vi.fn(async () => undefined)
+    const retryResult = await retryFailedFiles(target, failures, undefined, { onFileRetried })
+
+    expect(retryResult.success && retryResult.data).toMatchObject({ overwritten: 1, failed: 0 })
+    expect(onFileRetried).toHaveBeenCalledWith(failures[0])
+    expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'a.jpg', 'b.jpg': 'b.jpg' } })
+  })
+
+  it('should refuse to move without source paths', async () => {
+    const source = createMockDirectoryHandle('source')
+    const result = await organizePhotosToFolders(
+      [{ name: 'Trip', photos: [photo('a.jpg')] }],
+      undefined,
+      { mode: OrganizeMode.MOVE, sourceDirectoryHandle: source }
+    )
+    expect(result.success).toBe(false)
+  })
+
+  describe('renameFoldersInPlace', () => {
+    it('should rename nested folders by copying when move() is unavailable', async () => {
+      target = createMockDirectoryHandle('Photos', {
+        '2023': { Trip: { 'a.jpg': photo('a.jpg'), Day1: { 'b.jpg': photo('b.jpg') } } }
+      })
+
+      const result = await renameFoldersInPlace([
+        { path: '2023/Trip/Day1', newName: '2023-05-01' },
+        { path: '2023/Trip', newName: '2023-05 Kyoto' }
+      ])
+
+      expect(result.success && result.data).toEqual({
+        renamed: [
+          { index: 0, path: '2023/Trip/2023-05-01', photoPaths: [] },
+          { index: 1, path: '2023/2023-05 Kyoto', photoPaths: [] }
+        ]
+      })
+      expect(await readMockDirectory(target)).toEqual({
+        '2023': { '2023-05 Kyoto': { 'a.jpg': 'a.jpg', '2023-05-01': { 'b.jpg': 'b.jpg' } } }
+      })
+    })
+
+    it('should use FileSystemHandle.move when available', async () => {
+      target = createMockDirectoryHandle('Photos', { Trip: { 'a.jpg': photo('a.jpg') } })
+      const trip = await target.getDirectoryHandle('Trip')
+      const move = vi.fn(async () => undefined)
+      Object.assign(trip, { move })
+
+      const result = await renameFoldersInPlace([{ path: 'Trip', newName: 'Kyoto' }])
+
+      expect(result.success).toBe(true)
+      expect(move).toHaveBeenCalledWith('Kyoto')
+    })
+
+    it('should gather loose photos of auto-grouped folders into a new folder', async () => {
+      target = createMockDirectoryHandle('Photos', { 'a.jpg': photo('a.jpg'), 'b.jpg': photo('b.jpg') })
+
+      const result = await renameFoldersInPlace([{ photoPaths: ['a.jpg'], newName: '2024-05-01' }])
+
+      expect(result.success && result.data).toEqual({ renamed: [{ index: 0, path: '2024-05-01', photoPaths: ['2024-05-01/a.jpg'] }] })
+      expect(await readMockDirectory(target)).toEqual({ '2024-05-01': { 'a.jpg': 'a.jpg' }, 'b.jpg': 'b.jpg' })
+    })
+
+    it('should rename photos before their folder and gather photos under their new names', async () => {
+      target = createMockDirectoryHandle('Photos', {
+        Trip: { 'IMG_1.jpg': photo('IMG_1.jpg'), 'IMG_2.jpg': photo('IMG_2.jpg') },
+        'c.jpg': photo('c.jpg')
+      })
+
+      const result = await renameFoldersInPlace([
+        { path: 'Trip', newName: 'Kyoto', photoPaths: ['Trip/IMG_1.jpg', 'Trip/IMG_2.jpg'], fileNames: ['001.jpg', 'IMG_2.jpg'] },
+        { photoPaths: ['c.jpg'], fileNames: ['001.jpg'], newName: '2024-05-01' }
+      ])
+
+      expect(result.success && result.data).toEqual({
+        renamed: [
+          { index: 0, path: 'Kyoto', photoPaths: ['Kyoto/001.jpg', 'Kyoto/IMG_2.jpg'] },
+          { index: 1, path: '2024-05-01', photoPaths: ['2024-05-01/001.jpg'] }
+        ]
+      })
+      expect(await readMockDirectory(target)).toEqual({
+        Kyoto: { '001.jpg': 'IMG_1.jpg', 'IMG_2.jpg': 'IMG_2.jpg' },
+        '2024-05-01': { '001.jpg': 'c.jpg' }
+      })
+    })
+
+    it('should change nothing when a photo would replace another file', async () => {
+      target = createMockDirectoryHandle('Photos', { Trip: { 'a.jpg': photo('a.jpg'), 'b.jpg': photo('b.jpg') } })
+
+      const result = await renameFoldersInPlace([
+        { path: 'Trip', newName: 'Kyoto', photoPaths: ['Trip/a.jpg', 'Trip/b.jpg'], fileNames: ['b.jpg', 'c.jpg'] }
+      ])
+
+      expect(result.success).toBe(false)
+      if (!result.success) expect(result.error.code).toBe('ALREADY_EXISTS')
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'a.jpg', 'b.jpg': 'b.jpg' } })
+    })
+
+    it('should change nothing when a folder is missing from the selected root', async () => {
+      target = createMockDirectoryHandle('Elsewhere', { Trip: {} })
+
+      const result = await renameFoldersInPlace([
+        { path: 'Trip', newName: 'Kyoto' },
+        { path: '2023/Party', newName: 'Birthday' }
+      ])
+
+      expect(result.success).toBe(false)
+      if (!result.success) expect(result.error.code).toBe('NOT_FOUND')
+      expect(await readMockDirectory(target)).toEqual({ Trip: {} })
+    })
+
+    it('should not rename onto an existing folder', async () => {
+      target = createMockDirectoryHandle('Photos', { Trip: {}, Kyoto: {} })
+
+      const result = await renameFoldersInPlace([{ path: 'Trip', newName: 'Kyoto' }])
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.data.renamed).toEqual([])
+      expect(result.data.failure?.code).toBe('ALREADY_EXISTS')
+    })
+
+    it('should report the renames done before one fails', async () => {
+      target = createMockDirectoryHandle('Photos', { Day1: {}, Day2: {}, Kyoto: {}, Trip: {} })
+
+      const result = await renameFoldersInPlace([
+        { path: 'Day1', newName: '2023-05-01' },
+        { path: 'Day2', newName: 'Kyoto' },
+        { path: 'Trip', newName: 'Osaka' }
+      ])
+
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.data.renamed).toEqual([{ index: 0, path: '2023-05-01', photoPaths: [] }])
+      expect(result.data.failure?.code).toBe('ALREADY_EXISTS')
+      expect(await readMockDirectory(target)).toEqual({ '2023-05-01': {}, Day2: {}, Kyoto: {}, Trip: {} })
+    })
+
+    it('should treat closing the folder picker as a cancellation', async () => {
+      vi.stubGlobal('showDirectoryPicker', vi.fn(async () => {
+        throw Object.assign(new Error('The user aborted a request.'), { name: 'AbortError' })
+      }))
+
+      const result = await renameFoldersInPlace([{ path: 'Trip', newName: 'Kyoto' }])
+
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.error.code).toBe('CANCELLED')
+    })
+  })
+
+  describe('conflicts', () => {
+    const existing = () => createMockDirectoryHandle('target', {
+      Trip: { 'a.jpg': new File(['old'], 'a.jpg', { type: 'image/jpeg', lastModified: 1000 }) }
+    })
+
+    const organize = (photos: File[], conflictPolicy: ConflictPolicy) =>
+      organizePhotosToFolders([{ name: 'Trip', photos }], undefined, { targetDirectoryHandle: target, conflictPolicy })
+
+    beforeEach(() => {
+      target = existing()
+    })
+
+    it('should list existing folders and files before writing', async () => {
+      const result = await previewOrganize([
+        { name: 'Trip', photos: [photo('a.jpg'), photo('b.jpg')] },
+        { name: 'Party', photos: [photo('a.jpg')] }
+      ], { targetDirectoryHandle: target })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.conflicts).toEqual({ existingFolders: ['Trip'], conflictingFiles: ['Trip/a.jpg'] })
+        expect(result.data.newFolders).toEqual(['Party'])
+        expect(result.data.files.map(file => [file.destination, file.conflict])).toEqual([
+          ['Trip/a.jpg', true],
+          ['Trip/b.jpg', false],
+          ['Party/a.jpg', false]
+        ])
+        expect(result.data.totalBytes).toBe(15)
+      }
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'old' } })
+    })
+
+    it('should flag photos of the plan that land on the same name', async () => {
+      const folders = [
+        { name: 'Trip', photos: [photo('a.jpg')] },
+        { name: 'Party', photos: [photo('b.jpg')] },
+        { name: 'Trip', photos: [photo('a.jpg', 'other'), photo('a.jpg', 'third'), photo('c.jpg')] }
+      ]
+      const result = await previewOrganize(folders)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.conflicts.conflictingFiles).toEqual(['Trip/a.jpg'])
+        expect(result.data.files.map(file => [file.destination, file.conflict])).toEqual([
+          ['Trip/a.jpg', false],
+          ['Party/b.jpg', false],
+          ['Trip/a.jpg', true],
+          ['Trip/a.jpg', true],
+          ['Trip/c.jpg', false]
+        ])
+      }
+
+      // The run meets the same two conflicts
+      target = createMockDirectoryHandle('target', {})
+      const run = await organizePhotosToFolders(folders, undefined, { targetDirectoryHandle: target, conflictPolicy: ConflictPolicy.RENAME })
+      expect(run.success && run.data.renamed).toBe(2)
+    })
+
+    it('should collect every invalid folder and plan the valid ones', async () => {
+      const result = await previewOrganize([
+        { name: 'Bad:Name', photos: [photo('a.jpg')] },
+        { name: 'Trip', photos: [photo('a.jpg'), photo('b.jpg')], devices: ['Pixel 8', 'X-T5'] },
+        { name: 42, photos: [] }
+      ], { splitByDevice: true })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.invalidFolders.map(folder => folder.name)).toEqual(['Bad:Name', '#3'])
+        expect(result.data.newFolders).toEqual(['Trip', 'Trip/Pixel 8', 'Trip/X-T5'])
+        expect(result.data.plan.folders.map(folder => folder.path)).toEqual([['Trip', 'Pixel 8'], ['Trip', 'X-T5']])
+      }
+    })
+
+    it('should keep both files with the rename policy', async () => {
+      const result = await organize([photo('a.jpg', 'new')], ConflictPolicy.RENAME)
+
+      expect(result.success && result.data.renamed).toBe(1)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'old', 'a (2).jpg': 'new' } })
+    })
+
+    it('should leave the existing file with the skip policy', async () => {
+      const result = await organize([photo('a.jpg', 'new')], ConflictPolicy.SKIP)
+
+      expect(result.success && result.data.skipped).toBe(1)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'old' } })
+    })
+
+    it('should replace the existing file with the overwrite policy', async () => {
+      const result = await organize([photo('a.jpg', 'new')], ConflictPolicy.OVERWRITE)
+
+      expect(result.success && result.data.overwritten).toBe(1)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'new' } })
+    })
+
+    it('should only replace older files with the keep-newer policy', async () => {
+      const older = new File(['older'], 'a.jpg', { type: 'image/jpeg', lastModified: 500 })
+      expect((await organize([older], ConflictPolicy.KEEP_NEWER)).success).toBe(true)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'old' } })
+
+      const newer = new File(['newer'], 'a.jpg', { type: 'image/jpeg', lastModified: 2000 })
+      expect((await organize([newer], ConflictPolicy.KEEP_NEWER)).success).toBe(true)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'newer' } })
+    })
+
+    it('should not copy identical photos again with the merge policy', async () => {
+      const result = await organize([photo('a.jpg', 'old'), photo('b.jpg')], ConflictPolicy.MERGE)
+
+      expect(result.success).toBe(true)
+      if (result.success) expect(result.data).toMatchObject({ duplicate: 1, copied: 1 })
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'old', 'b.jpg': 'b.jpg' } })
+    })
+
+    it('should never let photos of the same run replace each other', async () => {
+      const result = await organize([photo('b.jpg', 'first'), photo('b.jpg', 'second')], ConflictPolicy.OVERWRITE)
+
+      expect(result.success).toBe(true)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'old', 'b.jpg': 'first', 'b (2).jpg': 'second' } })
+    })
+  })
+
+  describe('copying', () => {
+    it('should copy several photos at once but finish them in order', async () => {
+      const done: CompletedFile[] = []
+      const photos = ['a', 'b', 'c', 'd', 'e'].map(content => photo('a.jpg', content))
+
+      const result = await organizePhotosToFolders([{ name: 'Trip', photos }], undefined, {
+        concurrency: 3,
+        onFileDone: async (file) => { done.push(file) }
+      })
+
+      expect(result.success && result.data).toMatchObject({ copied: 1, renamed: 4 })
+      expect(done.map(file => file.name)).toEqual(['a.jpg', 'a (2).jpg', 'a (3).jpg', 'a (4).jpg', 'a (5).jpg'])
+      expect(await readMockDirectory(target)).toEqual({
+        Trip: { 'a.jpg': 'a', 'a (2).jpg': 'b', 'a (3).jpg': 'c', 'a (4).jpg': 'd', 'a (5).jpg': 'e' }
+      })
+    })
+
+    it('should stop when cancelled and remove the copies that were not finished', async () => {
+      const controller = new AbortController()
+      const done: CompletedFile[] = []
+
+      const result = await organizePhotosToFolders(
+        [{ name: 'Trip', photos: ['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg'].map(name => photo(name)) }],
+        undefined,
+        {
+          concurrency: 2,
+          signal: controller.signal,
+          onFileDone: async (file) => {
+            done.push(file)
+            controller.abort()
+          }
+        }
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) expect(result.error.code).toBe('CANCELLED')
+      expect(done).toEqual([{ outcome: 'copied', name: 'a.jpg' }])
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'a.jpg' } })
+    })
+
+    it('should remove a file whose copy was cut short', async () => {
+      const controller = new AbortController()
+      const source = createMockDirectoryHandle('source', { in: { 'a.jpg': photo('a.jpg'), 'b.jpg': photo('b.jpg') } })
+
+      const result = await organizePhotosToFolders(
+        [{ name: 'Trip', photos: [photo('a.jpg'), photo('b.jpg')], sourcePaths: ['in/a.jpg', 'in/b.jpg'] }],
+        (progress) => {
+          if (progress.currentFile === 'b.jpg') controller.abort()
+        },
+        { concurrency: 1, mode: OrganizeMode.MOVE, sourceDirectoryHandle: source, signal: controller.signal }
+      )
+
+      expect(result.success).toBe(false)
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'a.jpg' } })
+      expect(await readMockDirectory(source)).toEqual({ in: { 'b.jpg': 'b.jpg' } })
+    })
+
+    it('should compare large files one slice at a time', async () => {
+      const size = 4 * 1024 * 1024 + 3
+      const original = new Uint8Array(size).fill(7)
+      const changed = original.slice()
+      changed[size - 1] = 8
+      const read = vi.spyOn(NodeBlob.prototype, 'arrayBuffer')
+
+      expect(await isSameContent(new File([original], 'a.cr3'), new File([original.slice()], 'b.cr3'))).toBe(true)
+      expect(await isSameContent(new File([original], 'a.cr3'), new File([changed], 'b.cr3'))).toBe(false)
+      expect(await isSameContent(new File([original], 'a.cr3'), new File([original.subarray(1)], 'b.cr3'))).toBe(false)
+      expect(read).toHaveBeenCalled()
+      expect(read.mock.instances.every(blob => (blob as unknown as Blob).size <= 4 * 1024 * 1024)).toBe(true)
+      read.mockRestore()
+    })
+
+    it('should estimate speed and time left from the bytes written', () => {
+      let now = 0
+      const meter = createThroughputMeter(10_000, () => now)
+
+      meter.add(2_000)
+      expect(meter.estimate()).toEqual({})
+
+      now = 2_000
+      meter.skip(1_000)
+      expect(meter.estimate()).toEqual({ bytesPerSecond: 1_000, secondsRemaining: 7 })
+    })
+  })
+
+  describe('resuming', () => {
+    const planned = (sourcePath: string) => ({ name: sourcePath.split('/').pop()!, size: 1, lastModified: 0, sourcePath })
+
+    const plan: OrganizePlan = {
+      folders: [
+        { path: ['Trip' as ValidFolderName], files: [planned('in/a.jpg'), planned('in/b.jpg')] },
+        { path: ['Party' as ValidFolderName, 'X-T5' as ValidFolderName], files: [planned('in/c.jpg')] }
+      ]
+    }
+
+    it('should report the plan and every finished photo', async () => {
+      const onPlanned = vi.fn(async () => {})
+      const done: CompletedFile[] = []
+
+      await organizePhotosToFolders([{ name: 'Trip', photos: [photo('a.jpg'), photo('a.jpg', 'other')] }], undefined, {
+        onPlanned,
+        onFileDone: async (file) => { done.push(file) }
+      })
+
+      expect(onPlanned).toHaveBeenCalledWith(
+        { folders: [{ path: ['Trip'], files: [expect.objectContaining({ name: 'a.jpg' }), expect.objectContaining({ name: 'a.jpg' })] }] },
+        target
+      )
+      expect(done).toEqual([{ outcome: 'copied', name: 'a.jpg' }, { outcome: 'renamed', name: 'a (2).jpg' }])
+    })
+
+    it('should continue after the completed photos and keep their names reserved', async () => {
+      target = createMockDirectoryHandle('target', { Trip: { 'a.jpg': photo('a.jpg') } })
+      const loadPhoto = vi.fn(async (folderIndex: number, fileIndex: number) =>
+        photo(plan.folders[folderIndex].files[fileIndex].name, `${folderIndex}-${fileIndex}`))
+
+      const result = await executeOrganizePlan(target, plan, loadPhoto, undefined, {
+        conflictPolicy: ConflictPolicy.OVERWRITE,
+        completed: [{ outcome: 'copied', name: 'b.jpg' }]
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) expect(result.data).toMatchObject({ copied: 2, renamed: 1 })
+      expect(loadPhoto.mock.calls).toEqual([[0, 1], [1, 0]])
+      // b.jpg of the earlier run is never overwritten by another photo called b.jpg
+      expect(await readMockDirectory(target)).toEqual({
+        Trip: { 'a.jpg': 'a.jpg', 'b (2).jpg': '0-1' },
+        Party: { 'X-T5': { 'c.jpg': '1-0' } }
+      })
+    })
+
+    it('should not keep a second copy of the photo that was in flight', async () => {
+      target = createMockDirectoryHandle('target', { Trip: { 'a.jpg': photo('a.jpg', '0-0') } })
+      const source = createMockDirectoryHandle('source', {
+        in: { 'a.jpg': photo('a.jpg', '0-0'), 'b.jpg': photo('b.jpg', '0-1'), 'c.jpg': photo('c.jpg', '1-0') }
+      })
+
+      const result = await executeOrganizePlan(
+        target,
+        plan,
+        async (folderIndex, fileIndex) => photo(plan.folders[folderIndex].files[fileIndex].name, `${folderIndex}-${fileIndex}`),
+        undefined,
+        { mode: OrganizeMode.MOVE, sourceDirectoryHandle: source, conflictPolicy: ConflictPolicy.RENAME, completed: [] }
+      )
+
+      expect(result.success).toBe(true)
+      if (result.success) expect(result.data).toMatchObject({ duplicate: 1, copied: 2 })
+      expect(await readMockDirectory(target)).toEqual({
+        Trip: { 'a.jpg': '0-0', 'b.jpg': '0-1' },
+        Party: { 'X-T5': { 'c.jpg': '1-0' } }
+      })
+      expect(await readMockDirectory(source)).toEqual({})
+    })
+  })
+
+  describe('revertOrganize', () => {
+    it('should report only the folders it had to create', async () => {
+      target = createMockDirectoryHandle('target', { Trip: {} })
+      const created: string[] = []
+
+      await organizePhotosToFolders(
+        [{ name: 'Trip', photos: [photo('a.jpg'), photo('b.jpg')], devices: ['Pixel 8', 'X-T5'] }],
+        undefined,
+        { splitByDevice: true, onFolderCreated: async (path) => { created.push(path) } }
+      )
+
+      expect(created).toEqual(['Trip/Pixel 8', 'Trip/X-T5'])
+    })
+
+    it('should delete copies and remove folders left empty', async () => {
+      target = createMockDirectoryHandle('target', {
+        Trip: { 'a.jpg': photo('a.jpg'), 'mine.jpg': photo('mine.jpg') },
+        New: { 'b.jpg': photo('b.jpg') }
+      })
+
+      const result = await revertOrganize(target, undefined, [
+        { type: 'deleteCopy', path: 'Trip/a.jpg', size: 5 },
+        { type: 'deleteCopy', path: 'New/b.jpg', size: 5 },
+        { type: 'removeFolder', path: 'New' },
+        { type: 'removeFolder', path: 'Trip' }
+      ])
+
+      expect(result.success && result.data).toEqual({ reverted: 3, kept: ['Trip'] })
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'mine.jpg': 'mine.jpg' } })
+    })
+
+    it('should move photos back without replacing what is there now', async () => {
+      target = createMockDirectoryHandle('target', { Trip: { 'a.jpg': photo('a.jpg'), 'b.jpg': photo('b.jpg'), 'c.jpg': photo('c.jpg') } })
+      const source = createMockDirectoryHandle('source', { in: { 'b.jpg': photo('b.jpg', 'new') } })
+
+      const result = await revertOrganize(target, source, [
+        { type: 'moveBack', path: 'Trip/a.jpg', sourcePath: 'in/2023/a.jpg', size: 5 },
+        { type: 'moveBack', path: 'Trip/b.jpg', sourcePath: 'in/b.jpg', size: 5 },
+        { type: 'copyBack', path: 'Trip/c.jpg', sourcePath: 'in/c.jpg', size: 5 }
+      ])
+
+      expect(result.success && result.data).toEqual({ reverted: 2, kept: ['Trip/b.jpg'] })
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'b.jpg': 'b.jpg', 'c.jpg': 'c.jpg' } })
+      expect(await readMockDirectory(source)).toEqual({ in: { '2023': { 'a.jpg': 'a.jpg' }, 'b.jpg': 'new', 'c.jpg': 'c.jpg' } })
+    })
+
+    it('should keep copies that changed since organizing', async () => {
+      target = createMockDirectoryHandle('target', { Trip: { 'a.jpg': photo('a.jpg', 'edited in an app') } })
+
+      const result = await revertOrganize(target, undefined, [{ type: 'deleteCopy', path: 'Trip/a.jpg', size: 5 }])
+
+      expect(result.success && result.data).toEqual({ reverted: 0, kept: ['Trip/a.jpg'] })
+      expect(await readMockDirectory(target)).toEqual({ Trip: { 'a.jpg': 'edited in an app' } })
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_FOLDER_NAME_TEMPLATE,
+  FolderNameContext,
+  formatDatePattern,
+  formatDateRange,
+  getFinalFolderName,
+  renderFolderNameTemplate,
+  validateFolderNameTemplate
+} from '../../../utils/folderNameTemplate'
+import { Folder } from '../../../types'
+
+const context: FolderNameContext = {
+  date: new Date('2024-03-01T09:05:07Z'),
+  start: new Date('2024-03-01T09:05:07Z'),
+  end: new Date('2024-03-05T18:00:00Z'),
+  count: 7,
+  camera: 'Canon EOS R5',
+  name: 'Kyoto',
+  original: 'DCIM_001',
+  seq: 3
+}
+
+const createFolder = (overrides: Partial<Folder> = {}): Folder => ({
+  id: 'Trips/DCIM_001',
+  originalName: 'DCIM_001',
+  photos: [],
+  representativeDate: new Date('2024-03-01T09:05:07Z'),
+  newName: 'Kyoto',
+  isRenamed: false,
+  ...overrides
+})
+
+const options = { template: DEFAULT_FOLDER_NAME_TEMPLATE, unknownDate: 'Unknown_Date', timeZone: 'UTC' }
+
+describe('folderNameTemplate', () => {
+  it('should format date patterns', () => {
+    expect(formatDatePattern(context.date!, 'YYYY-MM-DD', 'UTC')).toBe('2024-03-01')
+    expect(formatDatePattern(context.date!, 'YYMMDD_HHmmss', 'UTC')).toBe('240301_090507')
+  })
+
+  it('should format dates in the display time zone', () => {
+    const lateEvening = new Date('2024-02-29T20:00:00Z')
+    expect(formatDatePattern(lateEvening, 'YYYY-MM-DD', 'UTC')).toBe('2024-02-29')
+    expect(formatDatePattern(lateEvening, 'YYYY-MM-DD HH', 'Asia/Tokyo')).toBe('2024-03-01 05')
+  })
+
+  it('should render every token', () => {
+    const rendered = renderFolderNameTemplate(
+      '{date}_{start:MM-DD}~{end:MM-DD}_{name}_{original}_{camera}_{count:3}_{seq:2}',
+      context,
+      'Unknown_Date',
+      'UTC'
+    )
+    expect(rendered).toBe('2024-03-01_03-01~03-05_Kyoto_DCIM_001_Canon EOS R5_007_03')
+  })
+
+  it('should use the unknown date label when no date is available', () => {
+    expect(renderFolderNameTemplate('{date}_{name}', { ...context, date: null }, 'Unknown_Date')).toBe('Unknown_Date_Kyoto')
+  })
+
+  it('should collapse the shared year of a date range', () => {
+    const start = new Date('2024-03-01T10:00:00Z')
+    expect(formatDateRange(start, new Date('2024-03-05T10:00:00Z'), undefined, 'UTC')).toBe('2024-03-01~03-05')
+    expect(formatDateRange(start, new Date('2025-01-02T10:00:00Z'), undefined, 'UTC')).toBe('2024-03-01~2025-01-02')
+    expect(formatDateRange(start, new Date('2024-03-01T18:00:00Z'), undefined, 'UTC')).toBe('2024-03-01')
+    expect(formatDateRange(start, new Date('2024-03-05T10:00:00Z'), 'DD.MM.YYYY', 'UTC')).toBe('01.03.2024~05.03')
+  })
+
+  it('should render {date} as a range for range folders', () => {
+    const folder = createFolder({
+      dateLogic: 'range',
+      metadata: {
+        totalSize: 0,
+        photoCount: 2,
+        dateRange: { earliest: new Date('2024-03-01T09:00:00Z'), latest: new Date('2024-03-05T18:00:00Z') }
+      }
+    })
+    const name = getFinalFolderName(folder, 1, options)
+    expect(name).toBe('2024-03-01~03-05_Kyoto')
+  })
+
+  it('should build the final name from a folder with the default template', () => {
+    const name = getFinalFolderName(createFolder(), 1, options)
+    expect(name).toBe('2024-03-01_Kyoto')
+  })
+
+  it('should prefer a pinned date over the computed and range dates', () => {
+    const folder = createFolder({
+      dateLogic: 'range',
+      pinnedDate: new Date('2023-12-24T00:00:00Z'),
+      metadata: {
+        totalSize: 0,
+        photoCount: 2,
+        dateRange: { earliest: new Date('2024-03-01T09:00:00Z'), latest: new Date('2024-03-05T18:00:00Z') }
+      }
+    })
+    const name = getFinalFolderName(folder, 1, options)
+    expect(name).toBe('2023-12-24_Kyoto')
+  })
+
+  it('should report unknown tokens and unbalanced braces', () => {
+    expect(validateFolderNameTemplate('{date}_{foo}')).toEqual([{ code: 'UNKNOWN_TOKEN', detail: 'foo' }])
+    expect(validateFolderNameTemplate('{date}_{name')).toEqual([{ code: 'UNBALANCED_BRACES' }])
+    expect(validateFolderNameTemplate(DEFAULT_FOLDER_NAME_TEMPLATE)).toEqual([])
+  })
+
+  it('should reject templates that render an invalid folder name', () => {
+    const errors = validateFolderNameTemplate('{name}:{seq}', { context, unknownDate: 'Unknown_Date', timeZone: 'UTC' })
+    expect(errors).toEqual([{ code: 'INVALID_NAME', detail: 'Kyoto:3' }])
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { findNearestPlace, getDistanceKm, suggestLocationName } from '../../../utils/gazetteer'
+
+describe('gazetteer', () => {
+  it('should measure great-circle distances', () => {
+    const tokyo = { latitude: 35.690, longitude: 139.692 }
+    const osaka = { latitude: 34.694, longitude: 135.502 }
+    expect(getDistanceKm(tokyo, osaka)).toBeGreaterThan(390)
+    expect(getDistanceKm(tokyo, osaka)).toBeLessThan(410)
+  })
+
+  it('should find the nearest bundled place', () => {
+    const kiyomizu = { latitude: 34.995, longitude: 135.785 }
+    expect(findNearestPlace(kiyomizu)?.place.name).toBe('Kyoto')
+  })
+
+  it('should suggest the city name in the current locale', () => {
+    const kiyomizu = { latitude: 34.995, longitude: 135.785 }
+    expect(suggestLocationName(kiyomizu)).toBe('Kyoto')
+    expect(suggestLocationName(kiyomizu, 'ja')).toBe('京都')
+  })
+
+  it('should fall back to the region when no city is close', () => {
+    // Shiretoko, far from any bundled Hokkaido city
+    const shiretoko = { latitude: 44.07, longitude: 145.0 }
+    expect(suggestLocationName(shiretoko)).toBe('Hokkaido')
+  })
+
+  it('should suggest nothing in the middle of the ocean', () => {
+    expect(suggestLocationName({ latitude: 0, longitude: -140 })).toBeNull()
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { File as NodeFile } from 'node:buffer'
+import {
+  getRetriedEntry,
+  planOrganizeUndo,
+  resumeOrganizeJournal,
+  undoOrganizeJournal,
+  OrganizeJournal
+} from '../../../utils/organizeJournal'
+import {
+  CompletedFile,
+  FailedFile,
+  OrganizePlan,
+  organizePhotosToFolders,
+  retryFailedFiles,
+  revertOrganize
+} from '../../../utils/fileSystemUtils'
+import { ConflictPolicy, OrganizeMode, ValidFolderName } from '../../../types'
+import { createMockDirectoryHandle, readMockDirectory } from '../test-utils'
+
+const journal = (mode: OrganizeMode, overrides: Partial<OrganizeJournal> = {}): OrganizeJournal => ({
+  startedAt: 0,
+  finishedAt: 1,
+  mode,
+  conflictPolicy: ConflictPolicy.RENAME,
+  targetDirectoryHandle: {} as FileSystemDirectoryHandle,
+  plan: {
+    folders: [{
+      path: ['Trip' as ValidFolderName, 'Pixel 8' as ValidFolderName],
+      files: ['a', 'b', 'c', 'd', 'e'].map(name => ({ name: `${name}.jpg`, size: 10, lastModified: 0, sourcePath: `in/${name}.jpg` }))
+    }]
+  },
+  completed: [
+    { outcome: 'copied', name: 'a.jpg' },
+    { outcome: 'renamed', name: 'b (2).jpg' },
+    { outcome: 'overwritten', name: 'c.jpg' },
+    { outcome: 'skipped' },
+    { outcome: 'duplicate' }
+  ],
+  createdFolders: ['Trip', 'Trip/Pixel 8'],
+  ...overrides
+})
+
+describe('organizeJournal', () => {
+  describe('planOrganizeUndo', () => {
+    it('should delete the copies and the created folders of a copy run', () => {
+      const preview = planOrganizeUndo(journal(OrganizeMode.COPY))
+
+      expect(preview.actions).toEqual([
+        { type: 'deleteCopy', path: 'Trip/Pixel 8/a.jpg', size: 10 },
+        { type: 'deleteCopy', path: 'Trip/Pixel 8/b (2).jpg', size: 10 },
+        { type: 'removeFolder', path: 'Trip/Pixel 8' },
+        { type: 'removeFolder', path: 'Trip' }
+      ])
+      expect(preview.irreversible).toEqual(['Trip/Pixel 8/c.jpg'])
+    })
+
+    it('should put the originals of a move run back', () => {
+      const preview = planOrganizeUndo(journal(OrganizeMode.MOVE, { createdFolders: [] }))
+
+      expect(preview.actions).toEqual([
+        { type: 'moveBack', path: 'Trip/Pixel 8/a.jpg', sourcePath: 'in/a.jpg', size: 10 },
+        { type: 'moveBack', path: 'Trip/Pixel 8/b (2).jpg', sourcePath: 'in/b.jpg', size: 10 },
+        { type: 'copyBack', path: 'Trip/Pixel 8/c.jpg', sourcePath: 'in/c.jpg', size: 10 },
+        { type: 'copyBack', path: 'Trip/Pixel 8/e.jpg', sourcePath: 'in/e.jpg', size: 10 }
+      ])
+    })
+
+    it('should only cover the photos an interrupted run finished', () => {
+      const preview = planOrganizeUndo(journal(OrganizeMode.COPY, { completed: [{ outcome: 'copied', name: 'a.jpg' }], createdFolders: [] }))
+
+      expect(preview.actions).toEqual([{ type: 'deleteCopy', path: 'Trip/Pixel 8/a.jpg', size: 10 }])
+    })
+
+    it('should leave photos that failed verification alone', () => {
+      const preview = planOrganizeUndo(journal(OrganizeMode.MOVE, { completed: [{ outcome: 'failed' }], createdFolders: [] }))
+
+      expect(preview.actions).toEqual([])
+    })
+  })
+
+  describe('retrying', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should undo photos a retry moved after all', async () => {
+      // jsdom's File cannot be read back, which verifying relies on
+      vi.stubGlobal('File', NodeFile)
+      const photo = (name: string) => new File([name], name, { type: 'image/jpeg' })
+      const files = ['a.jpg', 'b.jpg'].map(photo)
+      const source = createMockDirectoryHandle('source', { in: { 'a.jpg': files[0], 'b.jpg': files[1] } })
+      const target = createMockDirectoryHandle('target')
+      // The first copy of b.jpg reads back truncated
+      const trip = await target.getDirectoryHandle('Trip', { create: true })
+      const getFileHandle = trip.getFileHandle.bind(trip)
+      let isTruncated = false
+      vi.spyOn(trip, 'getFileHandle').mockImplementation(async (name, options) => {
+        const handle = await getFileHandle(name, options)
+        if (name === 'b.jpg' && options?.create && !isTruncated) {
+          isTruncated = true
+          vi.spyOn(handle, 'getFile').mockResolvedValueOnce(photo('b'))
+        }
+        return handle
+      })
+      vi.stubGlobal('showDirectoryPicker', vi.fn())
+
+      // An in-memory stand-in for the journal kept in IndexedDB
+      let plan: OrganizePlan = { folders: [] }
+      const completed: CompletedFile[] = []
+      const failures: FailedFile[] = []
+      const run = { mode: OrganizeMode.MOVE, sourceDirectoryHandle: source }
+      await organizePhotosToFolders([{ name: 'Trip', photos: files, sourcePaths: ['in/a.jpg', 'in/b.jpg'] }], undefined, {
+        ...run,
+        targetDirectoryHandle: target,
+        onPlanned: async planned => { plan = planned },
+        onFileDone: async file => { completed.push(file) },
+        onFileFailed: failure => failures.push(failure)
+      })
+      expect(completed[1]).toEqual({ outcome: 'failed' })
+
+      await retryFailedFiles(target, failures, undefined, {
+        ...run,
+        onFileRetried: async failure => { completed[failure.planIndex] = getRetriedEntry(failure) }
+      })
+      expect(await readMockDirectory(source)).toEqual({})
+
+      const preview = planOrganizeUndo({
+        ...run,
+        startedAt: 0,
+        finishedAt: 1,
+        conflictPolicy: ConflictPolicy.RENAME,
+        targetDirectoryHandle: target,
+        plan,
+        completed,
+        createdFolders: []
+      })
+      expect(preview.actions).toEqual([
+        { type: 'moveBack', path: 'Trip/a.jpg', sourcePath: 'in/a.jpg', size: 5 },
+        { type: 'moveBack', path: 'Trip/b.jpg', sourcePath: 'in/b.jpg', size: 5 }
+      ])
+
+      await revertOrganize(target, source, preview.actions)
+      expect(await readMockDirectory(source)).toEqual({ in: { 'a.jpg': 'a.jpg', 'b.jpg': 'b.jpg' } })
+    })
+  })
+
+  describe('permissions', () => {
+    // Chrome rejects the request when the folder behind the handle is gone
+    const staleHandle = () => ({
+      queryPermission: async () => 'prompt',
+      requestPermission: async () => { throw new DOMException('The folder was removed', 'NotFoundError') }
+    }) as unknown as FileSystemDirectoryHandle
+
+    it('should report a failing permission request when resuming', async () => {
+      const result = await resumeOrganizeJournal(journal(OrganizeMode.COPY, {
+        sourceDirectoryHandle: staleHandle(),
+        targetDirectoryHandle: staleHandle()
+      }))
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should report a failing permission request when undoing', async () => {
+      const stale = journal(OrganizeMode.MOVE, { sourceDirectoryHandle: staleHandle(), targetDirectoryHandle: staleHandle() })
+
+      const result = await undoOrganizeJournal(stale, planOrganizeUndo(stale))
+
+      expect(result.success).toBe(false)
+      if (!result.success) expect(result.error.code).toBe('PERMISSION_DENIED')
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { estimateOrganizeSeconds, previewToCsv, previewToJson, toDelimitedRow } from '../../../utils/organizePreview'
+import { OrganizePreview } from '../../../utils/fileSystemUtils'
+import { OrganizeMode } from '../../../types'
+
+const preview: OrganizePreview = {
+  plan: { folders: [] },
+  newFolders: ['Trip, "Day 1"'],
+  files: [
+    { destination: 'Trip, "Day 1"/a.jpg', size: 1024, sourcePath: 'in/a.jpg', conflict: true },
+    { destination: 'Trip, "Day 1"/b.jpg', size: 2048, conflict: false }
+  ],
+  totalBytes: 3072,
+  conflicts: { existingFolders: [], conflictingFiles: ['Trip, "Day 1"/a.jpg'] },
+  invalidFolders: []
+}
+
+describe('organizePreview', () => {
+  it('should quote fields with delimiters, quotes and line breaks', () => {
+    expect(toDelimitedRow(['plain', 'a,b', 'say "hi"', 'two\nlines', 3])).toBe('plain,"a,b","say ""hi""","two\nlines",3')
+    expect(toDelimitedRow(['a,b', 'c\td'], '\t')).toBe('a,b\t"c\td"')
+  })
+
+  it('should export one CSV row per photo', () => {
+    expect(previewToCsv(preview).split('\r\n')).toEqual([
+      'destination,source,size,conflict',
+      '"Trip, ""Day 1""/a.jpg",in/a.jpg,1024,yes',
+      '"Trip, ""Day 1""/b.jpg",,2048,',
+      ''
+    ])
+  })
+
+  it('should export the plan with its estimate as JSON', () => {
+    const exported = JSON.parse(previewToJson(preview, OrganizeMode.COPY, 'Photos'))
+
+    expect(exported).toMatchObject({ target: 'Photos', mode: OrganizeMode.COPY, totalBytes: 3072, newFolders: ['Trip, "Day 1"'] })
+    expect(exported.files).toHaveLength(2)
+    expect(exported.estimatedSeconds).toBe(estimateOrganizeSeconds(preview, OrganizeMode.COPY))
+  })
+
+  it('should expect moving to take longer than copying', () => {
+    expect(estimateOrganizeSeconds(preview, OrganizeMode.MOVE)).toBeGreaterThanOrEqual(estimateOrganizeSeconds(preview, OrganizeMode.COPY))
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyClockOffset,
+  createDateInTimeZone,
+  getDateParts,
+  selectFolderDate,
+  selectRepresentativeTime
+} from '../../../utils/photoDates'
+import { Folder, PhotoDateSource } from '../../../types'
+
+const time = (iso: string) => new Date(iso).getTime()
+
+const createFolder = (dates: string[], overrides: Partial<Folder> = {}, sources: PhotoDateSource[] = []): Folder => ({
+  id: 'Trip',
+  originalName: 'Trip',
+  photos: dates.map((date, index) => ({
+    id: `photo-${index}`,
+    url: null,
+    date,
+    metadata: { size: 0, mimeType: 'image/jpeg', lastModified: 0, dateSource: sources[index] ?? 'exif' }
+  })),
+  representativeDate: new Date(dates[0]),
+  newName: '',
+  isRenamed: false,
+  metadata: {
+    totalSize: 0,
+    photoCount: dates.length,
+    dateRange: { earliest: new Date(dates[0]), latest: new Date(dates[dates.length - 1]) }
+  },
+  ...overrides
+})
+
+describe('photoDates', () => {
+  describe('time zones', () => {
+    it('should read calendar parts in the given zone', () => {
+      const date = new Date('2024-02-29T20:30:00Z')
+      expect(getDateParts(date, 'UTC')).toMatchObject({ year: 2024, month: 2, day: 29, hour: 20 })
+      expect(getDateParts(date, 'Asia/Tokyo')).toMatchObject({ year: 2024, month: 3, day: 1, hour: 5 })
+    })
+
+    it('should create a date that falls on the requested day in the zone', () => {
+      const date = createDateInTimeZone(2024, 3, 1, 'Asia/Tokyo')
+      expect(getDateParts(date, 'Asia/Tokyo')).toMatchObject({ year: 2024, month: 3, day: 1, hour: 12 })
+    })
+  })
+
+  describe('selectRepresentativeTime', () => {
+    const times = [
+      time('1970-01-01T00:00:00Z'),
+      time('2024-03-01T10:00:00Z'),
+      time('2024-03-02T10:00:00Z'),
+      time('2024-03-02T12:00:00Z'),
+      time('2024-03-04T10:00:00Z')
+    ]
+
+    it('should let an outlier win for plain earliest', () => {
+      expect(selectRepresentativeTime(times, 'earliest').time).toBe(times[0])
+    })
+
+    it('should discard outliers for trimmed earliest', () => {
+      expect(selectRepresentativeTime(times, 'trimmedEarliest')).toEqual({ time: times[1], outliers: 1 })
+    })
+
+    it('should pick the median photo', () => {
+      expect(selectRepresentativeTime(times, 'median').time).toBe(times[2])
+    })
+
+    it('should count photos per day in the given zone for mode', () => {
+      const evening = [
+        time('2024-03-01T10:00:00Z'),
+        time('2024-03-01T20:00:00Z'),
+        time('2024-03-01T21:00:00Z'),
+        time('2024-03-02T10:00:00Z')
+      ]
+
+      expect(selectRepresentativeTime(evening, 'mode', 'UTC').time).toBe(evening[0])
+      // 20:00 UTC is already the next morning in Tokyo
+      expect(selectRepresentativeTime(evening, 'mode', 'Asia/Tokyo').time).toBe(evening[1])
+    })
+  })
+
+  describe('selectFolderDate', () => {
+    it('should choose the folder date in the display time zone', () => {
+      const folder = createFolder(
+        ['2024-03-01T10:00:00.000Z', '2024-03-01T20:00:00.000Z', '2024-03-01T21:00:00.000Z', '2024-03-02T10:00:00.000Z'],
+        { dateLogic: 'mode', representativeDate: null }
+      )
+
+      expect(selectFolderDate(folder, 'Asia/Tokyo').representativeDate?.toISOString()).toBe('2024-03-01T20:00:00.000Z')
+    })
+  })
+
+  describe('applyClockOffset', () => {
+    it('should shift photo dates and the date range', () => {
+      const folder = applyClockOffset(createFolder(['2024-03-01T00:00:00.000Z', '2024-03-01T06:00:00.000Z']), 9)
+
+      expect(folder.photos.map(p => p.date)).toEqual(['2024-03-01T09:00:00.000Z', '2024-03-01T15:00:00.000Z'])
+      expect(folder.representativeDate?.toISOString()).toBe('2024-03-01T09:00:00.000Z')
+      expect(folder.metadata?.dateRange.latest.toISOString()).toBe('2024-03-01T15:00:00.000Z')
+      expect(folder.clockOffsetHours).toBe(9)
+    })
+
+    it('should only apply the difference to the previous offset', () => {
+      const once = applyClockOffset(createFolder(['2024-03-01T00:00:00.000Z']), 9)
+      const again = applyClockOffset(once, -1)
+
+      expect(again.photos[0].date).toBe('2024-02-29T23:00:00.000Z')
+      expect(again.clockOffsetHours).toBe(-1)
+    })
+
+    it('should choose the date again with the folder date logic', () => {
+      const folder = applyClockOffset(
+        createFolder(['2024-03-01T00:00:00.000Z', '2024-03-03T00:00:00.000Z'], { dateLogic: 'latest' }),
+        2
+      )
+
+      expect(folder.representativeDate?.toISOString()).toBe('2024-03-03T02:00:00.000Z')
+    })
+
+    it('should only shift the photos dated by EXIF', () => {
+      const folder = applyClockOffset(
+        createFolder(
+          ['2024-03-01T00:00:00.000Z', '2024-03-01T03:00:00.000Z', '2024-03-01T06:00:00.000Z'],
+          {},
+          ['exif', 'filename', 'fileModified']
+        ),
+        9
+      )
+
+      expect(folder.photos.map(p => p.date)).toEqual([
+        '2024-03-01T09:00:00.000Z',
+        '2024-03-01T03:00:00.000Z',
+        '2024-03-01T06:00:00.000Z'
+      ])
+      expect(folder.representativeDate?.toISOString()).toBe('2024-03-01T03:00:00.000Z')
+      expect(folder.metadata?.dateRange).toEqual({
+        earliest: new Date('2024-03-01T03:00:00.000Z'),
+        latest: new Date('2024-03-01T09:00:00.000Z')
+      })
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import {
+  clusterMapPhotos,
+  collectMapPhotos,
+  createProjector,
+  getGraticuleStep,
+  getMapBounds,
+  getOutlinePath,
+  projectPoint,
+  unprojectPoint
+} from '../../../utils/photoMap'
+import { INLAND_SEAS, LAND_OUTLINES, OutlineRing } from '../../../utils/worldOutline'
+import { PLACES } from '../../../utils/gazetteer'
+import { Folder, Photo } from '../../../types'
+
+const createPhoto = (id: string, gps?: { latitude: number; longitude: number }): Photo => ({
+  id,
+  file: new File([''], `${id}.jpg`, { type: 'image/jpeg' }),
+  url: '',
+  date: '2024-05-01T00:00:00.000Z',
+  metadata: { size: 0, mimeType: 'image/jpeg', lastModified: 0, gps }
+})
+
+const createFolder = (id: string, photos: Photo[]): Folder => ({
+  id,
+  originalName: id,
+  newName: '',
+  photos,
+  representativeDate: null,
+  isRenamed: false
+})
+
+const viewport = { width: 800, height: 450, padding: 32 }
+
+// Ray casting, in degrees
+const isInRing = (ring: OutlineRing, longitude: number, latitude: number): boolean => {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x1, y1] = ring[i]
+    const [x2, y2] = ring[j]
+    if ((y1 > latitude) !== (y2 > latitude) && longitude < (x2 - x1) * (latitude - y1) / (y2 - y1) + x1) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+const isOnLand = (longitude: number, latitude: number): boolean =>
+  LAND_OUTLINES.some(ring => isInRing(ring, longitude, latitude)) &&
+  !INLAND_SEAS.some(ring => isInRing(ring, longitude, latitude))
+
+describe('photoMap', () => {
+  it('should round-trip points through the projection', () => {
+    const tokyo = { latitude: 35.69, longitude: 139.69 }
+    const { x, y } = projectPoint(tokyo)
+    const back = unprojectPoint(x, y)
+    expect(back.latitude).toBeCloseTo(tokyo.latitude, 6)
+    expect(back.longitude).toBeCloseTo(tokyo.longitude, 6)
+  })
+
+  it('should collect only photos with GPS', () => {
+    const folders = [
+      createFolder('a', [createPhoto('1', { latitude: 35, longitude: 139 }), createPhoto('2')]),
+      createFolder('b', [createPhoto('3')])
+    ]
+    const collected = collectMapPhotos(folders)
+    expect(collected).toHaveLength(1)
+    expect(collected[0].folderId).toBe('a')
+  })
+
+  it('should keep a minimum span around a single point', () => {
+    const bounds = getMapBounds([{ latitude: 35, longitude: 139 }])!
+    expect(bounds.maxX - bounds.minX).toBeGreaterThan(0)
+    expect(bounds.maxY - bounds.minY).toBeGreaterThan(0)
+    expect(getMapBounds([])).toBeNull()
+  })
+
+  it('should fit the bounds inside the padded viewport', () => {
+    const points = [{ latitude: 34.69, longitude: 135.5 }, { latitude: 35.69, longitude: 139.69 }]
+    const { toScreen, toGeo } = createProjector(getMapBounds(points)!, viewport)
+    for (const point of points) {
+      const { x, y } = toScreen(point)
+      expect(x).toBeGreaterThanOrEqual(viewport.padding - 1e-6)
+      expect(x).toBeLessThanOrEqual(viewport.width - viewport.padding + 1e-6)
+      expect(y).toBeGreaterThanOrEqual(viewport.padding - 1e-6)
+      expect(y).toBeLessThanOrEqual(viewport.height - viewport.padding + 1e-6)
+      expect(toGeo(x, y).longitude).toBeCloseTo(point.longitude, 6)
+    }
+  })
+
+  it('should cluster nearby markers and keep distant ones apart', () => {
+    const folders = [
+      createFolder('kyoto', [
+        createPhoto('1', { latitude: 35.0, longitude: 135.78 }),
+        createPhoto('2', { latitude: 35.001, longitude: 135.781 })
+      ]),
+      createFolder('tokyo', [createPhoto('3', { latitude: 35.69, longitude: 139.69 })])
+    ]
+    const photos = collectMapPhotos(folders)
+    const { toScreen } = createProjector(getMapBounds(photos.map(p => p.point))!, viewport)
+    const clusters = clusterMapPhotos(photos, toScreen, 18)
+
+    expect(clusters).toHaveLength(2)
+    expect(clusters[0].items).toHaveLength(2)
+    expect(clusters[0].folderIds).toEqual(['kyoto'])
+    expect(clusters[1].folderIds).toEqual(['tokyo'])
+  })
+
+  it('should wind land and holes in opposite directions and leave out rings off screen', () => {
+    const { toScreen } = createProjector(getMapBounds([
+      { latitude: 10, longitude: 10 },
+      { latitude: 20, longitude: 20 }
+    ])!, viewport)
+    const square: OutlineRing = [[12, 12], [18, 12], [18, 18], [12, 18]]
+    const elsewhere: OutlineRing = [[-100, -10], [-90, -10], [-90, 0]]
+
+    const land = getOutlinePath([square, elsewhere], toScreen, viewport)
+    const hole = getOutlinePath([square], toScreen, viewport, true)
+
+    expect(land.match(/M/g)).toHaveLength(1)
+    const points = (path: string) => path.slice(1, -1).split('L')
+    expect(points(hole)).toEqual([...points(land)].reverse())
+  })
+
+  it('should draw land under every gazetteer place and keep the seas open', () => {
+    expect(PLACES.filter(place => !isOnLand(place.longitude, place.latitude)).map(place => place.name)).toEqual([])
+    // Pacific, Atlantic, Mediterranean, Black Sea, Sea of Japan
+    expect(isOnLand(-150, 0)).toBe(false)
+    expect(isOnLand(-40, 30)).toBe(false)
+    expect(isOnLand(18, 35)).toBe(false)
+    expect(isOnLand(34, 43)).toBe(false)
+    expect(isOnLand(135, 40)).toBe(false)
+  })
+
+  it('should pick coarser grid steps for wider spans', () => {
+    expect(getGraticuleStep(0.05)).toBeLessThan(getGraticuleStep(5))
+    expect(getGraticuleStep(400)).toBe(30)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatBytes,
+  formatCameraName,
+  formatExposureTime,
+  formatOrientation,
+  getCameraFacets,
+  getPhotoMetadataRows
+} from '../../../utils/photoMetadata'
+import { Folder, Photo } from '../../../types'
+
+const createPhoto = (id: string, Model?: string): Photo => ({
+  id,
+  url: null,
+  date: '',
+  metadata: { size: 0, mimeType: 'image/jpeg', lastModified: 0, exifData: Model ? { Model } : {} }
+})
+
+const createFolder = (id: string, photos: Photo[]): Folder => ({
+  id,
+  originalName: id,
+  newName: '',
+  photos,
+  representativeDate: null,
+  isRenamed: false
+})
+
+describe('photoMetadata', () => {
+  it('should format exposure times as fractions', () => {
+    expect(formatExposureTime(0.004)).toBe('1/250 s')
+    expect(formatExposureTime(2.5)).toBe('2.5 s')
+  })
+
+  it('should not repeat the make in the camera name', () => {
+    expect(formatCameraName('Canon', 'Canon EOS R5')).toBe('Canon EOS R5')
+    expect(formatCameraName('SONY', 'ILCE-7M4')).toBe('SONY ILCE-7M4')
+    expect(formatCameraName(undefined, 'Pixel 8')).toBe('Pixel 8')
+    expect(formatCameraName(undefined, undefined)).toBeNull()
+  })
+
+  it('should describe numeric and text orientations', () => {
+    expect(formatOrientation(6)).toBe('Rotate 90 CW')
+    expect(formatOrientation('Horizontal (normal)')).toBe('Horizontal (normal)')
+  })
+
+  it('should format byte sizes', () => {
+    expect(formatBytes(0)).toBe('0 B')
+    expect(formatBytes(1536)).toBe('1.5 KB')
+  })
+
+  it('should build rows only for available values', () => {
+    const photo: Photo = {
+      id: 'a',
+      url: null,
+      date: '',
+      metadata: {
+        size: 2 * 1024 * 1024,
+        mimeType: 'image/jpeg',
+        lastModified: 0,
+        width: 8192,
+        height: 5464,
+        exifData: { Make: 'Canon', Model: 'Canon EOS R5', FNumber: 2.8, ISO: 200, ExposureTime: 0.004 }
+      }
+    }
+
+    expect(getPhotoMetadataRows(photo)).toEqual([
+      { label: 'metadataCamera', value: 'Canon EOS R5' },
+      { label: 'metadataExposure', value: '1/250 s' },
+      { label: 'metadataAperture', value: 'f/2.8' },
+      { label: 'metadataIso', value: 'ISO 200' },
+      { label: 'metadataDimensions', value: '8192 × 5464' },
+      { label: 'metadataFileSize', value: '2 MB' },
+      { label: 'metadataFileType', value: 'image/jpeg' }
+    ])
+  })
+
+  it('should count cameras across folders with the unknown camera last', () => {
+    const folders = [
+      createFolder('trip', [createPhoto('1', 'Pixel 8'), createPhoto('2', 'Pixel 8'), createPhoto('3')]),
+      createFolder('party', [createPhoto('4', 'Pixel 8'), createPhoto('5', 'X-T5')])
+    ]
+
+    expect(getCameraFacets(folders)).toEqual([
+      { camera: 'Pixel 8', folderCount: 2, photoCount: 3 },
+      { camera: 'X-T5', folderCount: 1, photoCount: 1 },
+      { camera: '', folderCount: 1, photoCount: 1 }
+    ])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_PHOTO_NAME_TEMPLATE,
+  getPhotoFileNames,
+  renderPhotoNameTemplate,
+  validatePhotoNameTemplate
+} from '../../../utils/photoNameTemplate'
+import { Folder, Photo } from '../../../types'
+
+const createPhoto = (relativePath: string, date: string, exifData?: Record<string, unknown>): Photo => ({
+  id: relativePath,
+  url: null,
+  date,
+  relativePath,
+  ...(exifData ? { metadata: { size: 1, mimeType: 'image/jpeg', lastModified: 0, exifData } } : {})
+})
+
+const createFolder = (photos: Photo[]): Folder => ({
+  id: 'Trip',
+  originalName: 'Trip',
+  photos,
+  representativeDate: null,
+  newName: 'Kyoto',
+  isRenamed: true
+})
+
+const options = { template: DEFAULT_PHOTO_NAME_TEMPLATE, unknownDate: 'Unknown', timeZone: 'UTC' }
+
+describe('photoNameTemplate', () => {
+  it('should render every token and keep names usable', () => {
+    const context = {
+      date: new Date('2024-05-01T09:05:07Z'),
+      seq: 7,
+      ext: 'JPG',
+      original: 'IMG_0001',
+      camera: 'Maker A/B',
+      folder: 'Kyoto'
+    }
+
+    expect(renderPhotoNameTemplate(DEFAULT_PHOTO_NAME_TEMPLATE, context, 'Unknown', 'UTC')).toBe('20240501_090507_007.JPG')
+    expect(renderPhotoNameTemplate('{folder}_{original}_{camera}_{seq}.{ext}', context, 'Unknown', 'UTC')).toBe('Kyoto_IMG_0001_Maker A_B_7.JPG')
+    // The extension is added when the template leaves it out
+    expect(renderPhotoNameTemplate('{date:YYYY-MM-DD} ', { ...context, date: null }, 'Unknown', 'UTC')).toBe('Unknown.JPG')
+  })
+
+  it('should number photos in date order and let RAW + JPEG pairs share a number', () => {
+    const photos = [
+      createPhoto('Trip/IMG_0003.jpg', '2024-05-01T12:00:00.000Z'),
+      createPhoto('Trip/IMG_0002.CR3', '2024-05-01T11:00:00.000Z'),
+      createPhoto('Trip/undated.png', ''),
+      createPhoto('Trip/IMG_0002.jpg', '2024-05-01T11:00:00.000Z')
+    ]
+
+    const names = getPhotoFileNames(createFolder(photos), { ...options, template: '{folder}_{seq:2}.{ext}' }, 'Kyoto')
+
+    expect(Object.fromEntries(names)).toEqual({
+      'Trip/IMG_0002.CR3': 'Kyoto_01.CR3',
+      'Trip/IMG_0002.jpg': 'Kyoto_01.jpg',
+      'Trip/IMG_0003.jpg': 'Kyoto_02.jpg',
+      'Trip/undated.png': 'Kyoto_03.png'
+    })
+  })
+
+  it('should add a suffix to names that would collide, ignoring case', () => {
+    const photos = [
+      createPhoto('Trip/a.jpg', '2024-05-01T11:00:00.000Z'),
+      createPhoto('Trip/b.JPG', '2024-05-01T11:00:00.000Z'),
+      createPhoto('Trip/c.jpg', '2024-05-01T11:00:00.000Z')
+    ]
+
+    const names = getPhotoFileNames(createFolder(photos), { ...options, template: '{date}.{ext}' }, 'Kyoto')
+
+    expect([...names.values()]).toEqual(['20240501_110000.jpg', '20240501_110000_2.JPG', '20240501_110000_3.jpg'])
+  })
+
+  it('should report unknown tokens and unbalanced braces', () => {
+    expect(validatePhotoNameTemplate(DEFAULT_PHOTO_NAME_TEMPLATE)).toEqual([])
+    expect(validatePhotoNameTemplate('{count}_{seq')).toEqual([
+      { code: 'UNKNOWN_TOKEN', detail: 'count' },
+      { code: 'UNBALANCED_BRACES' }
+    ])
+  })
+})
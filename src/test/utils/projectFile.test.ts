@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PROJECT_FILE_VERSION,
+  ProjectSettings,
+  applyProjectToFolders,
+  createProjectFile,
+  parseProjectFile
+} from '../../../utils/projectFile'
+import { DEFAULT_SCAN_OPTIONS } from '../../../utils/directoryScanner'
+import { ConflictPolicy, Folder, Photo, ScriptTarget } from '../../../types'
+
+const createPhoto = (relativePath: string, size: number, date = '2024-05-01T10:00:00.000Z'): Photo => ({
+  id: relativePath,
+  url: null,
+  date,
+  relativePath,
+  metadata: { size, mimeType: 'image/jpeg', lastModified: 1714550400000, dateSource: 'exif' }
+})
+
+const createFolder = (id: string, sizes: number[], changes: Partial<Folder> = {}): Folder => ({
+  id,
+  originalName: id.split('/').pop() ?? id,
+  photos: sizes.map((size, index) => createPhoto(`${id}/IMG_${index}.jpg`, size)),
+  representativeDate: new Date('2024-05-01T10:00:00.000Z'),
+  newName: '',
+  isRenamed: false,
+  dateLogic: 'earliest',
+  ...changes
+})
+
+const settings: ProjectSettings = {
+  dateLogic: 'median',
+  scanOptions: DEFAULT_SCAN_OPTIONS,
+  nameTemplate: '{date} {name}',
+  displayTimeZone: 'Asia/Tokyo',
+  renamePhotos: true,
+  photoNameTemplate: '{seq:3}.{ext}',
+  splitByCamera: false,
+  conflictPolicy: ConflictPolicy.SKIP,
+  verifyCopies: true,
+  scriptTarget: ScriptTarget.PYTHON
+}
+
+describe('projectFile', () => {
+  it('should save the folders that were worked on and read them back', () => {
+    const folders = [
+      createFolder('2024/Kyoto', [100, 200], { newName: 'Kyoto', isRenamed: true, pinnedDate: new Date('2024-04-30T00:00:00.000Z') }),
+      createFolder('2024/Osaka', [300], { clockOffsetHours: -9 }),
+      createFolder('2024/Untouched', [400])
+    ]
+
+    const project = createProjectFile('Photos', folders, settings)
+    const result = parseProjectFile(JSON.stringify(project))
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.version).toBe(PROJECT_FILE_VERSION)
+    expect(result.data.rootFolderName).toBe('Photos')
+    expect(result.data.settings).toEqual(settings)
+    expect(result.data.folders).toEqual([
+      { id: '2024/Kyoto', newName: 'Kyoto', isRenamed: true, pinnedDate: '2024-04-30T00:00:00.000Z', photos: ['100:1714550400000', '200:1714550400000'] },
+      { id: '2024/Osaka', newName: '', isRenamed: false, clockOffsetHours: -9, photos: ['300:1714550400000'] }
+    ])
+  })
+
+  it('should reject other files and newer versions, and drop invalid settings', () => {
+    const invalidJson = parseProjectFile('{ not json')
+    expect(!invalidJson.success && invalidJson.error.code).toBe('INVALID_JSON')
+
+    const notAProject = parseProjectFile(JSON.stringify({ folders: [] }))
+    expect(!notAProject.success && notAProject.error.code).toBe('NOT_A_PROJECT')
+
+    const project = createProjectFile('Photos', [], settings)
+    const newer = parseProjectFile(JSON.stringify({ ...project, version: PROJECT_FILE_VERSION + 1 }))
+    expect(!newer.success && newer.error.code).toBe('UNSUPPORTED_VERSION')
+
+    const partial = parseProjectFile(JSON.stringify({
+      ...project,
+      settings: { ...settings, dateLogic: 'sometimes', conflictPolicy: 42, scanOptions: { maxDepth: 0 } },
+      folders: [{ id: 'Trip', newName: 'Kyoto', pinnedDate: 'yesterday' }, { id: 3 }]
+    }))
+    expect(partial.success).toBe(true)
+    if (!partial.success) return
+    expect(partial.data.settings).not.toHaveProperty('dateLogic')
+    expect(partial.data.settings).not.toHaveProperty('conflictPolicy')
+    expect(partial.data.settings).not.toHaveProperty('scanOptions')
+    expect(partial.data.settings.scriptTarget).toBe(ScriptTarget.PYTHON)
+    expect(partial.data.folders).toEqual([{ id: 'Trip', newName: 'Kyoto', isRenamed: false, photos: [] }])
+  })
+
+  it('should re-apply names by folder id, confirmed by the photos', () => {
+    const saved = createProjectFile('Photos', [
+      createFolder('2024/Kyoto', [100, 200], { newName: 'Kyoto', isRenamed: true }),
+      createFolder('2024/Osaka', [300], { newName: 'Osaka', pinnedDate: new Date('2024-04-30T00:00:00.000Z'), clockOffsetHours: 2 })
+    ], settings)
+
+    const { folders, restored } = applyProjectToFolders([
+      createFolder('2024/Kyoto', [100, 200]),
+      createFolder('2024/Osaka', [300]),
+      createFolder('2024/Nara', [500])
+    ], saved)
+
+    expect(restored).toBe(2)
+    expect(folders[0]).toMatchObject({ newName: 'Kyoto', isRenamed: true, pinnedDate: null })
+    expect(folders[1]).toMatchObject({ newName: 'Osaka', isRenamed: false, pinnedDate: new Date('2024-04-30T00:00:00.000Z'), clockOffsetHours: 2 })
+    expect(folders[1].photos[0].date).toBe('2024-05-01T12:00:00.000Z')
+    expect(folders[2]).toMatchObject({ newName: '', isRenamed: false })
+  })
+
+  it('should follow photos to a renamed folder and not trust an id with other photos', () => {
+    const saved = createProjectFile('Photos', [
+      createFolder('Trip', [100, 200, 300], { newName: 'Kyoto', isRenamed: true }),
+      createFolder('Party', [400], { newName: 'Birthday' })
+    ], settings)
+
+    const { folders, restored } = applyProjectToFolders([
+      // Renamed on disk, one photo deleted since
+      createFolder('2024-05 Kyoto', [100, 300]),
+      // Same id, but a different folder
+      createFolder('Party', [999])
+    ], saved)
+
+    expect(restored).toBe(1)
+    expect(folders[0]).toMatchObject({ newName: 'Kyoto', isRenamed: true })
+    expect(folders[1]).toMatchObject({ newName: '', isRenamed: false })
+  })
+})
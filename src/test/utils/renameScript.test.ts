@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { RenameOperation, createRenameScripts, quoteCmd, quotePowerShell, quotePython, quoteSh } from '../../../utils/renameScript'
+import { ScriptTarget } from '../../../types'
+
+const tricky = `It's 100% $HOME \`id\` !x`
+
+const operations: RenameOperation[] = [
+  { type: 'rename', path: 'in/Trip', newName: '2024-05-01 Trip' },
+  { type: 'gather', newName: 'Party', photoPaths: ['a.jpg', 'sub/b.jpg'] }
+]
+
+describe('renameScript', () => {
+  it('should keep special characters literal for every shell', () => {
+    expect(quoteCmd(`in/${tricky}`)).toBe(`"in\\It's 100%% $HOME \`id\` !x"`)
+    expect(quotePowerShell(tricky)).toBe(`'It''s 100% $HOME \`id\` !x'`)
+    expect(quotePowerShell('It’s')).toBe(`'It’’s'`)
+    expect(quoteSh(tricky)).toBe(`'It'\\''s 100% $HOME \`id\` !x'`)
+    expect(quotePython(`say "hi" \\ ${tricky}`)).toBe(`"say \\"hi\\" \\\\ ${tricky}"`)
+  })
+
+  it('should write a batch file that checks each step and logs the ones done', () => {
+    const { script, rollback } = createRenameScripts(operations, ScriptTarget.CMD, { rootFolderName: 'Photos', runId: 'r1' })
+    const lines = script.content.split('\r\n')
+
+    expect(script.filename).toBe('rename_folders.bat')
+    expect(rollback.filename).toBe('rollback_folders.bat')
+    expect(lines.slice(0, 6)).toEqual([
+      '@echo off',
+      'chcp 65001 > nul',
+      'setlocal DisableDelayedExpansion',
+      'set "LOG=rename_folders.log"',
+      'for %%I in (.) do set "HERE=%%~nxI"',
+      'if /i not "%HERE%"=="Photos" ('
+    ])
+    expect(lines).toContain('if not exist "in\\Trip" (')
+    expect(lines).toContain(') else if exist "in\\2024-05-01 Trip" (')
+    expect(lines).toContain('  move "sub\\b.jpg" "Party\\b.jpg" >nul 2>&1 && (')
+    expect(lines).toContain('    >>"%LOG%" echo done r1.4: sub\\b.jpg -^> Party\\b.jpg')
+    expect(rollback.content).toContain('findstr /b /l /c:"done r1.4:" "%LOG%" >nul && (')
+    expect(rollback.content).toContain('    move "Party\\b.jpg" "sub\\b.jpg" >nul 2>&1 && (')
+  })
+
+  it('should write a PowerShell script with literal paths and a byte order mark', () => {
+    const { script, rollback } = createRenameScripts(operations, ScriptTarget.POWERSHELL, { rootFolderName: 'Photos', runId: 'r1' })
+
+    expect(script.filename).toBe('rename_folders.ps1')
+    expect(script.content.startsWith('\ufeff')).toBe(true)
+    expect(script.content).toContain(`if ((Split-Path -Leaf (Get-Location).Path) -ne 'Photos') {`)
+    expect(script.content).toContain(`Move-Step 'r1.1' 'in/Trip' 'in/2024-05-01 Trip'`)
+    expect(script.content).toContain(`New-FolderStep 'r1.2' 'Party'`)
+    expect(script.content).not.toContain('New-Item')
+    expect(rollback.content).toContain(`Undo-Move 'r1.4' 'sub/b.jpg' 'Party/b.jpg'`)
+  })
+
+  it('should write sh and Python rollbacks that reverse the steps in reverse order', () => {
+    const sh = createRenameScripts(operations, ScriptTarget.POSIX_SH, { rootFolderName: `It's`, runId: 'r1' })
+    const python = createRenameScripts(operations, ScriptTarget.PYTHON, { runId: 'r1' })
+
+    expect(sh.script.content).toContain(`if [ "$(basename "$PWD")" != 'It'\\''s' ]; then`)
+    expect(sh.script.content.split('\n').slice(-6)).toEqual([
+      `log 'run r1'`,
+      `move 'r1.1' 'in/Trip' 'in/2024-05-01 Trip'`,
+      `makedir 'r1.2' 'Party'`,
+      `move 'r1.3' 'a.jpg' 'Party/a.jpg'`,
+      `move 'r1.4' 'sub/b.jpg' 'Party/b.jpg'`,
+      ''
+    ])
+    expect(sh.rollback.content.split('\n').slice(-6)).toEqual([
+      `log 'rollback r1'`,
+      `undo_move 'r1.4' 'sub/b.jpg' 'Party/b.jpg'`,
+      `undo_move 'r1.3' 'a.jpg' 'Party/a.jpg'`,
+      `undo_mkdir 'r1.2' 'Party'`,
+      `undo_move 'r1.1' 'in/Trip' 'in/2024-05-01 Trip'`,
+      ''
+    ])
+    expect(python.script.filename).toBe('rename_folders.py')
+    // Without a folder name there is nothing to check the working directory against
+    expect(python.script.content).not.toContain('os.getcwd()')
+    expect(python.script.content).toContain('move("r1.1", "in/Trip", "in/2024-05-01 Trip")')
+    expect(python.rollback.content).toContain('undo_mkdir("r1.2", "Party")')
+  })
+
+  it('should move gathered photos in under their new names', () => {
+    const { script } = createRenameScripts(
+      [{ type: 'gather', newName: 'Party', photoPaths: ['a.jpg', 'sub/b.jpg'], fileNames: ['Party_001.jpg', 'Party_002.jpg'] }],
+      ScriptTarget.POSIX_SH,
+      { runId: 'r1' }
+    )
+
+    expect(script.content).toContain(`move 'r1.2' 'a.jpg' 'Party/Party_001.jpg'`)
+    expect(script.content).toContain(`move 'r1.3' 'sub/b.jpg' 'Party/Party_002.jpg'`)
+  })
+})
@@ -28,11 +28,83 @@ export type ProcessingStatus = typeof ProcessingStatus[keyof typeof ProcessingSt
 // Date logic options
 export const DateLogic = {
   EARLIEST: 'earliest',
-  LATEST: 'latest'
+  LATEST: 'latest',
+  RANGE: 'range', // Name folders after the span from the first to the last day
+  MEDIAN: 'median',
+  MODE: 'mode', // Earliest photo of the day with the most photos
+  TRIMMED_EARLIEST: 'trimmedEarliest' // Earliest date after discarding outliers such as reset camera clocks
 } as const;
 
 export type DateLogic = typeof DateLogic[keyof typeof DateLogic];
 
+// Where a photo's date was read from, in order of preference
+export const PhotoDateSource = {
+  EXIF: 'exif',
+  FILENAME: 'filename',           // e.g. IMG_20240301_123456.jpg
+  FILE_MODIFIED: 'fileModified'   // File system last-modified timestamp
+} as const;
+
+export type PhotoDateSource = typeof PhotoDateSource[keyof typeof PhotoDateSource];
+
+// Folder grouping strategies for nested directory trees
+export const FolderGrouping = {
+  LEAF: 'leaf',       // Group by the folder that directly contains the photos
+  LEVEL: 'level',     // Group by the ancestor folder at a fixed depth
+  FLATTEN: 'flatten'  // Merge everything under each top-level folder
+} as const;
+
+export type FolderGrouping = typeof FolderGrouping[keyof typeof FolderGrouping];
+
+// How photos lying directly in the dropped folder are turned into folders
+export const LooseFileClustering = {
+  OFF: 'off',     // Ignore loose photos
+  DAY: 'day',
+  WEEK: 'week',
+  MONTH: 'month',
+  EVENT: 'event'  // Split wherever the gap between two photos exceeds a threshold
+} as const;
+
+export type LooseFileClustering = typeof LooseFileClustering[keyof typeof LooseFileClustering];
+
+// What happens to the original files when organizing to the computer
+export const OrganizeMode = {
+  COPY: 'copy',    // Originals stay where they are
+  MOVE: 'move',    // Originals are deleted after a verified copy
+  RENAME: 'rename' // The original folders are renamed where they are
+} as const;
+
+export type OrganizeMode = typeof OrganizeMode[keyof typeof OrganizeMode];
+
+// Shell a rename script is written for, whatever OS the app runs on
+export const ScriptTarget = {
+  CMD: 'cmd',               // Windows batch file
+  POWERSHELL: 'powershell', // Windows PowerShell 5 and PowerShell 7 on any OS
+  POSIX_SH: 'sh',           // macOS, Linux and NAS shells
+  PYTHON: 'python'          // Any OS with Python 3
+} as const;
+
+export type ScriptTarget = typeof ScriptTarget[keyof typeof ScriptTarget];
+
+// What to do when a photo's name is already taken in the target folder
+export const ConflictPolicy = {
+  SKIP: 'skip',            // Keep the existing file, leave the photo out
+  OVERWRITE: 'overwrite',  // Replace the existing file
+  RENAME: 'rename',        // Save the photo as "name (2).jpg"
+  KEEP_NEWER: 'keepNewer', // Keep whichever was modified last
+  MERGE: 'merge'           // Skip identical files, save differing ones with a suffix
+} as const;
+
+export type ConflictPolicy = typeof ConflictPolicy[keyof typeof ConflictPolicy];
+
+// Options controlling how deep a dropped folder is scanned and how photos are grouped
+export interface ScanOptions {
+  readonly maxDepth: number; // 1 = immediate sub-folders only
+  readonly grouping: FolderGrouping;
+  readonly groupLevel: number; // Used by the 'level' strategy, 1 = top-level folders
+  readonly looseFileClustering: LooseFileClustering;
+  readonly eventGapHours: number; // Used by the 'event' clustering
+}
+
 // Supported image MIME types
 export const SupportedImageMimeType = {
   JPEG: 'image/jpeg',
@@ -68,6 +140,12 @@ export const RAW_EXTENSIONS = [
 
 export type RAWExtension = typeof RAW_EXTENSIONS[number];
 
+// Decimal degrees, north and east positive
+export interface GeoPoint {
+  readonly latitude: number;
+  readonly longitude: number;
+}
+
 // Photo interface with stricter typing - keeping compatible with existing code
 export interface Photo {
   readonly id: string; // PhotoId for strict typing, but string for compatibility
@@ -76,6 +154,7 @@ export interface Photo {
   readonly file?: File; // Optional for compatibility
   readonly isRaw?: boolean; // Flag to indicate if this is a RAW file
   readonly thumbnailUrl?: string; // RAW-specific thumbnail URL
+  readonly relativePath?: string; // Path relative to the dropped root folder, e.g. "2023/Trip/Day1/IMG_0001.jpg"
   readonly metadata?: Readonly<{
     width?: number;
     height?: number;
@@ -83,17 +162,24 @@ export interface Photo {
     mimeType: SupportedImageMimeType;
     lastModified: number;
     exifData?: Record<string, unknown>;
+    dateSource?: PhotoDateSource;
+    gps?: GeoPoint;
   }>;
 }
 
 // Folder interface with stricter typing - keeping compatible with existing code
 export interface Folder {
-  readonly id: string; // FolderId for strict typing, but string for compatibility
+  readonly id: string; // Relative path from the dropped root folder, e.g. "2023/Trip/Day1"
   readonly originalName: string; // NonEmptyString for strict typing, but string for compatibility
   readonly photos: readonly Photo[];
   readonly representativeDate: Date | null; // Allow null for backward compatibility
   newName: string;
   isRenamed: boolean;
+  readonly isSynthetic?: boolean; // Created from loose photos; does not exist on disk yet
+  readonly dateLogic?: DateLogic; // Logic the representative date was computed with
+  pinnedDate?: Date | null; // User override of the representative date, used for every output
+  clockOffsetHours?: number; // Correction already applied to the photo dates for a mis-set camera clock
+  readonly centroid?: GeoPoint; // Center of the photos' GPS positions
   readonly metadata?: Readonly<{
     totalSize: number;
     photoCount: number;
@@ -101,6 +187,7 @@ export interface Folder {
       earliest: Date;
       latest: Date;
     };
+    outlierCount?: number; // Photos whose dates were ignored as outliers
   }>;
 }
 
@@ -18,6 +18,8 @@ import {
   AppError,
   MemoryStats
 } from '../types';
+import type { FolderNameOptions } from '../utils/folderNameTemplate';
+import type { PhotoNameOptions } from '../utils/photoNameTemplate';
 
 // Base component props for consistent typing
 export interface BaseComponentProps extends ComponentWithClassName {
@@ -78,6 +80,11 @@ export interface FolderCardProps extends BaseComponentProps {
   readonly folder: Folder;
   readonly onNameChange: (folderId: string, newName: string) => void;
   readonly onEdit: (folderId: string) => void;
+  readonly onPinDate?: (folderId: string, date: Date | null) => void; // null clears the pin
+  readonly onClockOffsetChange?: (folderId: string, offsetHours: number) => void;
+  readonly nameOptions?: FolderNameOptions;
+  readonly photoNameOptions?: PhotoNameOptions; // Set when the photos are renamed as well
+  readonly sequence?: number; // 1-based position in the folder list, used by the {seq} token
   readonly maxThumbnails?: number;
   readonly showMetadata?: boolean;
   readonly isCompact?: boolean;
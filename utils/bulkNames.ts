@@ -0,0 +1,183 @@
+// Bulk naming from a spreadsheet: folder names prepared as CSV or pasted from the clipboard, where
+// cells are tab-separated. Rows are keyed by folder path, original folder name or date; the export
+// writes the same columns so a list can go out to a spreadsheet and come back.
+
+import { Folder } from '../types';
+import { formatDatePattern } from './folderNameTemplate';
+import { toDelimitedRow } from './organizePreview';
+
+const DATE_PATTERN = 'YYYY-MM-DD';
+
+// Header of the export; the import also recognises the alternatives in HEADER_ALIASES
+const EXPORT_HEADER = ['folder', 'original name', 'date', 'new name'];
+
+type BulkNameColumn = 'id' | 'originalName' | 'date' | 'newName';
+
+// Compared without case, spaces, hyphens and underscores
+const HEADER_ALIASES: Record<string, BulkNameColumn> = {
+  folder: 'id',
+  path: 'id',
+  folderpath: 'id',
+  id: 'id',
+  originalname: 'originalName',
+  original: 'originalName',
+  name: 'originalName',
+  元の名前: 'originalName',
+  フォルダ名: 'originalName',
+  date: 'date',
+  日付: 'date',
+  newname: 'newName',
+  new: 'newName',
+  rename: 'newName',
+  新しい名前: 'newName'
+};
+
+const KEY_COLUMNS = ['id', 'originalName', 'date'] as const;
+
+type BulkNameKeyColumn = typeof KEY_COLUMNS[number];
+
+export type BulkNameStatus =
+  | 'matched'
+  | 'unmatched' // No folder has the key
+  | 'ambiguous' // Several folders have it, e.g. a date shared by two folders
+  | 'duplicate'; // An earlier row already names the folder
+
+export interface BulkNameRow {
+  readonly row: number; // 1-based, header included
+  readonly key: string;
+  readonly newName: string;
+  readonly folderIds: readonly string[]; // Folders with the key
+  readonly status: BulkNameStatus;
+}
+
+// Tab-separated when the first line has a tab, as spreadsheets copy cells; otherwise CSV, with
+// semicolons for spreadsheets whose locale uses the comma as decimal separator
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes('\t')) return '\t';
+  return !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+};
+
+// Quoted fields may contain the delimiter, line breaks and doubled quotes (RFC 4180)
+export const parseDelimitedText = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// 2024-05-01, 2024/5/1, 2024.05.01 and 20240501 all become 2024-05-01
+const normalizeDateKey = (value: string): string | null => {
+  const match = value.match(/^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})$/) ?? value.match(/^(\d{4})()(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[3].padStart(2, '0')}-${match[4].padStart(2, '0')}` : null;
+};
+
+const getFolderDateKey = (folder: Folder, timeZone?: string): string => {
+  const date = folder.pinnedDate ?? folder.representativeDate;
+  return date ? formatDatePattern(date, DATE_PATTERN, timeZone) : '';
+};
+
+const normalizeHeader = (cell: string): string => cell.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+// Column of each field when the first row is a header naming the new name and at least one key
+const readHeader = (cells: readonly string[]): Partial<Record<BulkNameColumn, number>> | null => {
+  const columns: Partial<Record<BulkNameColumn, number>> = {};
+  cells.forEach((cell, index) => {
+    const column = HEADER_ALIASES[normalizeHeader(cell)];
+    if (column && columns[column] === undefined) columns[column] = index;
+  });
+  return columns.newName !== undefined && KEY_COLUMNS.some(column => columns[column] !== undefined) ? columns : null;
+};
+
+export const parseBulkNames = (text: string, folders: readonly Folder[], timeZone?: string): BulkNameRow[] => {
+  // Spreadsheets save CSV with a byte order mark
+  const rows = parseDelimitedText(text.replace(/^\ufeff/, ''));
+  const header = rows.length > 0 ? readHeader(rows[0]) : null;
+
+  const findFolders = (column: BulkNameKeyColumn, key: string): string[] => {
+    switch (column) {
+      case 'id':
+        return folders.filter(folder => folder.id === key).map(folder => folder.id);
+      case 'originalName':
+        return folders.filter(folder => folder.originalName.toLowerCase() === key.toLowerCase()).map(folder => folder.id);
+      case 'date': {
+        const date = normalizeDateKey(key);
+        return date ? folders.filter(folder => getFolderDateKey(folder, timeZone) === date).map(folder => folder.id) : [];
+      }
+    }
+  };
+
+  const named = new Set<string>();
+  const result: BulkNameRow[] = [];
+  rows.forEach((cells, index) => {
+    if (header && index === 0) return;
+    const cell = (column: number | undefined) => (column === undefined ? '' : (cells[column] ?? '').trim());
+
+    // Without a header: the key, then the new name. Keys are tried from the most specific, so a
+    // folder renamed on disk is still found by its date
+    const newName = header ? cell(header.newName) : cell(1);
+    const keys = header
+      ? KEY_COLUMNS.map(column => ({ column, key: cell(header[column]) })).filter(({ key }) => key)
+      : KEY_COLUMNS.map(column => ({ column, key: cell(0) })).filter(({ key }) => key);
+    // Blank names, e.g. folders left empty in an exported list, name nothing
+    if (!newName || keys.length === 0) return;
+
+    const found = keys.map(({ key, column }) => ({ key, folderIds: findFolders(column, key) }));
+    const { key, folderIds } = found.find(match => match.folderIds.length > 0) ?? found[0];
+    const status: BulkNameStatus = folderIds.length === 0
+      ? 'unmatched'
+      : folderIds.length > 1
+        ? 'ambiguous'
+        : named.has(folderIds[0]) ? 'duplicate' : 'matched';
+    if (status === 'matched') named.add(folderIds[0]);
+
+    result.push({ row: index + 1, key, newName, folderIds, status });
+  });
+  return result;
+};
+
+export const foldersToCsv = (folders: readonly Folder[], timeZone?: string): string => {
+  const rows = [
+    toDelimitedRow(EXPORT_HEADER),
+    ...folders.map(folder => toDelimitedRow([folder.id, folder.originalName, getFolderDateKey(folder, timeZone), folder.newName]))
+  ];
+  // The byte order mark makes Excel read the file as UTF-8, which non-ASCII names need
+  return '\ufeff' + rows.join('\r\n') + '\r\n';
+};
+
+export const createFolderListBlob = (folders: readonly Folder[], timeZone?: string): { blob: Blob; filename: string } => ({
+  blob: new Blob([foldersToCsv(folders, timeZone)], { type: 'text/csv;charset=utf-8' }),
+  filename: 'folder-names.csv'
+});
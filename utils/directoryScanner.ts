@@ -0,0 +1,150 @@
+// Recursive directory scanning and photo grouping for dropped folders
+
+import { FolderGrouping, LooseFileClustering, ScanOptions } from '../types';
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  maxDepth: 1,
+  grouping: FolderGrouping.LEAF,
+  groupLevel: 1,
+  looseFileClustering: LooseFileClustering.OFF,
+  eventGapHours: 6
+};
+
+// Id prefix of folders generated from loose photos, e.g. "auto:2024-03-01"
+export const AUTO_FOLDER_ID_PREFIX = 'auto:';
+
+export const IMAGE_FILE_PATTERN = /\.(jpg|jpeg|png|heic|webp|gif|bmp|tiff|cr2|cr3|nef|nrw|arw|srf|sr2|dng|raf|orf|rw2|pef|srw|x3f|kdc|dcr|mrw|3fr|fff|iiq|rwl)$/i;
+
+// An image file found while scanning, with the directory it was found in
+export interface ScannedFile {
+  readonly entry: FileSystemFileEntry;
+  readonly directoryPath: string; // Relative to the root, '' for files directly in the root
+}
+
+export interface ScanLevelProgress {
+  readonly level: number;
+  readonly maxDepth: number;
+  readonly scannedDirectories: number;
+  readonly totalDirectories: number;
+  readonly foundFiles: number;
+}
+
+export interface DirectoryScanResult {
+  readonly files: ScannedFile[];
+  readonly subDirectoryCount: number; // Directories found directly under the root
+}
+
+// A group of files that will become one Folder
+export interface ScannedFileGroup {
+  readonly id: string;
+  readonly originalName: string;
+  readonly files: ScannedFile[];
+}
+
+export const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => {
+    reader.readEntries(resolve, reject);
+  });
+};
+
+// readEntries returns results in chunks, so keep reading until an empty batch
+export const readAllEntries = async (dirReader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  const allEntries: FileSystemEntry[] = [];
+  let currentEntries: FileSystemEntry[];
+  do {
+    currentEntries = await readEntries(dirReader);
+    allEntries.push(...currentEntries);
+  } while (currentEntries.length > 0);
+  return allEntries;
+};
+
+export const getFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    entry.file(resolve, reject);
+  });
+};
+
+export const joinPath = (...segments: string[]): string => {
+  return segments.filter(segment => segment.length > 0).join('/');
+};
+
+// Walk the tree breadth-first, one level at a time, down to maxDepth
+export const scanDirectoryTree = async (
+  rootEntry: FileSystemDirectoryEntry,
+  maxDepth: number,
+  onLevelProgress?: (progress: ScanLevelProgress) => void
+): Promise<DirectoryScanResult> => {
+  const files: ScannedFile[] = [];
+  let subDirectoryCount = 0;
+  let currentLevel: Array<{ entry: FileSystemDirectoryEntry; path: string }> = [{ entry: rootEntry, path: '' }];
+
+  for (let level = 0; level <= maxDepth && currentLevel.length > 0; level++) {
+    const nextLevel: typeof currentLevel = [];
+
+    for (let i = 0; i < currentLevel.length; i++) {
+      const { entry, path } = currentLevel[i];
+      const entries = await readAllEntries(entry.createReader());
+
+      for (const child of entries) {
+        if (child.isDirectory) {
+          if (level === 0) subDirectoryCount++;
+          if (level < maxDepth) {
+            nextLevel.push({ entry: child as FileSystemDirectoryEntry, path: joinPath(path, child.name) });
+          }
+        } else if (child.isFile && IMAGE_FILE_PATTERN.test(child.name)) {
+          files.push({ entry: child as FileSystemFileEntry, directoryPath: path });
+        }
+      }
+
+      onLevelProgress?.({
+        level,
+        maxDepth,
+        scannedDirectories: i + 1,
+        totalDirectories: currentLevel.length,
+        foundFiles: files.length
+      });
+    }
+
+    currentLevel = nextLevel;
+  }
+
+  return { files, subDirectoryCount };
+};
+
+// Resolve which group a directory belongs to; null for the root itself
+export const getGroupKey = (directoryPath: string, options: ScanOptions): string | null => {
+  if (directoryPath === '') return null;
+
+  switch (options.grouping) {
+    case FolderGrouping.LEAF:
+      return directoryPath;
+    case FolderGrouping.FLATTEN:
+      return directoryPath.split('/')[0];
+    case FolderGrouping.LEVEL: {
+      const level = Math.max(1, options.groupLevel);
+      return directoryPath.split('/').slice(0, level).join('/');
+    }
+    default:
+      return directoryPath;
+  }
+};
+
+// Group scanned files by strategy, keeping the relative path of each group as its id
+export const groupScannedFiles = (files: readonly ScannedFile[], options: ScanOptions): ScannedFileGroup[] => {
+  const groups = new Map<string, ScannedFile[]>();
+
+  for (const file of files) {
+    const key = getGroupKey(file.directoryPath, options);
+    if (key === null) continue;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(file);
+  }
+
+  return Array.from(groups, ([id, groupFiles]) => ({
+    id,
+    originalName: id.split('/').pop() || id,
+    files: groupFiles
+  }));
+};
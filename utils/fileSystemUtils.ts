@@ -3,7 +3,8 @@
 import {
   ValidFolderName,
   ValidFileName,
-  ProcessingProgress,
+  OrganizeMode,
+  ConflictPolicy,
   Result,
   AsyncResult,
   SupportedImageMimeType
@@ -19,12 +20,202 @@ import {
   validateArray
 } from './typeGuards';
 
+// Progress of a file system operation, shown in ProgressModal
+export interface ProcessingProgress {
+  readonly current: number;
+  readonly total: number;
+  readonly status: 'preparing' | 'creating' | 'moving' | 'renaming' | 'verifying' | 'cleaning' | 'reverting' | 'completed' | 'error';
+  readonly currentFile?: string;
+  readonly error?: string;
+  // Measured while copying, once there is enough to go on
+  readonly bytesPerSecond?: number;
+  readonly secondsRemaining?: number;
+}
+
 export type ProgressCallback = (progress: ProcessingProgress) => void;
 
 // Strictly typed folder organization structure
 export interface OrganizationFolder {
   readonly name: ValidFolderName;
   readonly photos: readonly File[];
+  // Camera of each photo, parallel to photos; used to split the folder into per-device subfolders
+  readonly devices?: readonly string[];
+  // Path of each photo inside the source folder, parallel to photos; required when moving
+  readonly sourcePaths?: readonly string[];
+  // Name each photo is written under, parallel to photos; its own name when absent
+  readonly fileNames?: readonly string[];
+}
+
+export interface OrganizeOptions {
+  readonly splitByDevice?: boolean;
+  readonly mode?: OrganizeMode;
+  // The dropped folder the photos come from; moving deletes the originals from it
+  readonly sourceDirectoryHandle?: FileSystemDirectoryHandle;
+  // Chosen beforehand, e.g. to scan it for conflicts; otherwise the user is asked
+  readonly targetDirectoryHandle?: FileSystemDirectoryHandle;
+  readonly conflictPolicy?: ConflictPolicy;
+  // Told about the plan before anything is written and about each photo once it is done,
+  // so an interrupted run can be resumed (see organizeJournal)
+  readonly onPlanned?: (plan: OrganizePlan, targetDirectoryHandle: FileSystemDirectoryHandle) => Promise<void>;
+  readonly onFileDone?: (file: CompletedFile) => Promise<void>;
+  readonly onFolderCreated?: (path: string) => Promise<void>;
+  readonly onFileFailed?: (failure: FailedFile) => void;
+  readonly signal?: AbortSignal;
+  readonly concurrency?: number;
+  readonly verify?: boolean; // Read every copy back and compare its SHA-256 with the original's; always done when moving
+}
+
+// Originals removed from a source folder after their copy was verified
+export interface MoveSource {
+  readonly root: FileSystemDirectoryHandle;
+  readonly paths: readonly string[];
+}
+
+export interface MoveFilesOptions {
+  readonly source?: MoveSource;
+  readonly names?: readonly string[]; // Name each file is written under, parallel to files; its own name when absent
+  readonly conflictPolicy?: ConflictPolicy;
+  // Names an interrupted run already wrote to the folder; treated like names written by this call
+  readonly reservedNames?: readonly string[];
+  readonly onFileDone?: (file: CompletedFile) => Promise<void>;
+  // A copy that did not match its original; the run goes on with the next photo
+  readonly onFileFailed?: (index: number, name: string, error: FileSystemError, outcome: WrittenOutcome) => void;
+  // Stops after the photos already finished; copies that are not finished are removed again
+  readonly signal?: AbortSignal;
+  readonly concurrency?: number; // Photos copied at the same time
+  readonly throughput?: ThroughputMeter; // Shared when the photos are part of a larger run
+  readonly verify?: boolean;
+}
+
+// Copy speed and time left, measured over the bytes written so far
+export interface ThroughputMeter {
+  readonly add: (bytes: number) => void;
+  readonly skip: (bytes: number) => void; // Planned bytes that will not be written after all
+  readonly estimate: () => Pick<ProcessingProgress, 'bytesPerSecond' | 'secondsRemaining'>;
+}
+
+// What happened to a photo: written as is, over an existing file, under a suffixed name,
+// left out in favour of the existing file, found to be already there, or not copied because the
+// copy did not match
+export type FileOutcome = 'copied' | 'overwritten' | 'renamed' | 'skipped' | 'duplicate' | 'failed';
+
+export type OrganizeSummary = Readonly<Record<FileOutcome, number>>;
+
+// Outcomes that leave a file written by the run in the target
+export type WrittenOutcome = Extract<FileOutcome, 'copied' | 'overwritten' | 'renamed'>;
+
+// A photo that is done, with the name it was written under unless it was skipped or a duplicate
+export interface CompletedFile {
+  readonly outcome: FileOutcome;
+  readonly name?: string;
+}
+
+// A photo whose copy did not match the original; the copy was removed and the original kept
+export interface FailedFile {
+  readonly path: readonly ValidFolderName[];
+  readonly name: string; // Name the copy was written under
+  readonly file: File;
+  readonly sourcePath?: string;
+  readonly reason: string;
+  readonly planIndex: number; // Position of the photo in the run's plan, as in its journal
+  readonly outcome: WrittenOutcome; // What the copy would have been had it matched
+}
+
+// What an organize run will write, in order; plain data so it can be stored and resumed
+export interface PlannedFile {
+  readonly name: string;
+  readonly size: number;
+  readonly lastModified: number;
+  readonly sourcePath?: string; // Relative to the dropped folder
+}
+
+export interface PlannedFolder {
+  readonly path: readonly ValidFolderName[]; // e.g. ["2024-05-01 Trip", "Pixel 8"]
+  readonly files: readonly PlannedFile[];
+}
+
+export interface OrganizePlan {
+  readonly folders: readonly PlannedFolder[];
+}
+
+export interface PlanExecutionOptions {
+  readonly mode?: OrganizeMode;
+  readonly sourceDirectoryHandle?: FileSystemDirectoryHandle; // Originals are deleted from it when moving
+  readonly conflictPolicy?: ConflictPolicy;
+  // Photos finished by an interrupted run, in plan order; execution continues after them
+  readonly completed?: readonly CompletedFile[];
+  readonly onFileDone?: (file: CompletedFile) => Promise<void>;
+  // Only folders that did not exist before, e.g. "2024-05-01 Trip/Pixel 8"
+  readonly onFolderCreated?: (path: string) => Promise<void>;
+  readonly onFileFailed?: (failure: FailedFile) => void;
+  readonly signal?: AbortSignal;
+  readonly concurrency?: number;
+  readonly verify?: boolean;
+}
+
+// One step of undoing an organize run; path is relative to the target folder, sourcePath to the dropped folder
+export type UndoAction =
+  | { readonly type: 'deleteCopy'; readonly path: string; readonly size: number }
+  | { readonly type: 'moveBack'; readonly path: string; readonly sourcePath: string; readonly size: number }
+  | { readonly type: 'copyBack'; readonly path: string; readonly sourcePath: string; readonly size: number }
+  | { readonly type: 'removeFolder'; readonly path: string };
+
+export interface UndoSummary {
+  readonly reverted: number;
+  // Left alone because they changed since organizing, are gone, or something is in the way
+  readonly kept: readonly string[];
+}
+
+// Names already taken in the target or by an earlier photo of the plan, found before anything is written
+export interface ConflictScan {
+  readonly existingFolders: readonly string[];
+  readonly conflictingFiles: readonly string[]; // Each name once, e.g. "2024-05-01 Trip/IMG_0001.jpg"
+}
+
+// A photo of the dry run: where it will be written and whether that name is taken by then
+export interface PreviewFile {
+  readonly destination: string; // Relative to the target folder, e.g. "2024-05-01 Trip/IMG_0001.jpg"
+  readonly size: number;
+  readonly sourcePath?: string;
+  readonly conflict: boolean;
+}
+
+// A folder left out of the plan because its input did not validate
+export interface InvalidFolder {
+  readonly name: string;
+  readonly reason: string;
+}
+
+// Dry run of organizing, shown before anything is written
+export interface OrganizePreview {
+  readonly plan: OrganizePlan;
+  readonly newFolders: readonly string[]; // Every level that does not exist yet, e.g. "Trip/Pixel 8"
+  readonly files: readonly PreviewFile[];
+  readonly totalBytes: number;
+  readonly conflicts: ConflictScan;
+  readonly invalidFolders: readonly InvalidFolder[];
+}
+
+// One entry of the in-place rename list; paths are relative to the selected root folder
+export interface InPlaceRename {
+  readonly newName: string;
+  readonly path?: string; // Existing folder, e.g. "2023/Trip"
+  readonly photoPaths?: readonly string[]; // Photos of the folder; auto-grouped folders gather them into a new folder next to them
+  readonly fileNames?: readonly string[]; // New name of each photo in photoPaths; photos keep their names without it
+}
+
+// A rename done on disk, with the path the folder has now
+export interface CompletedRename {
+  readonly index: number; // Position in the rename list
+  readonly path: string;
+  readonly photoPaths: readonly string[]; // Where the photos of the rename are now, in the order of its photoPaths
+}
+
+// What an in-place rename run changed. Renames are not rolled back when one fails, so the
+// ones done before it are reported alongside the failure.
+export interface InPlaceRenameReport {
+  readonly renamed: readonly CompletedRename[];
+  readonly failure?: FileSystemError;
 }
 
 // File system operation results
@@ -34,7 +225,7 @@ export type FileSystemResult<T> = AsyncResult<T, FileSystemError>;
 export class FileSystemError extends Error {
   constructor(
     message: string,
-    public readonly code: 'NOT_SUPPORTED' | 'PERMISSION_DENIED' | 'INVALID_NAME' | 'CREATE_FAILED' | 'COPY_FAILED' | 'VALIDATION_FAILED',
+    public readonly code: 'NOT_SUPPORTED' | 'PERMISSION_DENIED' | 'INVALID_NAME' | 'CREATE_FAILED' | 'COPY_FAILED' | 'VERIFY_FAILED' | 'DELETE_FAILED' | 'ALREADY_EXISTS' | 'NOT_FOUND' | 'VALIDATION_FAILED' | 'CANCELLED',
     public readonly details?: string
   ) {
     super(message);
@@ -42,95 +233,168 @@ export class FileSystemError extends Error {
   }
 }
 
+const createCancelledError = (): FileSystemError => {
+  return new FileSystemError('Organizing was cancelled', 'CANCELLED', 'Stopped by the user');
+};
+
+// Photos copied at the same time; more mostly adds contention on a local disk
+export const DEFAULT_COPY_CONCURRENCY = 3;
+
+// Small enough for cancelling to take effect quickly on large RAW and video files
+const COPY_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export const createThroughputMeter = (totalBytes: number, now: () => number = Date.now): ThroughputMeter => {
+  const startedAt = now();
+  let written = 0;
+  let remaining = totalBytes;
+
+  return {
+    add: (bytes) => {
+      written += bytes;
+      remaining -= bytes;
+    },
+    skip: (bytes) => {
+      remaining -= bytes;
+    },
+    estimate: () => {
+      const seconds = (now() - startedAt) / 1000;
+      // The first second is mostly setup, so the speed would be way off
+      if (written === 0 || seconds < 1) return {};
+      const bytesPerSecond = written / seconds;
+      return { bytesPerSecond, secondsRemaining: Math.ceil(Math.max(0, remaining) / bytesPerSecond) };
+    }
+  };
+};
+
+// Runs tasks one at a time, in the order they were queued
+const createSerialQueue = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
+
 // Check if File System Access API is supported
 export const isFileSystemAccessSupported = (): boolean => {
   return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
 };
 
-// Type-safe validation of folder organization input
-export const validateOrganizationFolders = (
-  folders: unknown[]
-): Result<OrganizationFolder[]> => {
-  const validatedFolders: OrganizationFolder[] = [];
+// One folder of the input; i is its position, used in the error messages
+const validateOrganizationFolder = (
+  folder: unknown,
+  i: number
+): Result<OrganizationFolder, FileSystemError> => {
+  if (!folder || typeof folder !== 'object') {
+    return createErrorResult(
+      new FileSystemError(
+        `Invalid folder at index ${i}`,
+        'VALIDATION_FAILED',
+        'Expected object with name and photos properties'
+      )
+    );
+  }
   
-  for (let i = 0; i < folders.length; i++) {
-    const folder = folders[i];
-    
-    if (!folder || typeof folder !== 'object') {
+  const obj = folder as Record<string, unknown>;
+  
+  // Validate folder name
+  if (typeof obj.name !== 'string') {
+    return createErrorResult(
+      new FileSystemError(
+        `Invalid folder name at index ${i}`,
+        'VALIDATION_FAILED',
+        'Expected string folder name'
+      )
+    );
+  }
+  
+  const validFolderName = createValidFolderName(obj.name);
+  if (!validFolderName) {
+    return createErrorResult(
+      new FileSystemError(
+        `Invalid folder name "${obj.name}" at index ${i}`,
+        'INVALID_NAME',
+        'Folder name contains invalid characters or is reserved'
+      )
+    );
+  }
+  
+  // Validate photos array
+  if (!Array.isArray(obj.photos)) {
+    return createErrorResult(
+      new FileSystemError(
+        `Invalid photos array at index ${i}`,
+        'VALIDATION_FAILED',
+        'Expected array of File objects'
+      )
+    );
+  }
+  
+  const photos: File[] = [];
+  for (let j = 0; j < obj.photos.length; j++) {
+    const photo = obj.photos[j];
+    if (!(photo instanceof File)) {
       return createErrorResult(
         new FileSystemError(
-          `Invalid folder at index ${i}`,
+          `Invalid photo at folder ${i}, photo ${j}`,
           'VALIDATION_FAILED',
-          'Expected object with name and photos properties'
+          'Expected File object'
         )
       );
     }
     
-    const obj = folder as Record<string, unknown>;
-    
-    // Validate folder name
-    if (typeof obj.name !== 'string') {
+    if (!isImageFile(photo)) {
       return createErrorResult(
         new FileSystemError(
-          `Invalid folder name at index ${i}`,
+          `Unsupported file type "${photo.type}" for ${photo.name}`,
           'VALIDATION_FAILED',
-          'Expected string folder name'
-        )
-      );
-    }
-    
-    const validFolderName = createValidFolderName(obj.name);
-    if (!validFolderName) {
-      return createErrorResult(
-        new FileSystemError(
-          `Invalid folder name "${obj.name}" at index ${i}`,
-          'INVALID_NAME',
-          'Folder name contains invalid characters or is reserved'
+          'Only supported image types are allowed'
         )
       );
     }
     
-    // Validate photos array
-    if (!Array.isArray(obj.photos)) {
+    photos.push(photo);
+  }
+
+  // Validate optional per-photo device names, source paths and file names
+  for (const key of ['devices', 'sourcePaths', 'fileNames'] as const) {
+    const values = obj[key];
+    if (
+      values !== undefined &&
+      (!Array.isArray(values) || values.length !== photos.length || !values.every(value => typeof value === 'string'))
+    ) {
       return createErrorResult(
         new FileSystemError(
-          `Invalid photos array at index ${i}`,
+          `Invalid ${key} array at index ${i}`,
           'VALIDATION_FAILED',
-          'Expected array of File objects'
+          'Expected one string per photo'
         )
       );
     }
-    
-    const photos: File[] = [];
-    for (let j = 0; j < obj.photos.length; j++) {
-      const photo = obj.photos[j];
-      if (!(photo instanceof File)) {
-        return createErrorResult(
-          new FileSystemError(
-            `Invalid photo at folder ${i}, photo ${j}`,
-            'VALIDATION_FAILED',
-            'Expected File object'
-          )
-        );
-      }
-      
-      if (!isImageFile(photo)) {
-        return createErrorResult(
-          new FileSystemError(
-            `Unsupported file type "${photo.type}" for ${photo.name}`,
-            'VALIDATION_FAILED',
-            'Only supported image types are allowed'
-          )
-        );
-      }
-      
-      photos.push(photo);
+  }
+  
+  return createSuccessResult({
+    name: validFolderName,
+    photos: Object.freeze(photos),
+    devices: Array.isArray(obj.devices) ? Object.freeze([...obj.devices as string[]]) : undefined,
+    sourcePaths: Array.isArray(obj.sourcePaths) ? Object.freeze([...obj.sourcePaths as string[]]) : undefined,
+    fileNames: Array.isArray(obj.fileNames) ? Object.freeze([...obj.fileNames as string[]]) : undefined
+  });
+};
+
+// Type-safe validation of folder organization input
+export const validateOrganizationFolders = (
+  folders: unknown[]
+): Result<OrganizationFolder[], FileSystemError> => {
+  const validatedFolders: OrganizationFolder[] = [];
+  
+  for (let i = 0; i < folders.length; i++) {
+    const result = validateOrganizationFolder(folders[i], i);
+    if (!result.success) {
+      return result;
     }
-    
-    validatedFolders.push({
-      name: validFolderName,
-      photos: Object.freeze(photos)
-    });
+    validatedFolders.push(result.data);
   }
   
   return createSuccessResult(validatedFolders);
@@ -168,14 +432,29 @@ export const createFolder = async (
   }
 };
 
-// Copy a file to a new location with type safety
+// Copy a file to a new location with type safety.
+// Written in chunks so a cancelled copy stops early; an aborted stream leaves the file as it was.
 const copyFile = async (
-  sourceFile: File & { type: SupportedImageMimeType },
-  targetHandle: FileSystemFileHandle
+  sourceFile: File,
+  targetHandle: FileSystemFileHandle,
+  options: { signal?: AbortSignal; onBytesWritten?: (bytes: number) => void } = {}
 ): FileSystemResult<void> => {
   try {
     const writable = await targetHandle.createWritable();
-    await writable.write(sourceFile);
+    try {
+      for (let offset = 0; offset < sourceFile.size; offset += COPY_CHUNK_SIZE) {
+        if (options.signal?.aborted) {
+          await writable.abort();
+          return createErrorResult(createCancelledError());
+        }
+        const chunk = sourceFile.slice(offset, offset + COPY_CHUNK_SIZE);
+        await writable.write(chunk);
+        options.onBytesWritten?.(chunk.size);
+      }
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
     await writable.close();
     return createSuccessResult(undefined);
   } catch (error) {
@@ -189,8 +468,263 @@ const copyFile = async (
   }
 };
 
+const hashSlice = async (blob: Blob, offset: number): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.slice(offset, offset + COPY_CHUNK_SIZE).arrayBuffer()));
+};
+
+// Compare the SHA-256 of two files slice by slice. Web Crypto cannot hash a stream, and hashing whole
+// files would hold them in memory, so each slice is hashed on its own and the digests are compared.
+export const isSameContent = async (a: Blob, b: Blob): Promise<boolean> => {
+  if (a.size !== b.size) return false;
+
+  for (let offset = 0; offset < a.size; offset += COPY_CHUNK_SIZE) {
+    const [digestA, digestB] = await Promise.all([hashSlice(a, offset), hashSlice(b, offset)]);
+    if (digestA.some((byte, index) => byte !== digestB[index])) return false;
+  }
+  return true;
+};
+
+// Read the copy back and compare size and SHA-256 with the original
+const verifyCopiedFile = async (
+  sourceFile: File,
+  targetHandle: FileSystemFileHandle
+): FileSystemResult<void> => {
+  try {
+    const copiedFile = await targetHandle.getFile();
+    if (copiedFile.size !== sourceFile.size) {
+      return createErrorResult(
+        new FileSystemError(
+          `Copy of "${sourceFile.name}" does not match the original`,
+          'VERIFY_FAILED',
+          `Expected ${sourceFile.size} bytes, found ${copiedFile.size}`
+        )
+      );
+    }
+    if (!await isSameContent(copiedFile, sourceFile)) {
+      return createErrorResult(
+        new FileSystemError(
+          `Copy of "${sourceFile.name}" does not match the original`,
+          'VERIFY_FAILED',
+          'Content mismatch: same size, but the SHA-256 differs'
+        )
+      );
+    }
+    return createSuccessResult(undefined);
+  } catch (error) {
+    return createErrorResult(
+      new FileSystemError(
+        `Failed to verify copy of "${sourceFile.name}"`,
+        'VERIFY_FAILED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+};
+
+const getDirectoryAtPath = async (
+  root: FileSystemDirectoryHandle,
+  segments: readonly string[],
+  create = false
+): Promise<FileSystemDirectoryHandle> => {
+  let handle = root;
+  for (const segment of segments) {
+    handle = await handle.getDirectoryHandle(segment, { create });
+  }
+  return handle;
+};
+
+export const getFileAtPath = async (root: FileSystemDirectoryHandle, path: string): Promise<FileSystemFileHandle> => {
+  const segments = path.split('/');
+  const parent = await getDirectoryAtPath(root, segments.slice(0, -1));
+  return parent.getFileHandle(segments[segments.length - 1]);
+};
+
+const removeSourceFile = async (root: FileSystemDirectoryHandle, path: string): FileSystemResult<void> => {
+  try {
+    const segments = path.split('/');
+    const parent = await getDirectoryAtPath(root, segments.slice(0, -1));
+    await parent.removeEntry(segments[segments.length - 1]);
+    return createSuccessResult(undefined);
+  } catch (error) {
+    return createErrorResult(
+      new FileSystemError(
+        `Failed to remove original "${path}"`,
+        'DELETE_FAILED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+};
+
+// Files the OS drops into folders; a folder holding only these counts as empty
+const DISPOSABLE_FILE_NAMES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+const isFolderEmpty = async (folder: FileSystemDirectoryHandle): Promise<boolean> => {
+  for await (const [entryName, entry] of folder.entries()) {
+    if (entry.kind !== 'file' || !DISPOSABLE_FILE_NAMES.has(entryName)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Remove source folders left empty by a move, deepest first so parents emptied in turn go too.
+// Best effort: folders that cannot be read or removed are left alone.
+const removeEmptySourceFolders = async (
+  root: FileSystemDirectoryHandle,
+  filePaths: readonly string[]
+): Promise<number> => {
+  const folderPaths = new Set<string>();
+  for (const path of filePaths) {
+    const segments = path.split('/').slice(0, -1);
+    for (let depth = segments.length; depth > 0; depth--) {
+      folderPaths.add(segments.slice(0, depth).join('/'));
+    }
+  }
+
+  let removed = 0;
+  const deepestFirst = Array.from(folderPaths).sort((a, b) => b.split('/').length - a.split('/').length);
+  for (const folderPath of deepestFirst) {
+    try {
+      const segments = folderPath.split('/');
+      const name = segments[segments.length - 1];
+      const parent = await getDirectoryAtPath(root, segments.slice(0, -1));
+      const folder = await parent.getDirectoryHandle(name);
+
+      if (await isFolderEmpty(folder)) {
+        await parent.removeEntry(name, { recursive: true });
+        removed++;
+      }
+    } catch {
+      // Leave the folder in place
+    }
+  }
+  return removed;
+};
+
+// Moving needs write access to the dropped folder, which the browser only grants on request
+export const ensurePermission = async (
+  handle: FileSystemDirectoryHandle,
+  mode: 'read' | 'readwrite'
+): Promise<boolean> => {
+  const descriptor = { mode };
+  if (await handle.queryPermission?.(descriptor) === 'granted') return true;
+  return await handle.requestPermission?.(descriptor) === 'granted';
+};
+
+export const ensureReadWritePermission = (handle: FileSystemDirectoryHandle): Promise<boolean> => {
+  return ensurePermission(handle, 'readwrite');
+};
+
+const createEmptySummary = (): Record<FileOutcome, number> => ({
+  copied: 0,
+  overwritten: 0,
+  renamed: 0,
+  skipped: 0,
+  duplicate: 0,
+  failed: 0
+});
+
+const addSummaries = (a: OrganizeSummary, b: OrganizeSummary): OrganizeSummary => ({
+  copied: a.copied + b.copied,
+  overwritten: a.overwritten + b.overwritten,
+  renamed: a.renamed + b.renamed,
+  skipped: a.skipped + b.skipped,
+  duplicate: a.duplicate + b.duplicate,
+  failed: a.failed + b.failed
+});
+
+// DOMException does not extend Error in every environment, so only the name is checked
+const isNotFoundError = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'NotFoundError';
+};
+
+const getExistingFile = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemFileHandle | null> => {
+  try {
+    return await directory.getFileHandle(name);
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+const getExistingDirectory = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    return await directory.getDirectoryHandle(name);
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+// "IMG_0001.jpg" -> "IMG_0001 (2).jpg", the first suffix not taken on disk or earlier in this run
+const getUniqueFileName = async (
+  directory: FileSystemDirectoryHandle,
+  name: string,
+  takenNames: ReadonlySet<string>
+): Promise<string> => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${base} (${suffix})${extension}`;
+    if (!takenNames.has(candidate) && !(await getExistingFile(directory, candidate))) {
+      return candidate;
+    }
+  }
+};
+
+type FileResolution =
+  | { readonly outcome: 'skipped' | 'duplicate' }
+  | { readonly outcome: WrittenOutcome; readonly name: string };
+
+const resolveFileConflict = async (
+  file: File,
+  name: string,
+  directory: FileSystemDirectoryHandle,
+  existing: FileSystemFileHandle | null,
+  policy: ConflictPolicy,
+  writtenNames: ReadonlySet<string>
+): Promise<FileResolution> => {
+  // Photos of this run that share a name are different photos, so one never replaces another
+  if (writtenNames.has(name)) {
+    return { outcome: 'renamed', name: await getUniqueFileName(directory, name, writtenNames) };
+  }
+  if (!existing) {
+    return { outcome: 'copied', name };
+  }
+
+  switch (policy) {
+    case ConflictPolicy.SKIP:
+      return { outcome: 'skipped' };
+    case ConflictPolicy.OVERWRITE:
+      return { outcome: 'overwritten', name };
+    case ConflictPolicy.KEEP_NEWER: {
+      const existingFile = await existing.getFile();
+      return file.lastModified > existingFile.lastModified
+        ? { outcome: 'overwritten', name }
+        : { outcome: 'skipped' };
+    }
+    case ConflictPolicy.MERGE: {
+      const existingFile = await existing.getFile();
+      if (await isSameContent(existingFile, file)) {
+        return { outcome: 'duplicate' };
+      }
+      return { outcome: 'renamed', name: await getUniqueFileName(directory, name, writtenNames) };
+    }
+    default:
+      return { outcome: 'renamed', name: await getUniqueFileName(directory, name, writtenNames) };
+  }
+};
+
 // Type-safe file validation
-const validateImageFiles = (files: File[]): Result<Array<File & { type: SupportedImageMimeType }>> => {
+const validateImageFiles = (files: File[]): Result<Array<File & { type: SupportedImageMimeType }>, FileSystemError> => {
   const validFiles: Array<File & { type: SupportedImageMimeType }> = [];
   
   for (let i = 0; i < files.length; i++) {
@@ -210,12 +744,41 @@ const validateImageFiles = (files: File[]): Result<Array<File & { type: Supporte
   return createSuccessResult(validFiles);
 };
 
-// Move files to target folder with comprehensive type safety
+// A copy that is written and verified, but not finished yet
+interface CopiedFile {
+  readonly resolution: FileResolution;
+  readonly isInPlace: boolean;
+  readonly mismatch?: FileSystemError; // The copy did not match and was removed
+}
+
+// Remove a copy that will not be reported done; an overwritten file cannot be brought back
+const discardCopy = async (directory: FileSystemDirectoryHandle, resolution: FileResolution): Promise<void> => {
+  if (resolution.outcome === 'copied' || resolution.outcome === 'renamed') {
+    await directory.removeEntry(resolution.name).catch(() => undefined);
+  }
+};
+
+// Copy files to the target folder, resolving name conflicts with the given policy.
+// With a source, each original is deleted once its copy is verified. A copy that does not match is
+// removed and reported as failed, keeping its original, so it can be retried.
+// Several photos are copied at once, but they are finished (original deleted, reported done) in order,
+// so the photos reported done are always the first ones of the list, which resuming relies on.
 export const moveFilesToFolder = async (
   files: File[],
   targetDirectoryHandle: FileSystemDirectoryHandle,
-  onProgress?: ProgressCallback
-): FileSystemResult<void> => {
+  onProgress?: ProgressCallback,
+  options: MoveFilesOptions = {}
+): FileSystemResult<OrganizeSummary> => {
+  const {
+    source,
+    conflictPolicy = ConflictPolicy.OVERWRITE,
+    reservedNames = [],
+    onFileDone,
+    onFileFailed,
+    concurrency = DEFAULT_COPY_CONCURRENCY
+  } = options;
+  const verify = options.verify || source !== undefined;
+
   // Validate input files
   const validationResult = validateImageFiles(files);
   if (!validationResult.success) {
@@ -225,6 +788,26 @@ export const moveFilesToFolder = async (
   const validFiles = validationResult.data;
   const total = validFiles.length;
   let completed = 0;
+  const summary = createEmptySummary();
+  const writtenNames = new Set<string>(reservedNames);
+  const throughput = options.throughput ?? createThroughputMeter(validFiles.reduce((sum, file) => sum + file.size, 0));
+  const claimNameInOrder = createSerialQueue();
+
+  // Also stops the copies running ahead when one photo fails
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (options.signal?.aborted) abort();
+  options.signal?.addEventListener('abort', abort);
+
+  const report = (status: ProcessingProgress['status'], currentFile?: string) => {
+    onProgress?.({
+      current: completed,
+      total,
+      status,
+      currentFile,
+      ...throughput.estimate()
+    });
+  };
 
   onProgress?.({
     current: 0,
@@ -232,74 +815,483 @@ export const moveFilesToFolder = async (
     status: 'preparing'
   });
 
-  for (const file of validFiles) {
-    try {
-      onProgress?.({
-        current: completed,
-        total,
-        status: 'moving',
-        currentFile: file.name
-      });
+  const copyOne = async (index: number): Promise<Result<CopiedFile, FileSystemError>> => {
+    const file = validFiles[index];
+    const name = options.names?.[index] ?? file.name;
+    let resolution: FileResolution | null = null;
 
+    try {
       // Validate file name
-      const validFileName = createValidFileName(file.name);
+      const validFileName = createValidFileName(name);
       if (!validFileName) {
         return createErrorResult(
           new FileSystemError(
-            `Invalid file name "${file.name}"`,
+            `Invalid file name "${name}"`,
             'INVALID_NAME',
             'File name contains invalid characters'
           )
         );
       }
 
+      // Names are claimed one photo at a time, so two photos never take the same free name
+      const claim = await claimNameInOrder(async () => {
+        // Moving a photo onto itself must neither rewrite nor delete it
+        const sourceHandle = source ? await getFileAtPath(source.root, source.paths[index]) : null;
+        const existingHandle = await getExistingFile(targetDirectoryHandle, validFileName);
+        const isInPlace = sourceHandle && existingHandle ? await sourceHandle.isSameEntry(existingHandle) : false;
+
+        const claimed: FileResolution = isInPlace
+          ? { outcome: 'skipped' }
+          : await resolveFileConflict(file, validFileName, targetDirectoryHandle, existingHandle, conflictPolicy, writtenNames);
+        if ('name' in claimed) {
+          writtenNames.add(claimed.name);
+        }
+        return { resolution: claimed, isInPlace };
+      });
+
+      if (!('name' in claim.resolution)) {
+        throughput.skip(file.size);
+        return createSuccessResult(claim);
+      }
+      if (controller.signal.aborted) {
+        return createErrorResult(createCancelledError());
+      }
+
+      resolution = claim.resolution;
+      report('moving', file.name);
+
       // Create file handle in target directory
-      const fileHandle = await targetDirectoryHandle.getFileHandle(validFileName, {
+      const fileHandle = await targetDirectoryHandle.getFileHandle(claim.resolution.name, {
         create: true
       });
 
       // Copy file content
-      const copyResult = await copyFile(file, fileHandle);
+      const copyResult = await copyFile(file, fileHandle, { signal: controller.signal, onBytesWritten: throughput.add });
       if (!copyResult.success) {
+        await discardCopy(targetDirectoryHandle, claim.resolution);
         return copyResult;
       }
-      
-      completed++;
-      
-      onProgress?.({
-        current: completed,
-        total,
-        status: completed === total ? 'completed' : 'moving'
-      });
+
+      if (verify) {
+        report('verifying', file.name);
+        const verifyResult = await verifyCopiedFile(file, fileHandle);
+        if (!verifyResult.success) {
+          await discardCopy(targetDirectoryHandle, claim.resolution);
+          return createSuccessResult({ ...claim, mismatch: verifyResult.error });
+        }
+      }
+
+      return createSuccessResult(claim);
     } catch (error) {
-      const errorMessage = `Failed to move ${file.name}: ${error}`;
-      
-      onProgress?.({
-        current: completed,
-        total,
-        status: 'error',
-        currentFile: file.name,
-        error: errorMessage
-      });
-      
+      if (resolution) {
+        await discardCopy(targetDirectoryHandle, resolution);
+      }
       return createErrorResult(
         new FileSystemError(
-          errorMessage,
+          `Failed to move ${file.name}: ${error}`,
           'COPY_FAILED',
           error instanceof Error ? error.message : String(error)
         )
       );
     }
-  }
-  
-  return createSuccessResult(undefined);
+  };
+
+  const finishOne = async (index: number, { resolution, isInPlace, mismatch }: CopiedFile): FileSystemResult<void> => {
+    try {
+      if (mismatch && 'name' in resolution) {
+        summary.failed++;
+        completed++;
+        onFileFailed?.(index, resolution.name, mismatch, resolution.outcome);
+        await onFileDone?.({ outcome: 'failed' });
+        report(completed === total ? 'completed' : 'moving');
+        return createSuccessResult(undefined);
+      }
+
+      // A skipped photo keeps its original; a verified copy or an identical duplicate makes it redundant
+      if (source && !isInPlace && resolution.outcome !== 'skipped') {
+        const removeResult = await removeSourceFile(source.root, source.paths[index]);
+        if (!removeResult.success) {
+          return removeResult;
+        }
+      }
+
+      summary[resolution.outcome]++;
+      completed++;
+      await onFileDone?.('name' in resolution ? { outcome: resolution.outcome, name: resolution.name } : { outcome: resolution.outcome });
+      report(completed === total ? 'completed' : 'moving');
+      return createSuccessResult(undefined);
+    } catch (error) {
+      return createErrorResult(
+        new FileSystemError(
+          `Failed to move ${validFiles[index].name}: ${error}`,
+          'COPY_FAILED',
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+    }
+  };
+
+  const copies: Array<Promise<Result<CopiedFile, FileSystemError>>> = [];
+  let failure: FileSystemError | null = null;
+
+  try {
+    for (let index = 0; index < total; index++) {
+      // Keep copies running ahead of the photo being finished
+      while (copies.length < Math.min(total, index + Math.max(1, concurrency)) && !controller.signal.aborted) {
+        copies.push(copyOne(copies.length));
+      }
+      if (index >= copies.length) {
+        failure = createCancelledError();
+        break;
+      }
+
+      const copyResult = await copies[index];
+      const finishResult = copyResult.success ? await finishOne(index, copyResult.data) : copyResult;
+      if (!finishResult.success) {
+        failure = finishResult.error;
+        break;
+      }
+    }
+
+    if (failure) {
+      abort();
+      // Copies that ran ahead were never reported done, so a resumed run would write them again
+      const unfinished = await Promise.all(copies.slice(completed));
+      for (const result of unfinished) {
+        if (result.success) {
+          await discardCopy(targetDirectoryHandle, result.data.resolution);
+        }
+      }
+
+      if (failure.code !== 'CANCELLED') {
+        onProgress?.({
+          current: completed,
+          total,
+          status: 'error',
+          currentFile: validFiles[completed]?.name,
+          error: failure.message
+        });
+      }
+      return createErrorResult(failure);
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+  }
+  
+  return createSuccessResult(summary);
+};
+
+// Camera names may contain characters that are not allowed in folder names
+const toDeviceFolderName = (device: string): ValidFolderName => {
+  const cleaned = device.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').trim();
+  return createValidFolderName(cleaned) ?? ('_' as ValidFolderName);
+};
+
+// Photos of a folder grouped by device, or a single group when there is nothing to split
+const groupPhotosByDevice = (
+  folder: OrganizationFolder,
+  splitByDevice: boolean
+): Array<{ subfolder: ValidFolderName | null; indices: number[] }> => {
+  const devices = folder.devices;
+  if (!splitByDevice || !devices || new Set(devices).size < 2) {
+    return [{ subfolder: null, indices: folder.photos.map((_, index) => index) }];
+  }
+
+  const groups = new Map<ValidFolderName, number[]>();
+  devices.forEach((device, index) => {
+    const subfolder = toDeviceFolderName(device);
+    const group = groups.get(subfolder) ?? [];
+    group.push(index);
+    groups.set(subfolder, group);
+  });
+  return Array.from(groups, ([subfolder, indices]) => ({ subfolder, indices }));
+};
+
+interface PhotoGroup {
+  readonly path: readonly ValidFolderName[];
+  readonly photos: readonly File[];
+  readonly sourcePaths?: readonly string[];
+  readonly fileNames?: readonly string[];
+}
+
+// One group per target folder, split into per-device subfolders when requested
+const groupOrganizeFolders = (folders: readonly OrganizationFolder[], splitByDevice: boolean): PhotoGroup[] => {
+  return folders.flatMap(folder =>
+    groupPhotosByDevice(folder, splitByDevice).map(group => ({
+      path: group.subfolder ? [folder.name, group.subfolder] : [folder.name],
+      photos: group.indices.map(index => folder.photos[index]),
+      sourcePaths: folder.sourcePaths ? group.indices.map(index => folder.sourcePaths![index]) : undefined,
+      fileNames: folder.fileNames ? group.indices.map(index => folder.fileNames![index]) : undefined
+    }))
+  );
+};
+
+const toOrganizePlan = (groups: readonly PhotoGroup[]): OrganizePlan => ({
+  folders: groups.map(group => ({
+    path: group.path,
+    files: group.photos.map((photo, index) => ({
+      name: group.fileNames?.[index] ?? photo.name,
+      size: photo.size,
+      lastModified: photo.lastModified,
+      sourcePath: group.sourcePaths?.[index]
+    }))
+  }))
+});
+
+// Let the user choose where the organized folders go; null when the picker was cancelled
+export const pickTargetDirectory = async (): FileSystemResult<FileSystemDirectoryHandle | null> => {
+  if (!isFileSystemAccessSupported()) {
+    return createErrorResult(
+      new FileSystemError(
+        'File System Access API is not supported in this browser',
+        'NOT_SUPPORTED'
+      )
+    );
+  }
+
+  try {
+    return createSuccessResult(await window.showDirectoryPicker({ mode: 'readwrite' }));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return createSuccessResult(null);
+    }
+    return createErrorResult(
+      new FileSystemError(
+        'Failed to open the target folder',
+        'PERMISSION_DENIED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+};
+
+// Dry run: validate every folder, plan the valid ones and, once the target is known, find the
+// folders that already exist and the photos that would land on a taken name. Nothing is written.
+export const previewOrganize = async (
+  folders: unknown[],
+  options: Pick<OrganizeOptions, 'splitByDevice' | 'targetDirectoryHandle'> = {}
+): FileSystemResult<OrganizePreview> => {
+  const validFolders: OrganizationFolder[] = [];
+  const invalidFolders: InvalidFolder[] = [];
+  folders.forEach((folder, index) => {
+    const result = validateOrganizationFolder(folder, index);
+    if (result.success) {
+      validFolders.push(result.data);
+    } else {
+      const name = (folder as { name?: unknown } | null)?.name;
+      invalidFolders.push({
+        name: typeof name === 'string' ? name : `#${index + 1}`,
+        reason: result.error.details ?? result.error.message
+      });
+    }
+  });
+
+  const plan = toOrganizePlan(groupOrganizeFolders(validFolders, options.splitByDevice ?? false));
+  const targetDirHandle = options.targetDirectoryHandle;
+  const newFolders: string[] = [];
+  const existingFolders: string[] = [];
+  const conflictingFiles: string[] = [];
+  const files: PreviewFile[] = [];
+  const planned = new Set<string>();
+
+  try {
+    for (const folder of plan.folders) {
+      // Everything below a missing folder is new as well
+      let folderHandle: FileSystemDirectoryHandle | null = targetDirHandle ?? null;
+      for (const [depth, name] of folder.path.entries()) {
+        const path = folder.path.slice(0, depth + 1).join('/');
+        folderHandle = folderHandle ? await getExistingDirectory(folderHandle, name) : null;
+        if (!folderHandle && !newFolders.includes(path)) {
+          newFolders.push(path);
+        } else if (folderHandle && depth === 0 && !existingFolders.includes(path)) {
+          existingFolders.push(path);
+        }
+      }
+
+      for (const file of folder.files) {
+        const destination = [...folder.path, file.name].join('/');
+        // Two photos planned under one name meet the conflict policy just like an existing file
+        const conflict = planned.has(destination)
+          || (folderHandle !== null && (await getExistingFile(folderHandle, file.name)) !== null);
+        planned.add(destination);
+        if (conflict && !conflictingFiles.includes(destination)) {
+          conflictingFiles.push(destination);
+        }
+        files.push({ destination, size: file.size, sourcePath: file.sourcePath, conflict });
+      }
+    }
+  } catch (error) {
+    return createErrorResult(
+      new FileSystemError(
+        `Failed to scan "${targetDirHandle?.name}" for existing files`,
+        'PERMISSION_DENIED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+
+  return createSuccessResult({
+    plan,
+    newFolders,
+    files,
+    totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+    conflicts: { existingFolders, conflictingFiles },
+    invalidFolders
+  });
+};
+
+// Write a plan folder by folder, skipping the photos an interrupted run already finished.
+// loadPhoto provides the content of a planned photo, from memory or read back from the source; it is
+// written under the planned name.
+export const executeOrganizePlan = async (
+  targetDirHandle: FileSystemDirectoryHandle,
+  plan: OrganizePlan,
+  loadPhoto: (folderIndex: number, fileIndex: number) => Promise<File>,
+  onProgress?: ProgressCallback,
+  options: PlanExecutionOptions = {}
+): FileSystemResult<OrganizeSummary> => {
+  const completed = options.completed ?? [];
+  const sourceRoot = options.mode === OrganizeMode.MOVE ? options.sourceDirectoryHandle : undefined;
+  // The photo in flight when a run stopped may already be written; merging counts that copy
+  // as a duplicate where keeping both would save it twice
+  const conflictPolicy = options.completed && options.conflictPolicy === ConflictPolicy.RENAME
+    ? ConflictPolicy.MERGE
+    : options.conflictPolicy;
+
+  const totalFiles = plan.folders.reduce((sum, folder) => sum + folder.files.length, 0);
+  const pendingBytes = plan.folders
+    .flatMap(folder => folder.files)
+    .slice(completed.length)
+    .reduce((sum, file) => sum + file.size, 0);
+  const throughput = createThroughputMeter(pendingBytes);
+  let processedFiles = 0;
+  let summary: OrganizeSummary = createEmptySummary();
+  for (const file of completed) {
+    summary = { ...summary, [file.outcome]: summary[file.outcome] + 1 };
+  }
+
+  onProgress?.({
+    current: Math.min(completed.length, totalFiles),
+    total: totalFiles,
+    status: 'preparing'
+  });
+
+  for (const [folderIndex, folder] of plan.folders.entries()) {
+    const doneInFolder = Math.max(0, Math.min(completed.length - processedFiles, folder.files.length));
+    const pendingFiles = folder.files.slice(doneInFolder);
+    const folderStart = processedFiles;
+    processedFiles += folder.files.length;
+    if (pendingFiles.length === 0) continue;
+    if (options.signal?.aborted) {
+      return createErrorResult(createCancelledError());
+    }
+
+    onProgress?.({
+      current: folderStart + doneInFolder,
+      total: totalFiles,
+      status: 'creating',
+      currentFile: `Creating folder: ${folder.path.join('/')}`
+    });
+
+    // Create the folder and its device subfolder
+    let targetHandle = targetDirHandle;
+    for (const [depth, name] of folder.path.entries()) {
+      const existed = (await getExistingDirectory(targetHandle, name)) !== null;
+      const folderResult = await createFolder(targetHandle, name);
+      if (!folderResult.success) {
+        return folderResult;
+      }
+      targetHandle = folderResult.data;
+      if (!existed) {
+        await options.onFolderCreated?.(folder.path.slice(0, depth + 1).join('/'));
+      }
+    }
+
+    let photos: File[];
+    try {
+      photos = await Promise.all(pendingFiles.map((_, index) => loadPhoto(folderIndex, doneInFolder + index)));
+    } catch (error) {
+      return createErrorResult(
+        new FileSystemError(
+          `Failed to read the photos for "${folder.path.join('/')}"`,
+          'NOT_FOUND',
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+    }
+
+    const sourcePaths = pendingFiles.map(file => file.sourcePath ?? '');
+    const reservedNames = completed
+      .slice(folderStart, folderStart + doneInFolder)
+      .flatMap(file => (file.name ? [file.name] : []));
+
+    const moveResult = await moveFilesToFolder(
+      photos,
+      targetHandle,
+      (progress) => {
+        onProgress?.({
+          current: folderStart + doneInFolder + progress.current,
+          total: totalFiles,
+          // One folder being done is not the end of the whole run
+          status: progress.status === 'completed' ? 'moving' : progress.status,
+          currentFile: progress.currentFile,
+          bytesPerSecond: progress.bytesPerSecond,
+          secondsRemaining: progress.secondsRemaining
+        });
+      },
+      {
+        source: sourceRoot ? { root: sourceRoot, paths: sourcePaths } : undefined,
+        names: pendingFiles.map(file => file.name),
+        conflictPolicy,
+        reservedNames,
+        onFileDone: options.onFileDone,
+        onFileFailed: (index, name, error, outcome) => options.onFileFailed?.({
+          path: folder.path,
+          name,
+          file: photos[index],
+          sourcePath: pendingFiles[index].sourcePath,
+          reason: error.details ?? error.message,
+          planIndex: folderStart + doneInFolder + index,
+          outcome
+        }),
+        signal: options.signal,
+        concurrency: options.concurrency,
+        throughput,
+        verify: options.verify
+      }
+    );
+
+    if (!moveResult.success) {
+      return moveResult;
+    }
+    summary = addSummaries(summary, moveResult.data);
+  }
+
+  if (sourceRoot) {
+    onProgress?.({
+      current: totalFiles,
+      total: totalFiles,
+      status: 'cleaning'
+    });
+    const movedPaths = plan.folders.flatMap(folder => folder.files.flatMap(file => (file.sourcePath ? [file.sourcePath] : [])));
+    await removeEmptySourceFolders(sourceRoot, movedPaths);
+  }
+
+  onProgress?.({
+    current: totalFiles,
+    total: totalFiles,
+    status: 'completed'
+  });
+
+  return createSuccessResult(summary);
 };
 
 // Main function to create folder structure and organize photos with complete type safety
 export const organizePhotosToFolders = async (
   folders: unknown[],
-  onProgress?: ProgressCallback
-): FileSystemResult<void> => {
+  onProgress?: ProgressCallback,
+  options: OrganizeOptions = {}
+): FileSystemResult<OrganizeSummary> => {
   // Check API support
   if (!isFileSystemAccessSupported()) {
     return createErrorResult(
@@ -317,82 +1309,497 @@ export const organizePhotosToFolders = async (
   }
 
   const validatedFolders = validationResult.data;
+  const isMove = options.mode === OrganizeMode.MOVE;
+
+  if (isMove && (!options.sourceDirectoryHandle || validatedFolders.some(folder => !folder.sourcePaths))) {
+    return createErrorResult(
+      new FileSystemError(
+        'Moving requires the source folder and the path of every photo',
+        'VALIDATION_FAILED',
+        'Drop the folder again in a browser that supports the File System Access API'
+      )
+    );
+  }
 
   try {
+    // Ask for write access to the source before anything is copied
+    const sourceRoot = isMove ? options.sourceDirectoryHandle : undefined;
+    if (sourceRoot && !(await ensureReadWritePermission(sourceRoot))) {
+      return createErrorResult(
+        new FileSystemError(
+          'Write access to the source folder was denied',
+          'PERMISSION_DENIED',
+          'Moving deletes the originals, which needs write access to the dropped folder'
+        )
+      );
+    }
+
     // Let user select target directory
-    const targetDirHandle = await window.showDirectoryPicker({
+    const targetDirHandle = options.targetDirectoryHandle ?? await window.showDirectoryPicker({
       mode: 'readwrite'
     });
 
-    const totalFiles = validatedFolders.reduce((sum, folder) => sum + folder.photos.length, 0);
-    let processedFiles = 0;
+    const groups = groupOrganizeFolders(validatedFolders, options.splitByDevice ?? false);
+    const plan = toOrganizePlan(groups);
+    await options.onPlanned?.(plan, targetDirHandle);
 
-    onProgress?.({
-      current: 0,
-      total: totalFiles,
-      status: 'preparing'
-    });
+    return await executeOrganizePlan(
+      targetDirHandle,
+      plan,
+      async (folderIndex, fileIndex) => groups[folderIndex].photos[fileIndex],
+      onProgress,
+      {
+        mode: options.mode,
+        sourceDirectoryHandle: sourceRoot,
+        conflictPolicy: options.conflictPolicy,
+        onFileDone: options.onFileDone,
+        onFolderCreated: options.onFolderCreated,
+        onFileFailed: options.onFileFailed,
+        signal: options.signal,
+        concurrency: options.concurrency,
+        verify: options.verify
+      }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return createErrorResult(
+        new FileSystemError(
+          '操作がキャンセルされました',
+          'PERMISSION_DENIED',
+          'User cancelled the operation'
+        )
+      );
+    }
+    
+    return createErrorResult(
+      new FileSystemError(
+        'フォルダの作成中にエラーが発生しました',
+        'CREATE_FAILED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+};
 
-    // Process each folder
-    for (const folder of validatedFolders) {
-      onProgress?.({
-        current: processedFiles,
-        total: totalFiles,
-        status: 'creating',
-        currentFile: `Creating folder: ${folder.name}`
-      });
+export interface RetryOptions extends PlanExecutionOptions {
+  // A photo whose copy matched this time, as it failed in the original run; lets its journal be updated
+  readonly onFileRetried?: (failure: FailedFile) => Promise<void>;
+}
 
-      // Create folder
-      const folderResult = await createFolder(targetDirHandle, folder.name);
-      if (!folderResult.success) {
-        return folderResult;
+// Copy the photos whose copy did not match again, to the folders and names they were meant for.
+// Failures are reported as they were in the original run, so they can be retried again.
+export const retryFailedFiles = async (
+  targetDirHandle: FileSystemDirectoryHandle,
+  failures: readonly FailedFile[],
+  onProgress?: ProgressCallback,
+  options: RetryOptions = {}
+): FileSystemResult<OrganizeSummary> => {
+  const groups = new Map<string, FailedFile[]>();
+  for (const failure of failures) {
+    const key = failure.path.join('/');
+    groups.set(key, [...(groups.get(key) ?? []), failure]);
+  }
+  const folders = Array.from(groups.values());
+  // In plan order, which is the order photos are finished in
+  const retried = folders.flat();
+  let finished = 0;
+
+  const plan: OrganizePlan = {
+    folders: folders.map(group => ({
+      path: group[0].path,
+      files: group.map(failure => ({
+        name: failure.name,
+        size: failure.file.size,
+        lastModified: failure.file.lastModified,
+        sourcePath: failure.sourcePath
+      }))
+    }))
+  };
+
+  return executeOrganizePlan(
+    targetDirHandle,
+    plan,
+    async (folderIndex, fileIndex) => folders[folderIndex][fileIndex].file,
+    onProgress,
+    {
+      ...options,
+      // The name was freed when the failed copy was removed, or holds a failed overwrite that is redone
+      conflictPolicy: ConflictPolicy.OVERWRITE,
+      verify: true,
+      onFileDone: async file => {
+        const failure = retried[finished++];
+        if (file.outcome !== 'failed') await options.onFileRetried?.(failure);
+        await options.onFileDone?.(file);
+      },
+      onFileFailed: failure => {
+        const original = retried[failure.planIndex];
+        options.onFileFailed?.({ ...failure, planIndex: original.planIndex, outcome: original.outcome });
       }
+    }
+  );
+};
 
-      const folderHandle = folderResult.data;
+const isEntryPresent = async (directory: FileSystemDirectoryHandle, name: string): Promise<boolean> => {
+  for await (const entryName of directory.keys()) {
+    if (entryName === name) return true;
+  }
+  return false;
+};
 
-      // Move files to folder
-      const moveResult = await moveFilesToFolder(
-        Array.from(folder.photos), // Convert readonly array to regular array
-        folderHandle,
-        (progress) => {
-          onProgress?.({
-            current: processedFiles + progress.current,
-            total: totalFiles,
-            status: progress.status,
-            currentFile: progress.currentFile
-          });
-        }
+// Copy a file and read it back before the caller deletes the original
+const copyVerifiedFile = async (sourceFile: File, targetHandle: FileSystemFileHandle): FileSystemResult<void> => {
+  const copyResult = await copyFile(sourceFile, targetHandle);
+  if (!copyResult.success) {
+    return copyResult;
+  }
+  return verifyCopiedFile(sourceFile, targetHandle);
+};
+
+const copyDirectory = async (
+  source: FileSystemDirectoryHandle,
+  target: FileSystemDirectoryHandle
+): FileSystemResult<void> => {
+  for await (const [name, entry] of source.entries()) {
+    if (entry.kind === 'directory') {
+      const childResult = await createFolder(target, name as ValidFolderName);
+      if (!childResult.success) {
+        return childResult;
+      }
+      const copyResult = await copyDirectory(entry as FileSystemDirectoryHandle, childResult.data);
+      if (!copyResult.success) {
+        return copyResult;
+      }
+    } else {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      const copyResult = await copyVerifiedFile(file, await target.getFileHandle(name, { create: true }));
+      if (!copyResult.success) {
+        return copyResult;
+      }
+    }
+  }
+  return createSuccessResult(undefined);
+};
+
+// Rename with FileSystemHandle.move; browsers without it for directories get a verified copy and a delete
+const renameDirectory = async (
+  parent: FileSystemDirectoryHandle,
+  name: string,
+  newName: ValidFolderName
+): FileSystemResult<void> => {
+  const directory = await parent.getDirectoryHandle(name);
+  if (directory.move) {
+    try {
+      await directory.move(newName);
+      return createSuccessResult(undefined);
+    } catch {
+      // Fall back to copying
+    }
+  }
+
+  const targetResult = await createFolder(parent, newName);
+  if (!targetResult.success) {
+    return targetResult;
+  }
+  const copyResult = await copyDirectory(directory, targetResult.data);
+  if (!copyResult.success) {
+    // Leave the original untouched and drop the partial copy
+    await parent.removeEntry(newName, { recursive: true }).catch(() => undefined);
+    return copyResult;
+  }
+  await parent.removeEntry(name, { recursive: true });
+  return createSuccessResult(undefined);
+};
+
+// Also renames a file within its folder when the destination is its own parent
+const moveFileInto = async (
+  parent: FileSystemDirectoryHandle,
+  name: string,
+  destination: FileSystemDirectoryHandle,
+  newName = name
+): FileSystemResult<void> => {
+  const fileHandle = await parent.getFileHandle(name);
+  if (fileHandle.move) {
+    try {
+      await fileHandle.move(destination, newName);
+      return createSuccessResult(undefined);
+    } catch {
+      // Fall back to copying
+    }
+  }
+
+  const copyResult = await copyVerifiedFile(await fileHandle.getFile(), await destination.getFileHandle(newName, { create: true }));
+  if (!copyResult.success) {
+    return copyResult;
+  }
+  await parent.removeEntry(name);
+  return createSuccessResult(undefined);
+};
+
+const splitPath = (path: string): { parentSegments: string[]; name: string } => {
+  const segments = path.split('/').filter(Boolean);
+  return { parentSegments: segments.slice(0, -1), name: segments[segments.length - 1] ?? '' };
+};
+
+interface PhotoMove {
+  readonly parentSegments: string[];
+  readonly name: string;
+  readonly newName: string;
+}
+
+// Each photo of a rename with the name it gets
+const getPhotoMoves = (rename: InPlaceRename): PhotoMove[] => (rename.photoPaths ?? []).map((path, index) => {
+  const { parentSegments, name } = splitPath(path);
+  return { parentSegments, name, newName: rename.fileNames?.[index] ?? name };
+});
+
+// Best effort: put photos moved by a rename that then failed back where they were, latest first
+const revertPhotoMoves = async (
+  moves: readonly { from: FileSystemDirectoryHandle; to: FileSystemDirectoryHandle; move: PhotoMove }[]
+): Promise<void> => {
+  for (const { from, to, move } of [...moves].reverse()) {
+    await moveFileInto(to, move.newName, from, move.name).catch(() => undefined);
+  }
+};
+
+const applyInPlaceRename = async (
+  root: FileSystemDirectoryHandle,
+  rename: InPlaceRename,
+  newName: ValidFolderName
+): FileSystemResult<Omit<CompletedRename, 'index'>> => {
+  const photoMoves = getPhotoMoves(rename);
+  const done: { from: FileSystemDirectoryHandle; to: FileSystemDirectoryHandle; move: PhotoMove }[] = [];
+
+  if (rename.path) {
+    const { parentSegments, name } = splitPath(rename.path);
+    const parent = await getDirectoryAtPath(root, parentSegments);
+    if (name !== newName && await isEntryPresent(parent, newName)) {
+      return createErrorResult(
+        new FileSystemError(
+          `Cannot rename "${rename.path}": "${newName}" already exists`,
+          'ALREADY_EXISTS'
+        )
       );
+    }
 
+    // The photos go first, while their folder still has its old path
+    for (const move of photoMoves) {
+      if (move.name === move.newName) continue;
+      const directory = await getDirectoryAtPath(root, move.parentSegments);
+      const moveResult = await moveFileInto(directory, move.name, directory, move.newName);
       if (!moveResult.success) {
+        await revertPhotoMoves(done);
         return moveResult;
       }
+      done.push({ from: directory, to: directory, move });
+    }
+    if (name !== newName) {
+      const renameResult = await renameDirectory(parent, name, newName);
+      if (!renameResult.success) {
+        await revertPhotoMoves(done);
+        return renameResult;
+      }
+    }
+
+    // Photos may sit in subfolders the scan merged into this folder
+    const depth = parentSegments.length + 1;
+    return createSuccessResult({
+      path: [...parentSegments, newName].join('/'),
+      photoPaths: photoMoves.map(move => [...parentSegments, newName, ...move.parentSegments.slice(depth), move.newName].join('/'))
+    });
+  }
 
-      processedFiles += folder.photos.length;
+  // Gather the loose photos of an auto-grouped folder into a new folder next to them
+  const { parentSegments } = photoMoves[0] ?? { parentSegments: [] };
+  const parent = await getDirectoryAtPath(root, parentSegments);
+  if (await isEntryPresent(parent, newName)) {
+    return createErrorResult(
+      new FileSystemError(
+        `Cannot create "${newName}": it already exists`,
+        'ALREADY_EXISTS'
+      )
+    );
+  }
+  const folderResult = await createFolder(parent, newName);
+  if (!folderResult.success) {
+    return folderResult;
+  }
+  for (const move of photoMoves) {
+    const directory = await getDirectoryAtPath(root, move.parentSegments);
+    const moveResult = await moveFileInto(directory, move.name, folderResult.data, move.newName);
+    if (!moveResult.success) {
+      await revertPhotoMoves(done);
+      await parent.removeEntry(newName).catch(() => undefined);
+      return moveResult;
+    }
+    done.push({ from: directory, to: folderResult.data, move });
+  }
+  return createSuccessResult({
+    path: [...parentSegments, newName].join('/'),
+    photoPaths: photoMoves.map(move => [...parentSegments, newName, move.newName].join('/'))
+  });
+};
+
+// Rename the original folders inside a root folder the user selects, instead of copying them elsewhere.
+// Renames run in the given order, so nested folders should come before their parents. Nothing is
+// changed when a check fails; once renaming has started, a failure stops the run and is reported
+// with the renames done before it.
+export const renameFoldersInPlace = async (
+  renames: readonly InPlaceRename[],
+  onProgress?: ProgressCallback
+): FileSystemResult<InPlaceRenameReport> => {
+  if (!isFileSystemAccessSupported()) {
+    return createErrorResult(
+      new FileSystemError(
+        'File System Access API is not supported in this browser',
+        'NOT_SUPPORTED'
+      )
+    );
+  }
+
+  const validatedRenames: Array<{ rename: InPlaceRename; newName: ValidFolderName }> = [];
+  for (const rename of renames) {
+    const newName = createValidFolderName(rename.newName);
+    if (!newName || newName.includes('/')) {
+      return createErrorResult(
+        new FileSystemError(
+          `Invalid folder name "${rename.newName}"`,
+          'INVALID_NAME',
+          'Folder name contains invalid characters or is reserved'
+        )
+      );
+    }
+    if (!rename.path && !rename.photoPaths?.length) {
+      return createErrorResult(
+        new FileSystemError(
+          `Nothing to rename for "${rename.newName}"`,
+          'VALIDATION_FAILED',
+          'Expected a folder path or the paths of the photos to gather'
+        )
+      );
+    }
+    if (rename.path && rename.photoPaths?.some(path => !path.startsWith(`${rename.path}/`))) {
+      return createErrorResult(
+        new FileSystemError(
+          `Photos of "${rename.path}" must be inside it`,
+          'VALIDATION_FAILED'
+        )
+      );
+    }
+    if (rename.fileNames) {
+      if (rename.fileNames.length !== (rename.photoPaths?.length ?? 0)) {
+        return createErrorResult(
+          new FileSystemError(
+            `Expected one file name per photo of "${rename.newName}"`,
+            'VALIDATION_FAILED'
+          )
+        );
+      }
+      const invalidFileName = rename.fileNames.find(name => !createValidFileName(name) || name.includes('/'));
+      if (invalidFileName !== undefined) {
+        return createErrorResult(
+          new FileSystemError(
+            `Invalid file name "${invalidFileName}"`,
+            'INVALID_NAME',
+            'File name contains invalid characters'
+          )
+        );
+      }
+      // Gathered photos all end up in the new folder
+      const targets = getPhotoMoves(rename).map(move => [...(rename.path ? move.parentSegments : []), move.newName].join('/'));
+      if (new Set(targets).size !== targets.length) {
+        return createErrorResult(
+          new FileSystemError(
+            `Two photos of "${rename.newName}" would get the same name`,
+            'VALIDATION_FAILED'
+          )
+        );
+      }
+    }
+    validatedRenames.push({ rename, newName });
+  }
+
+  try {
+    const rootHandle = await window.showDirectoryPicker({
+      mode: 'readwrite'
+    });
+
+    // Check that everything exists before changing anything, in case a different folder was selected
+    for (const { rename } of validatedRenames) {
+      for (const path of [...(rename.path ? [rename.path] : []), ...rename.photoPaths ?? []]) {
+        const { parentSegments, name } = splitPath(path);
+        const found = await getDirectoryAtPath(rootHandle, parentSegments)
+          .then(parent => isEntryPresent(parent, name))
+          .catch(() => false);
+        if (!found) {
+          return createErrorResult(
+            new FileSystemError(
+              `"${path}" was not found in "${rootHandle.name}"`,
+              'NOT_FOUND',
+              'Select the same folder that was dropped into the app'
+            )
+          );
+        }
+      }
+
+      // Photos renamed in their folder never replace another file, including one that is renamed later
+      if (rename.path) {
+        for (const move of getPhotoMoves(rename)) {
+          if (move.name === move.newName) continue;
+          const taken = await getDirectoryAtPath(rootHandle, move.parentSegments)
+            .then(parent => isEntryPresent(parent, move.newName));
+          if (taken) {
+            return createErrorResult(
+              new FileSystemError(
+                `Cannot rename "${[...move.parentSegments, move.name].join('/')}": "${move.newName}" already exists`,
+                'ALREADY_EXISTS'
+              )
+            );
+          }
+        }
+      }
+    }
+
+    const total = validatedRenames.length;
+    const renamed: CompletedRename[] = [];
+    for (const [index, { rename, newName }] of validatedRenames.entries()) {
+      onProgress?.({
+        current: index,
+        total,
+        status: 'renaming',
+        currentFile: `${rename.path ?? newName} → ${newName}`
+      });
+
+      const renameResult = await applyInPlaceRename(rootHandle, rename, newName).catch((error: unknown) => createErrorResult(
+        new FileSystemError(
+          `Failed to rename "${rename.path ?? newName}"`,
+          'CREATE_FAILED',
+          error instanceof Error ? error.message : String(error)
+        )
+      ));
+      if (!renameResult.success) {
+        return createSuccessResult({ renamed, failure: renameResult.error });
+      }
+      renamed.push({ index, ...renameResult.data });
     }
 
     onProgress?.({
-      current: totalFiles,
-      total: totalFiles,
+      current: total,
+      total,
       status: 'completed'
     });
 
-    return createSuccessResult(undefined);
-
+    return createSuccessResult({ renamed });
   } catch (error) {
+    // Closing the folder picker is not an error; nothing has been renamed yet
     if (error instanceof Error && error.name === 'AbortError') {
       return createErrorResult(
-        new FileSystemError(
-          '操作がキャンセルされました',
-          'PERMISSION_DENIED',
-          'User cancelled the operation'
-        )
+        new FileSystemError('Renaming was cancelled', 'CANCELLED', 'The folder picker was closed')
       );
     }
-    
+
     return createErrorResult(
       new FileSystemError(
-        'フォルダの作成中にエラーが発生しました',
+        'Failed to rename the folders',
         'CREATE_FAILED',
         error instanceof Error ? error.message : String(error)
       )
@@ -400,6 +1807,106 @@ export const organizePhotosToFolders = async (
   }
 };
 
+// Put a photo back where it was taken from; never replaces something that is there now
+const restoreToSource = async (
+  file: File,
+  sourceRoot: FileSystemDirectoryHandle,
+  sourcePath: string
+): FileSystemResult<boolean> => {
+  const { parentSegments, name } = splitPath(sourcePath);
+  const parent = await getDirectoryAtPath(sourceRoot, parentSegments, true);
+  if (await getExistingFile(parent, name)) {
+    return createSuccessResult(false);
+  }
+  const copyResult = await copyVerifiedFile(file, await parent.getFileHandle(name, { create: true }));
+  return copyResult.success ? createSuccessResult(true) : copyResult;
+};
+
+// Undo an organize run step by step. Files that no longer look like what was written are kept,
+// and folders are only removed once nothing else is left in them.
+export const revertOrganize = async (
+  targetDirHandle: FileSystemDirectoryHandle,
+  sourceDirHandle: FileSystemDirectoryHandle | undefined,
+  actions: readonly UndoAction[],
+  onProgress?: ProgressCallback
+): FileSystemResult<UndoSummary> => {
+  const total = actions.length;
+  let reverted = 0;
+  const kept: string[] = [];
+
+  try {
+    for (const [index, action] of actions.entries()) {
+      onProgress?.({
+        current: index,
+        total,
+        status: 'reverting',
+        currentFile: action.path
+      });
+
+      const { parentSegments, name } = splitPath(action.path);
+      const parent = await getDirectoryAtPath(targetDirHandle, parentSegments).catch(() => null);
+      if (!parent) {
+        kept.push(action.path);
+        continue;
+      }
+
+      if (action.type === 'removeFolder') {
+        const folder = await getExistingDirectory(parent, name);
+        if (folder && await isFolderEmpty(folder)) {
+          await parent.removeEntry(name, { recursive: true });
+          reverted++;
+        } else if (folder) {
+          kept.push(action.path);
+        }
+        continue;
+      }
+
+      const fileHandle = await getExistingFile(parent, name);
+      const file = fileHandle ? await fileHandle.getFile() : null;
+      if (!file || file.size !== action.size) {
+        kept.push(action.path);
+        continue;
+      }
+
+      if (action.type !== 'deleteCopy') {
+        if (!sourceDirHandle) {
+          kept.push(action.path);
+          continue;
+        }
+        const restoreResult = await restoreToSource(file, sourceDirHandle, action.sourcePath);
+        if (!restoreResult.success) {
+          return restoreResult;
+        }
+        if (!restoreResult.data) {
+          kept.push(action.path);
+          continue;
+        }
+      }
+
+      if (action.type !== 'copyBack') {
+        await parent.removeEntry(name);
+      }
+      reverted++;
+    }
+  } catch (error) {
+    return createErrorResult(
+      new FileSystemError(
+        'Failed to undo the organize run',
+        'DELETE_FAILED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+
+  onProgress?.({
+    current: total,
+    total,
+    status: 'completed'
+  });
+
+  return createSuccessResult({ reverted, kept });
+};
+
 // Type-safe folder name validation that returns a branded type
 export const validateFolderName = (name: string): ValidFolderName | null => {
   return createValidFolderName(name);
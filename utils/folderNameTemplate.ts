@@ -0,0 +1,206 @@
+// Folder name template engine shared by every output path (card, script, organizer)
+
+import { DateLogic, Folder } from '../types';
+import { validateFolderName } from './fileSystemUtils';
+import { getDateParts } from './photoDates';
+import { getPhotoCamera } from './photoMetadata';
+
+export const DEFAULT_FOLDER_NAME_TEMPLATE = '{date:YYYY-MM-DD}_{name}';
+
+export const FOLDER_NAME_TOKENS = ['date', 'start', 'end', 'count', 'camera', 'name', 'original', 'seq'] as const;
+
+export type FolderNameToken = typeof FOLDER_NAME_TOKENS[number];
+
+const DEFAULT_DATE_PATTERN = 'YYYY-MM-DD';
+
+// {token} or {token:argument}; shared with the photo name template
+export const TOKEN_PATTERN = /\{(\w+)(?::([^{}]*))?\}/g;
+
+// Values available to a template for one folder
+export interface FolderNameContext {
+  readonly date: Date | null;
+  readonly start: Date | null;
+  readonly end: Date | null;
+  readonly count: number;
+  readonly camera: string;
+  readonly name: string;
+  readonly original: string;
+  readonly seq: number;
+  readonly isRange?: boolean; // Render {date} as the start~end span
+}
+
+export interface FolderNameOptions {
+  readonly template: string;
+  readonly unknownDate: string; // Rendered in place of a missing date
+  readonly timeZone?: string; // IANA zone dates are shown in, the browser's zone when empty
+}
+
+export interface TemplateValidationError {
+  readonly code: 'UNKNOWN_TOKEN' | 'UNBALANCED_BRACES' | 'INVALID_NAME';
+  readonly detail?: string;
+}
+
+const isFolderNameToken = (value: string): value is FolderNameToken => {
+  return (FOLDER_NAME_TOKENS as readonly string[]).includes(value);
+};
+
+const pad = (value: number, width: number = 2): string => String(value).padStart(width, '0');
+
+// Format a date with YYYY/YY/MM/DD/HH/mm/ss placeholders in the given time zone
+export const formatDatePattern = (date: Date, pattern: string = DEFAULT_DATE_PATTERN, timeZone?: string): string => {
+  const parts = getDateParts(date, timeZone);
+  return pattern.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (part) => {
+    switch (part) {
+      case 'YYYY': return String(parts.year);
+      case 'YY': return pad(parts.year % 100);
+      case 'MM': return pad(parts.month);
+      case 'DD': return pad(parts.day);
+      case 'HH': return pad(parts.hour);
+      case 'mm': return pad(parts.minute);
+      case 'ss': return pad(parts.second);
+      default: return part;
+    }
+  });
+};
+
+// Format a span as "2024-03-01~03-05", dropping the year from the end when it is shared
+export const formatDateRange = (
+  start: Date,
+  end: Date,
+  pattern: string = DEFAULT_DATE_PATTERN,
+  timeZone?: string
+): string => {
+  const startParts = getDateParts(start, timeZone);
+  const endParts = getDateParts(end, timeZone);
+  const sameYear = startParts.year === endParts.year;
+  if (sameYear && startParts.month === endParts.month && startParts.day === endParts.day) {
+    return formatDatePattern(start, pattern, timeZone);
+  }
+
+  let endPattern = pattern;
+  if (sameYear) {
+    // Strip the year together with its separator, e.g. "YYYY-MM-DD" -> "MM-DD", "DD.MM.YYYY" -> "DD.MM"
+    const stripped = pattern.replace(/(YYYY|YY)[^A-Za-z]?/, '').replace(/^[^A-Za-z]+|[^A-Za-z]+$/g, '');
+    if (/[A-Za-z]/.test(stripped)) endPattern = stripped;
+  }
+
+  return `${formatDatePattern(start, pattern, timeZone)}~${formatDatePattern(end, endPattern, timeZone)}`;
+};
+
+// Most frequent "Make Model" among the folder's photos, '' when unknown
+export const getFolderCamera = (folder: Folder): string => {
+  const counts = new Map<string, number>();
+  for (const photo of folder.photos) {
+    const camera = getPhotoCamera(photo);
+    if (camera) counts.set(camera, (counts.get(camera) ?? 0) + 1);
+  }
+  let best = '';
+  let bestCount = 0;
+  counts.forEach((count, camera) => {
+    if (count > bestCount) {
+      best = camera;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const getPhotoDateBounds = (folder: Folder): { start: Date | null; end: Date | null } => {
+  if (folder.metadata?.dateRange) {
+    return { start: folder.metadata.dateRange.earliest, end: folder.metadata.dateRange.latest };
+  }
+  const times = folder.photos
+    .map(photo => (photo.date ? new Date(photo.date).getTime() : NaN))
+    .filter(time => !isNaN(time));
+  if (times.length === 0) return { start: null, end: null };
+  return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)) };
+};
+
+// The pinned date wins over the one computed from the photos
+export const getFolderDate = (folder: Folder): Date | null => {
+  const date = folder.pinnedDate ?? folder.representativeDate;
+  return date ? new Date(date) : null;
+};
+
+export const buildFolderNameContext = (folder: Folder, seq: number): FolderNameContext => {
+  const { start, end } = getPhotoDateBounds(folder);
+  return {
+    date: getFolderDate(folder),
+    start,
+    end,
+    count: folder.photos.length,
+    camera: getFolderCamera(folder),
+    name: folder.newName,
+    original: folder.originalName,
+    seq,
+    isRange: !folder.pinnedDate && folder.dateLogic === DateLogic.RANGE
+  };
+};
+
+export const renderFolderNameTemplate = (
+  template: string,
+  context: FolderNameContext,
+  unknownDate: string,
+  timeZone?: string
+): string => {
+  return template.replace(TOKEN_PATTERN, (match, token: string, arg?: string) => {
+    if (!isFolderNameToken(token)) return match;
+
+    switch (token) {
+      case 'date':
+        if (context.isRange && context.start && context.end) {
+          return formatDateRange(context.start, context.end, arg || DEFAULT_DATE_PATTERN, timeZone);
+        }
+        return context.date ? formatDatePattern(context.date, arg || DEFAULT_DATE_PATTERN, timeZone) : unknownDate;
+      case 'start':
+      case 'end': {
+        const date = context[token];
+        return date ? formatDatePattern(date, arg || DEFAULT_DATE_PATTERN, timeZone) : unknownDate;
+      }
+      case 'seq':
+      case 'count': {
+        const width = Number(arg);
+        return Number.isInteger(width) && width > 0 ? pad(context[token], width) : String(context[token]);
+      }
+      default:
+        return context[token];
+    }
+  });
+};
+
+// Final name of a folder as used by the card, the rename script and the organizer
+export const getFinalFolderName = (folder: Folder, seq: number, options: FolderNameOptions): string => {
+  return renderFolderNameTemplate(
+    options.template,
+    buildFolderNameContext(folder, seq),
+    options.unknownDate,
+    options.timeZone
+  ).trim();
+};
+
+// Check template syntax; pass a sample context to also validate the rendered name
+export const validateFolderNameTemplate = (
+  template: string,
+  sample?: { context: FolderNameContext; unknownDate: string; timeZone?: string }
+): TemplateValidationError[] => {
+  const errors: TemplateValidationError[] = [];
+
+  for (const [, token] of template.matchAll(TOKEN_PATTERN)) {
+    if (!isFolderNameToken(token)) {
+      errors.push({ code: 'UNKNOWN_TOKEN', detail: token });
+    }
+  }
+
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ''))) {
+    errors.push({ code: 'UNBALANCED_BRACES' });
+  }
+
+  if (errors.length === 0 && sample) {
+    const rendered = renderFolderNameTemplate(template, sample.context, sample.unknownDate, sample.timeZone).trim();
+    if (!validateFolderName(rendered)) {
+      errors.push({ code: 'INVALID_NAME', detail: rendered });
+    }
+  }
+
+  return errors;
+};
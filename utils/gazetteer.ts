@@ -0,0 +1,214 @@
+// Offline place lookup for GPS-based folder name suggestions; no network access
+
+import { GeoPoint } from '../types';
+
+export interface Place {
+  readonly name: string;
+  readonly nameJa: string;
+  readonly region: string; // Prefecture for Japan, country elsewhere
+  readonly regionJa: string;
+  readonly latitude: number;
+  readonly longitude: number;
+}
+
+export interface NearestPlace {
+  readonly place: Place;
+  readonly distanceKm: number;
+}
+
+// Within this distance the city itself is suggested, beyond it only its region
+export const CITY_RADIUS_KM = 30;
+export const REGION_RADIUS_KM = 150;
+
+const EARTH_RADIUS_KM = 6371;
+
+type PlaceRow = [name: string, nameJa: string, region: string, regionJa: string, latitude: number, longitude: number];
+
+// Japanese prefectural capitals and popular destinations, followed by major cities worldwide
+const PLACE_ROWS: readonly PlaceRow[] = [
+  ['Sapporo', '札幌', 'Hokkaido', '北海道', 43.062, 141.354],
+  ['Hakodate', '函館', 'Hokkaido', '北海道', 41.769, 140.729],
+  ['Asahikawa', '旭川', 'Hokkaido', '北海道', 43.771, 142.365],
+  ['Otaru', '小樽', 'Hokkaido', '北海道', 43.191, 140.994],
+  ['Niseko', 'ニセコ', 'Hokkaido', '北海道', 42.805, 140.687],
+  ['Furano', '富良野', 'Hokkaido', '北海道', 43.342, 142.383],
+  ['Kushiro', '釧路', 'Hokkaido', '北海道', 42.985, 144.381],
+  ['Aomori', '青森', 'Aomori', '青森県', 40.822, 140.747],
+  ['Morioka', '盛岡', 'Iwate', '岩手県', 39.702, 141.154],
+  ['Sendai', '仙台', 'Miyagi', '宮城県', 38.268, 140.870],
+  ['Akita', '秋田', 'Akita', '秋田県', 39.720, 140.103],
+  ['Yamagata', '山形', 'Yamagata', '山形県', 38.240, 140.363],
+  ['Fukushima', '福島', 'Fukushima', '福島県', 37.750, 140.468],
+  ['Mito', '水戸', 'Ibaraki', '茨城県', 36.366, 140.471],
+  ['Utsunomiya', '宇都宮', 'Tochigi', '栃木県', 36.555, 139.883],
+  ['Nikko', '日光', 'Tochigi', '栃木県', 36.720, 139.698],
+  ['Maebashi', '前橋', 'Gunma', '群馬県', 36.391, 139.061],
+  ['Saitama', 'さいたま', 'Saitama', '埼玉県', 35.861, 139.646],
+  ['Chiba', '千葉', 'Chiba', '千葉県', 35.607, 140.106],
+  ['Narita', '成田', 'Chiba', '千葉県', 35.776, 140.318],
+  ['Tokyo', '東京', 'Tokyo', '東京都', 35.690, 139.692],
+  ['Hachioji', '八王子', 'Tokyo', '東京都', 35.666, 139.316],
+  ['Yokohama', '横浜', 'Kanagawa', '神奈川県', 35.444, 139.638],
+  ['Kawasaki', '川崎', 'Kanagawa', '神奈川県', 35.531, 139.703],
+  ['Kamakura', '鎌倉', 'Kanagawa', '神奈川県', 35.319, 139.547],
+  ['Hakone', '箱根', 'Kanagawa', '神奈川県', 35.232, 139.107],
+  ['Niigata', '新潟', 'Niigata', '新潟県', 37.916, 139.036],
+  ['Toyama', '富山', 'Toyama', '富山県', 36.695, 137.211],
+  ['Kanazawa', '金沢', 'Ishikawa', '石川県', 36.561, 136.656],
+  ['Fukui', '福井', 'Fukui', '福井県', 36.065, 136.222],
+  ['Kofu', '甲府', 'Yamanashi', '山梨県', 35.664, 138.568],
+  ['Kawaguchiko', '河口湖', 'Yamanashi', '山梨県', 35.497, 138.755],
+  ['Nagano', '長野', 'Nagano', '長野県', 36.651, 138.181],
+  ['Matsumoto', '松本', 'Nagano', '長野県', 36.238, 137.972],
+  ['Karuizawa', '軽井沢', 'Nagano', '長野県', 36.348, 138.597],
+  ['Gifu', '岐阜', 'Gifu', '岐阜県', 35.423, 136.761],
+  ['Takayama', '高山', 'Gifu', '岐阜県', 36.146, 137.252],
+  ['Shizuoka', '静岡', 'Shizuoka', '静岡県', 34.977, 138.383],
+  ['Hamamatsu', '浜松', 'Shizuoka', '静岡県', 34.711, 137.726],
+  ['Atami', '熱海', 'Shizuoka', '静岡県', 35.096, 139.072],
+  ['Nagoya', '名古屋', 'Aichi', '愛知県', 35.181, 136.906],
+  ['Tsu', '津', 'Mie', '三重県', 34.730, 136.509],
+  ['Ise', '伊勢', 'Mie', '三重県', 34.487, 136.709],
+  ['Otsu', '大津', 'Shiga', '滋賀県', 35.004, 135.869],
+  ['Kyoto', '京都', 'Kyoto', '京都府', 35.012, 135.768],
+  ['Osaka', '大阪', 'Osaka', '大阪府', 34.694, 135.502],
+  ['Kobe', '神戸', 'Hyogo', '兵庫県', 34.690, 135.196],
+  ['Himeji', '姫路', 'Hyogo', '兵庫県', 34.816, 134.685],
+  ['Nara', '奈良', 'Nara', '奈良県', 34.685, 135.805],
+  ['Wakayama', '和歌山', 'Wakayama', '和歌山県', 34.226, 135.167],
+  ['Tottori', '鳥取', 'Tottori', '鳥取県', 35.501, 134.235],
+  ['Matsue', '松江', 'Shimane', '島根県', 35.468, 133.049],
+  ['Okayama', '岡山', 'Okayama', '岡山県', 34.655, 133.919],
+  ['Kurashiki', '倉敷', 'Okayama', '岡山県', 34.585, 133.772],
+  ['Hiroshima', '広島', 'Hiroshima', '広島県', 34.385, 132.455],
+  ['Miyajima', '宮島', 'Hiroshima', '広島県', 34.296, 132.320],
+  ['Onomichi', '尾道', 'Hiroshima', '広島県', 34.409, 133.205],
+  ['Yamaguchi', '山口', 'Yamaguchi', '山口県', 34.186, 131.471],
+  ['Tokushima', '徳島', 'Tokushima', '徳島県', 34.066, 134.559],
+  ['Takamatsu', '高松', 'Kagawa', '香川県', 34.340, 134.043],
+  ['Matsuyama', '松山', 'Ehime', '愛媛県', 33.839, 132.766],
+  ['Kochi', '高知', 'Kochi', '高知県', 33.559, 133.531],
+  ['Fukuoka', '福岡', 'Fukuoka', '福岡県', 33.590, 130.402],
+  ['Kitakyushu', '北九州', 'Fukuoka', '福岡県', 33.883, 130.875],
+  ['Saga', '佐賀', 'Saga', '佐賀県', 33.249, 130.299],
+  ['Nagasaki', '長崎', 'Nagasaki', '長崎県', 32.750, 129.878],
+  ['Kumamoto', '熊本', 'Kumamoto', '熊本県', 32.803, 130.708],
+  ['Oita', '大分', 'Oita', '大分県', 33.238, 131.613],
+  ['Beppu', '別府', 'Oita', '大分県', 33.284, 131.491],
+  ['Miyazaki', '宮崎', 'Miyazaki', '宮崎県', 31.911, 131.424],
+  ['Kagoshima', '鹿児島', 'Kagoshima', '鹿児島県', 31.597, 130.557],
+  ['Naha', '那覇', 'Okinawa', '沖縄県', 26.212, 127.681],
+  ['Nago', '名護', 'Okinawa', '沖縄県', 26.592, 127.977],
+  ['Miyakojima', '宮古島', 'Okinawa', '沖縄県', 24.806, 125.281],
+  ['Ishigaki', '石垣', 'Okinawa', '沖縄県', 24.341, 124.156],
+
+  ['Seoul', 'ソウル', 'South Korea', '韓国', 37.566, 126.978],
+  ['Busan', '釜山', 'South Korea', '韓国', 35.180, 129.076],
+  ['Taipei', '台北', 'Taiwan', '台湾', 25.033, 121.565],
+  ['Hong Kong', '香港', 'Hong Kong', '香港', 22.320, 114.169],
+  ['Shanghai', '上海', 'China', '中国', 31.230, 121.474],
+  ['Beijing', '北京', 'China', '中国', 39.904, 116.407],
+  ['Bangkok', 'バンコク', 'Thailand', 'タイ', 13.756, 100.502],
+  ['Singapore', 'シンガポール', 'Singapore', 'シンガポール', 1.352, 103.820],
+  ['Kuala Lumpur', 'クアラルンプール', 'Malaysia', 'マレーシア', 3.139, 101.687],
+  ['Hanoi', 'ハノイ', 'Vietnam', 'ベトナム', 21.028, 105.834],
+  ['Ho Chi Minh City', 'ホーチミン', 'Vietnam', 'ベトナム', 10.823, 106.630],
+  ['Manila', 'マニラ', 'Philippines', 'フィリピン', 14.600, 120.984],
+  ['Bali', 'バリ', 'Indonesia', 'インドネシア', -8.650, 115.216],
+  ['Jakarta', 'ジャカルタ', 'Indonesia', 'インドネシア', -6.208, 106.846],
+  ['Delhi', 'デリー', 'India', 'インド', 28.614, 77.209],
+  ['Mumbai', 'ムンバイ', 'India', 'インド', 19.076, 72.878],
+  ['Dubai', 'ドバイ', 'United Arab Emirates', 'アラブ首長国連邦', 25.205, 55.271],
+  ['Istanbul', 'イスタンブール', 'Turkey', 'トルコ', 41.008, 28.978],
+  ['Cairo', 'カイロ', 'Egypt', 'エジプト', 30.044, 31.236],
+  ['Cape Town', 'ケープタウン', 'South Africa', '南アフリカ', -33.925, 18.424],
+  ['London', 'ロンドン', 'United Kingdom', 'イギリス', 51.507, -0.128],
+  ['Paris', 'パリ', 'France', 'フランス', 48.857, 2.352],
+  ['Nice', 'ニース', 'France', 'フランス', 43.710, 7.262],
+  ['Berlin', 'ベルリン', 'Germany', 'ドイツ', 52.520, 13.405],
+  ['Munich', 'ミュンヘン', 'Germany', 'ドイツ', 48.135, 11.582],
+  ['Amsterdam', 'アムステルダム', 'Netherlands', 'オランダ', 52.368, 4.904],
+  ['Brussels', 'ブリュッセル', 'Belgium', 'ベルギー', 50.850, 4.352],
+  ['Zurich', 'チューリッヒ', 'Switzerland', 'スイス', 47.377, 8.542],
+  ['Vienna', 'ウィーン', 'Austria', 'オーストリア', 48.208, 16.374],
+  ['Prague', 'プラハ', 'Czechia', 'チェコ', 50.076, 14.438],
+  ['Rome', 'ローマ', 'Italy', 'イタリア', 41.903, 12.496],
+  ['Florence', 'フィレンツェ', 'Italy', 'イタリア', 43.770, 11.256],
+  ['Venice', 'ヴェネツィア', 'Italy', 'イタリア', 45.441, 12.316],
+  ['Milan', 'ミラノ', 'Italy', 'イタリア', 45.464, 9.190],
+  ['Barcelona', 'バルセロナ', 'Spain', 'スペイン', 41.385, 2.173],
+  ['Madrid', 'マドリード', 'Spain', 'スペイン', 40.417, -3.704],
+  ['Lisbon', 'リスボン', 'Portugal', 'ポルトガル', 38.722, -9.139],
+  ['Athens', 'アテネ', 'Greece', 'ギリシャ', 37.984, 23.728],
+  ['Copenhagen', 'コペンハーゲン', 'Denmark', 'デンマーク', 55.676, 12.568],
+  ['Stockholm', 'ストックホルム', 'Sweden', 'スウェーデン', 59.329, 18.069],
+  ['Helsinki', 'ヘルシンキ', 'Finland', 'フィンランド', 60.170, 24.938],
+  ['Reykjavik', 'レイキャビク', 'Iceland', 'アイスランド', 64.147, -21.942],
+  ['New York', 'ニューヨーク', 'United States', 'アメリカ', 40.713, -74.006],
+  ['Boston', 'ボストン', 'United States', 'アメリカ', 42.360, -71.059],
+  ['Washington', 'ワシントン', 'United States', 'アメリカ', 38.907, -77.037],
+  ['Chicago', 'シカゴ', 'United States', 'アメリカ', 41.878, -87.630],
+  ['Miami', 'マイアミ', 'United States', 'アメリカ', 25.762, -80.192],
+  ['Las Vegas', 'ラスベガス', 'United States', 'アメリカ', 36.170, -115.140],
+  ['Los Angeles', 'ロサンゼルス', 'United States', 'アメリカ', 34.052, -118.244],
+  ['San Francisco', 'サンフランシスコ', 'United States', 'アメリカ', 37.775, -122.419],
+  ['Seattle', 'シアトル', 'United States', 'アメリカ', 47.606, -122.332],
+  ['Honolulu', 'ホノルル', 'United States', 'アメリカ', 21.307, -157.858],
+  ['Guam', 'グアム', 'Guam', 'グアム', 13.444, 144.794],
+  ['Vancouver', 'バンクーバー', 'Canada', 'カナダ', 49.283, -123.121],
+  ['Toronto', 'トロント', 'Canada', 'カナダ', 43.653, -79.383],
+  ['Mexico City', 'メキシコシティ', 'Mexico', 'メキシコ', 19.433, -99.133],
+  ['Sao Paulo', 'サンパウロ', 'Brazil', 'ブラジル', -23.551, -46.633],
+  ['Rio de Janeiro', 'リオデジャネイロ', 'Brazil', 'ブラジル', -22.907, -43.173],
+  ['Buenos Aires', 'ブエノスアイレス', 'Argentina', 'アルゼンチン', -34.604, -58.382],
+  ['Sydney', 'シドニー', 'Australia', 'オーストラリア', -33.869, 151.209],
+  ['Melbourne', 'メルボルン', 'Australia', 'オーストラリア', -37.814, 144.963],
+  ['Cairns', 'ケアンズ', 'Australia', 'オーストラリア', -16.920, 145.771],
+  ['Auckland', 'オークランド', 'New Zealand', 'ニュージーランド', -36.849, 174.763]
+];
+
+export const PLACES: readonly Place[] = PLACE_ROWS.map(([name, nameJa, region, regionJa, latitude, longitude]) => ({
+  name,
+  nameJa,
+  region,
+  regionJa,
+  latitude,
+  longitude
+}));
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance (haversine)
+export const getDistanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const findNearestPlace = (point: GeoPoint, places: readonly Place[] = PLACES): NearestPlace | null => {
+  let nearest: NearestPlace | null = null;
+  for (const place of places) {
+    const distanceKm = getDistanceKm(point, place);
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { place, distanceKm };
+    }
+  }
+  return nearest;
+};
+
+// City name when close to one, otherwise the region; null when nothing is near
+export const suggestLocationName = (point: GeoPoint, locale: 'en' | 'ja' = 'en'): string | null => {
+  const nearest = findNearestPlace(point);
+  if (!nearest) return null;
+
+  const { place, distanceKm } = nearest;
+  if (distanceKm <= CITY_RADIUS_KM) {
+    return locale === 'ja' ? place.nameJa : place.name;
+  }
+  if (distanceKm <= REGION_RADIUS_KM) {
+    return locale === 'ja' ? place.regionJa : place.region;
+  }
+  return null;
+};
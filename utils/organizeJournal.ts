@@ -0,0 +1,373 @@
+// Journal of the latest organize run, kept in IndexedDB. While the run is unfinished it lets a run
+// cut short by a closed tab resume from the last completed photo; once finished it is the log used
+// to undo the run. Directory handles survive in IndexedDB, but their permission does not, so
+// resuming and undoing ask for it again.
+
+import { ConflictPolicy, OrganizeMode } from '../types';
+import {
+  CompletedFile,
+  FailedFile,
+  FileSystemError,
+  FileSystemResult,
+  OrganizeOptions,
+  OrganizePlan,
+  OrganizeSummary,
+  PlanExecutionOptions,
+  ProgressCallback,
+  RetryOptions,
+  UndoAction,
+  UndoSummary,
+  ensurePermission,
+  executeOrganizePlan,
+  getFileAtPath,
+  revertOrganize
+} from './fileSystemUtils';
+import { createErrorResult } from './typeGuards';
+
+export interface OrganizeJournal {
+  readonly startedAt: number;
+  readonly finishedAt?: number;
+  readonly mode: OrganizeMode;
+  readonly conflictPolicy: ConflictPolicy;
+  readonly verify?: boolean;
+  // Photos are read back from here on resume, and moved back here on undo
+  readonly sourceDirectoryHandle?: FileSystemDirectoryHandle;
+  readonly targetDirectoryHandle: FileSystemDirectoryHandle;
+  readonly plan: OrganizePlan;
+  readonly completed: readonly CompletedFile[]; // In plan order
+  readonly createdFolders: readonly string[];
+}
+
+type StoredJournal = Omit<OrganizeJournal, 'completed' | 'createdFolders'>;
+
+// What undoing a finished run will do, shown before anything is touched
+export interface UndoPreview {
+  readonly actions: readonly UndoAction[];
+  // Files written over an earlier file, whose earlier content cannot be brought back
+  readonly irreversible: readonly string[];
+}
+
+const DB_NAME = 'photo-folder-organizer';
+const DB_VERSION = 2;
+const JOURNAL_STORE = 'organizeJournal';
+const COMPLETED_STORE = 'organizeCompleted'; // One record per photo, so progress is appended rather than rewritten
+const FOLDERS_STORE = 'organizeCreatedFolders';
+const STORES = [JOURNAL_STORE, COMPLETED_STORE, FOLDERS_STORE];
+const JOURNAL_KEY = 'current';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openJournalDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+      db.createObjectStore(JOURNAL_STORE);
+    }
+    if (!db.objectStoreNames.contains(COMPLETED_STORE)) {
+      db.createObjectStore(COMPLETED_STORE, { autoIncrement: true });
+    }
+    if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+      db.createObjectStore(FOLDERS_STORE, { autoIncrement: true });
+    }
+  };
+  return requestToPromise(request);
+};
+
+const withStores = async (mode: IDBTransactionMode, run: (transaction: IDBTransaction) => void): Promise<void> => {
+  const db = await openJournalDatabase();
+  try {
+    const transaction = db.transaction(STORES, mode);
+    run(transaction);
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+};
+
+export const isJournalSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+// Replace any previous journal with a new run that has nothing completed yet
+export const startOrganizeJournal = async (journal: StoredJournal): Promise<void> => {
+  await withStores('readwrite', transaction => {
+    transaction.objectStore(COMPLETED_STORE).clear();
+    transaction.objectStore(FOLDERS_STORE).clear();
+    transaction.objectStore(JOURNAL_STORE).put(journal, JOURNAL_KEY);
+  });
+};
+
+export const recordCompletedFile = async (file: CompletedFile): Promise<void> => {
+  await withStores('readwrite', transaction => {
+    transaction.objectStore(COMPLETED_STORE).add(file);
+  });
+};
+
+export const recordCreatedFolder = async (path: string): Promise<void> => {
+  await withStores('readwrite', transaction => {
+    transaction.objectStore(FOLDERS_STORE).add(path);
+  });
+};
+
+// Journal entry of a photo a retry copied after all: what its copy was meant to be in the first place
+export const getRetriedEntry = (failure: FailedFile): CompletedFile => ({ outcome: failure.outcome, name: failure.name });
+
+// Replace the "failed" entry of a retried photo, which is at its position in the plan
+export const recordRetriedFile = async (failure: FailedFile): Promise<void> => {
+  await withStores('readwrite', transaction => {
+    const request = transaction.objectStore(COMPLETED_STORE).openCursor();
+    let position = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (position < failure.planIndex) {
+        cursor.advance(failure.planIndex - position);
+        position = failure.planIndex;
+        return;
+      }
+      cursor.update(getRetriedEntry(failure));
+    };
+  });
+};
+
+// Keep the journal of a finished run as the log for undo
+export const finishOrganizeJournal = async (): Promise<void> => {
+  await withStores('readwrite', transaction => {
+    const store = transaction.objectStore(JOURNAL_STORE);
+    const request = store.get(JOURNAL_KEY);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, finishedAt: Date.now() }, JOURNAL_KEY);
+      }
+    };
+  });
+};
+
+export const clearOrganizeJournal = async (): Promise<void> => {
+  await withStores('readwrite', transaction => {
+    for (const name of STORES) {
+      transaction.objectStore(name).clear();
+    }
+  });
+};
+
+// The latest run, finished or not, or null when there is none
+export const loadOrganizeJournal = async (): Promise<OrganizeJournal | null> => {
+  if (!isJournalSupported()) return null;
+
+  const db = await openJournalDatabase();
+  try {
+    const transaction = db.transaction(STORES, 'readonly');
+    const [journal, completed, createdFolders] = await Promise.all([
+      requestToPromise(transaction.objectStore(JOURNAL_STORE).get(JOURNAL_KEY)) as Promise<StoredJournal | undefined>,
+      requestToPromise(transaction.objectStore(COMPLETED_STORE).getAll()) as Promise<CompletedFile[]>,
+      requestToPromise(transaction.objectStore(FOLDERS_STORE).getAll()) as Promise<string[]>
+    ]);
+    return journal ? { ...journal, completed, createdFolders } : null;
+  } finally {
+    db.close();
+  }
+};
+
+export const getJournalFileCount = (journal: OrganizeJournal): number => {
+  return journal.plan.folders.reduce((sum, folder) => sum + folder.files.length, 0);
+};
+
+const warnJournalFailure = (error: unknown) => {
+  console.warn('Failed to update the organize journal:', error);
+};
+
+// Hooks for organizePhotosToFolders that keep the journal up to date.
+// The journal is a safety net: failing to write it never stops the photos from being organized.
+export const createJournalHooks = (
+  run: Pick<OrganizeJournal, 'mode' | 'conflictPolicy' | 'verify' | 'sourceDirectoryHandle'>
+): Pick<OrganizeOptions, 'onPlanned' | 'onFileDone' | 'onFolderCreated'> => {
+  if (!isJournalSupported()) return {};
+
+  let isJournaling = false;
+  return {
+    onPlanned: async (plan, targetDirectoryHandle) => {
+      try {
+        await startOrganizeJournal({ ...run, startedAt: Date.now(), targetDirectoryHandle, plan });
+        isJournaling = true;
+      } catch (error) {
+        console.warn('Failed to start the organize journal:', error);
+      }
+    },
+    onFileDone: async (file) => {
+      if (!isJournaling) return;
+      try {
+        await recordCompletedFile(file);
+      } catch (error) {
+        isJournaling = false;
+        warnJournalFailure(error);
+      }
+    },
+    onFolderCreated: async (path) => {
+      if (!isJournaling) return;
+      try {
+        await recordCreatedFolder(path);
+      } catch (error) {
+        isJournaling = false;
+        warnJournalFailure(error);
+      }
+    }
+  };
+};
+
+// Hooks for retryFailedFiles that add the photos copied after all to the journal of their run, so
+// undoing the run covers them too
+export const createRetryJournalHooks = (): Pick<RetryOptions, 'onFileRetried'> => {
+  if (!isJournalSupported()) return {};
+  return { onFileRetried: failure => recordRetriedFile(failure).catch(warnJournalFailure) };
+};
+
+// Continue an interrupted run after the last completed photo, reading the rest from the source folder.
+// Must be called from a user gesture, as it asks for the folder permissions again.
+export const resumeOrganizeJournal = async (
+  journal: OrganizeJournal,
+  onProgress?: ProgressCallback,
+  options: Pick<PlanExecutionOptions, 'signal' | 'onFileFailed'> = {}
+): FileSystemResult<OrganizeSummary> => {
+  const sourceDirectoryHandle = journal.sourceDirectoryHandle;
+  if (!sourceDirectoryHandle) {
+    return createErrorResult(
+      new FileSystemError(
+        'The photos of the interrupted run cannot be read again',
+        'NOT_SUPPORTED',
+        'Only runs of a folder dropped in Chrome or Edge can be resumed'
+      )
+    );
+  }
+
+  const sourceMode = journal.mode === OrganizeMode.MOVE ? 'readwrite' : 'read';
+  try {
+    // Asking throws for a handle whose folder is gone
+    if (
+      !(await ensurePermission(sourceDirectoryHandle, sourceMode)) ||
+      !(await ensurePermission(journal.targetDirectoryHandle, 'readwrite'))
+    ) {
+      return createErrorResult(
+        new FileSystemError(
+          'Access to the folders of the interrupted run was denied',
+          'PERMISSION_DENIED',
+          'Allow access to both folders to resume'
+        )
+      );
+    }
+
+    return await executeOrganizePlan(
+      journal.targetDirectoryHandle,
+      journal.plan,
+      async (folderIndex, fileIndex) => {
+        const { sourcePath } = journal.plan.folders[folderIndex].files[fileIndex];
+        if (!sourcePath) throw new Error('The photo has no path in the source folder');
+        return (await getFileAtPath(sourceDirectoryHandle, sourcePath)).getFile();
+      },
+      onProgress,
+      {
+        mode: journal.mode,
+        sourceDirectoryHandle,
+        conflictPolicy: journal.conflictPolicy,
+        verify: journal.verify,
+        completed: journal.completed,
+        onFileDone: file => recordCompletedFile(file).catch(warnJournalFailure),
+        onFolderCreated: path => recordCreatedFolder(path).catch(warnJournalFailure),
+        onFileFailed: options.onFileFailed,
+        signal: options.signal
+      }
+    );
+  } catch (error) {
+    return createErrorResult(
+      new FileSystemError(
+        'Failed to resume the interrupted run',
+        'COPY_FAILED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+};
+
+// Dry run of undoing a run: copies are deleted, moved photos go back to where they came from,
+// and the folders the run created are removed once empty
+export const planOrganizeUndo = (journal: OrganizeJournal): UndoPreview => {
+  const isMove = journal.mode === OrganizeMode.MOVE;
+  const plannedFiles = journal.plan.folders.flatMap(folder => folder.files.map(file => ({ folder, file })));
+  const actions: UndoAction[] = [];
+  const irreversible: string[] = [];
+
+  journal.completed.forEach((done, index) => {
+    const planned = plannedFiles[index];
+    if (!planned) return;
+    const path = [...planned.folder.path, done.name ?? planned.file.name].join('/');
+    const size = planned.file.size;
+    const sourcePath = planned.file.sourcePath;
+    const isWritten = done.outcome === 'copied' || done.outcome === 'renamed';
+
+    if (done.outcome === 'overwritten') {
+      irreversible.push(path);
+    }
+
+    if (!isMove) {
+      if (isWritten) actions.push({ type: 'deleteCopy', path, size });
+    } else if (sourcePath && isWritten) {
+      actions.push({ type: 'moveBack', path, sourcePath, size });
+    } else if (sourcePath && done.outcome !== 'skipped' && done.outcome !== 'failed') {
+      // The original was deleted, but the file in the target was there before the run
+      actions.push({ type: 'copyBack', path, sourcePath, size });
+    }
+  });
+
+  const deepestFirst = [...journal.createdFolders].sort((a, b) => b.split('/').length - a.split('/').length);
+  actions.push(...deepestFirst.map(path => ({ type: 'removeFolder' as const, path })));
+
+  return { actions, irreversible };
+};
+
+// Must be called from a user gesture, as it asks for the folder permissions again
+export const undoOrganizeJournal = async (
+  journal: OrganizeJournal,
+  preview: UndoPreview,
+  onProgress?: ProgressCallback
+): FileSystemResult<UndoSummary> => {
+  const needsSource = preview.actions.some(action => action.type === 'moveBack' || action.type === 'copyBack');
+  try {
+    // Asking throws for a handle whose folder is gone
+    if (
+      !(await ensurePermission(journal.targetDirectoryHandle, 'readwrite')) ||
+      (needsSource && (!journal.sourceDirectoryHandle || !(await ensurePermission(journal.sourceDirectoryHandle, 'readwrite'))))
+    ) {
+      return createErrorResult(
+        new FileSystemError(
+          'Access to the folders of the last organize run was denied',
+          'PERMISSION_DENIED',
+          'Allow access to both folders to undo'
+        )
+      );
+    }
+  } catch (error) {
+    return createErrorResult(
+      new FileSystemError(
+        'The folders of the last organize run cannot be accessed',
+        'PERMISSION_DENIED',
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+  }
+
+  return revertOrganize(journal.targetDirectoryHandle, journal.sourceDirectoryHandle, preview.actions, onProgress);
+};
@@ -0,0 +1,63 @@
+// Estimates and exports for the dry-run preview shown before organizing
+
+import { OrganizeMode } from '../types';
+import { OrganizePreview } from './fileSystemUtils';
+
+// Rough figures for a local disk; the estimate only needs to tell seconds from hours
+const BYTES_PER_SECOND = 40 * 1024 * 1024;
+const SECONDS_PER_FILE = 0.05;
+// Moving reads every copy back to verify it and then deletes the original
+const MOVE_FACTOR = 2.5;
+
+export const estimateOrganizeSeconds = (preview: OrganizePreview, mode: OrganizeMode): number => {
+  const seconds = preview.totalBytes / BYTES_PER_SECOND + preview.files.length * SECONDS_PER_FILE;
+  return Math.ceil(mode === OrganizeMode.MOVE ? seconds * MOVE_FACTOR : seconds);
+};
+
+export type PreviewExportFormat = 'json' | 'csv';
+
+// Quote a field when it contains the delimiter, a quote or a line break (RFC 4180)
+export const toDelimitedRow = (fields: readonly (string | number)[], delimiter = ','): string => {
+  return fields
+    .map(field => {
+      const text = String(field);
+      return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(delimiter);
+};
+
+export const previewToCsv = (preview: OrganizePreview): string => {
+  const rows = [
+    toDelimitedRow(['destination', 'source', 'size', 'conflict']),
+    ...preview.files.map(file => toDelimitedRow([file.destination, file.sourcePath ?? '', file.size, file.conflict ? 'yes' : '']))
+  ];
+  return rows.join('\r\n') + '\r\n';
+};
+
+export const previewToJson = (preview: OrganizePreview, mode: OrganizeMode, targetName?: string): string => {
+  return JSON.stringify(
+    {
+      target: targetName ?? null,
+      mode,
+      totalBytes: preview.totalBytes,
+      estimatedSeconds: estimateOrganizeSeconds(preview, mode),
+      newFolders: preview.newFolders,
+      files: preview.files,
+      conflicts: preview.conflicts,
+      invalidFolders: preview.invalidFolders
+    },
+    null,
+    2
+  );
+};
+
+export const createPreviewExportBlob = (
+  preview: OrganizePreview,
+  format: PreviewExportFormat,
+  mode: OrganizeMode,
+  targetName?: string
+): { blob: Blob; filename: string } => {
+  return format === 'csv'
+    ? { blob: new Blob([previewToCsv(preview)], { type: 'text/csv;charset=utf-8' }), filename: 'organize-plan.csv' }
+    : { blob: new Blob([previewToJson(preview, mode, targetName)], { type: 'application/json' }), filename: 'organize-plan.json' };
+};
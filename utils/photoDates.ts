@@ -0,0 +1,196 @@
+// Time zone aware date parts and main-thread date selection for folders
+
+import { DateLogic, Folder, Photo } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Outliers lie beyond Tukey fences (1.5 x IQR), widened so real multi-day trips are kept
+const OUTLIER_MIN_FENCE_MS = 7 * DAY_MS;
+
+export interface DateParts {
+  readonly year: number;
+  readonly month: number; // 1-12
+  readonly day: number;
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar parts of a date in the given IANA time zone; the browser's zone when none is given
+export const getDateParts = (date: Date, timeZone?: string): DateParts => {
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds()
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+// Noon of a calendar day in the given zone, so the day survives small offset changes
+export const createDateInTimeZone = (year: number, month: number, day: number, timeZone?: string): Date => {
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return new Date(year, month - 1, day, 12);
+  }
+  const guess = Date.UTC(year, month - 1, day, 12);
+  const parts = getDateParts(new Date(guess), timeZone);
+  const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - guess;
+  return new Date(guess - offset);
+};
+
+// Time zones offered in the settings; the empty value means the browser's zone
+export const getAvailableTimeZones = (): string[] => {
+  const supported = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return supported.includes('UTC') ? supported : ['UTC', ...supported];
+};
+
+const quantile = (sorted: readonly number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (next - sorted[base]) * (pos - base);
+};
+
+const rejectOutliers = (sorted: readonly number[]): { kept: readonly number[]; outliers: number } => {
+  if (sorted.length < 4) return { kept: sorted, outliers: 0 };
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = Math.max(1.5 * (q3 - q1), OUTLIER_MIN_FENCE_MS);
+  const kept = sorted.filter(time => time >= q1 - fence && time <= q3 + fence);
+  return { kept, outliers: sorted.length - kept.length };
+};
+
+const getDayKey = (time: number, timeZone?: string): string => {
+  const { year, month, day } = getDateParts(new Date(time), timeZone);
+  return `${year}-${month}-${day}`;
+};
+
+// Pick the representative timestamp of a non-empty list for the chosen date logic.
+// 'mode' counts photos per calendar day in the given zone; the browser's zone when none is given.
+export const selectRepresentativeTime = (
+  times: readonly number[],
+  dateLogic: DateLogic = DateLogic.EARLIEST,
+  timeZone?: string
+): { time: number; outliers: number } => {
+  const sorted = [...times].sort((a, b) => a - b);
+
+  switch (dateLogic) {
+    case DateLogic.LATEST:
+      return { time: sorted[sorted.length - 1], outliers: 0 };
+    case DateLogic.MEDIAN:
+      return { time: sorted[Math.floor((sorted.length - 1) / 2)], outliers: 0 };
+    case DateLogic.MODE: {
+      const counts = new Map<string, { count: number; first: number }>();
+      let best: { count: number; first: number } | null = null;
+      for (const time of sorted) {
+        const key = getDayKey(time, timeZone);
+        const entry = counts.get(key) ?? { count: 0, first: time };
+        entry.count++;
+        counts.set(key, entry);
+        if (!best || entry.count > best.count) best = entry;
+      }
+      return { time: best!.first, outliers: 0 };
+    }
+    case DateLogic.TRIMMED_EARLIEST: {
+      const { kept, outliers } = rejectOutliers(sorted);
+      return { time: kept[0], outliers };
+    }
+    default:
+      return { time: sorted[0], outliers: 0 };
+  }
+};
+
+const getPhotoTimes = (photos: readonly Photo[]): number[] => {
+  return photos
+    .map(photo => (photo.date ? new Date(photo.date).getTime() : NaN))
+    .filter(time => !isNaN(time));
+};
+
+// Choose the folder date from its photos with the folder's date logic
+export const selectFolderDate = (folder: Folder, timeZone?: string): Folder => {
+  const times = getPhotoTimes(folder.photos);
+
+  let representativeDate: Date | null = null;
+  let outlierCount = 0;
+  if (times.length > 0) {
+    const { time, outliers } = selectRepresentativeTime(times, folder.dateLogic, timeZone);
+    representativeDate = new Date(time);
+    outlierCount = outliers;
+  }
+
+  return {
+    ...folder,
+    representativeDate,
+    metadata: folder.metadata && { ...folder.metadata, outlierCount: outlierCount > 0 ? outlierCount : undefined }
+  };
+};
+
+const shiftDate = (date: Date, deltaMs: number): Date => new Date(date.getTime() + deltaMs);
+
+// Correct a camera clock that was off by N hours: shift the photos dated by the camera (EXIF), then
+// choose the folder date again. Dates from file names or file times do not carry the camera's error.
+export const applyClockOffset = (folder: Folder, offsetHours: number, timeZone?: string): Folder => {
+  const deltaMs = (offsetHours - (folder.clockOffsetHours ?? 0)) * HOUR_MS;
+  if (deltaMs === 0) return folder;
+
+  const photos = folder.photos.map(photo => {
+    if (!photo.date || photo.metadata?.dateSource !== 'exif') return photo;
+    return { ...photo, date: shiftDate(new Date(photo.date), deltaMs).toISOString() };
+  });
+
+  const times = getPhotoTimes(photos);
+  const metadata = folder.metadata && times.length > 0
+    ? {
+      ...folder.metadata,
+      dateRange: { earliest: new Date(Math.min(...times)), latest: new Date(Math.max(...times)) }
+    }
+    : folder.metadata;
+
+  return selectFolderDate({ ...folder, photos, metadata, clockOffsetHours: offsetHours }, timeZone);
+};
@@ -0,0 +1,164 @@
+// Projection and marker clustering for the SVG photo map
+
+import { Folder, GeoPoint, Photo } from '../types';
+import { OutlineRing } from './worldOutline';
+
+export interface MapPhoto {
+  readonly photo: Photo;
+  readonly folderId: string;
+  readonly point: GeoPoint;
+}
+
+export interface MapViewport {
+  readonly width: number;
+  readonly height: number;
+  readonly padding: number;
+}
+
+export interface MapBounds {
+  readonly minX: number;
+  readonly minY: number;
+  readonly maxX: number;
+  readonly maxY: number;
+}
+
+export interface MapCluster {
+  readonly x: number;
+  readonly y: number;
+  readonly items: readonly MapPhoto[];
+  readonly folderIds: readonly string[];
+}
+
+// Latitudes beyond this cannot be drawn in Web Mercator
+const MAX_LATITUDE = 85.05112878;
+
+// Smallest span shown, roughly a few kilometres, so a single photo is not zoomed in infinitely
+const MIN_SPAN = 0.0002;
+
+// Web Mercator in unit space: x and y both in [0, 1], y growing southwards
+export const projectPoint = ({ latitude, longitude }: GeoPoint): { x: number; y: number } => {
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI / 180;
+  return {
+    x: (longitude + 180) / 360,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2
+  };
+};
+
+export const unprojectPoint = (x: number, y: number): GeoPoint => {
+  const n = Math.PI - 2 * Math.PI * y;
+  return {
+    latitude: 180 / Math.PI * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n))),
+    longitude: x * 360 - 180
+  };
+};
+
+export const collectMapPhotos = (folders: readonly Folder[]): MapPhoto[] => {
+  return folders.flatMap(folder =>
+    folder.photos
+      .filter(photo => photo.metadata?.gps)
+      .map(photo => ({ photo, folderId: folder.id, point: photo.metadata!.gps! }))
+  );
+};
+
+export const getMapBounds = (points: readonly GeoPoint[]): MapBounds | null => {
+  if (points.length === 0) return null;
+  const projected = points.map(projectPoint);
+  let minX = Math.min(...projected.map(p => p.x));
+  let maxX = Math.max(...projected.map(p => p.x));
+  let minY = Math.min(...projected.map(p => p.y));
+  let maxY = Math.max(...projected.map(p => p.y));
+
+  if (maxX - minX < MIN_SPAN) {
+    const center = (minX + maxX) / 2;
+    minX = center - MIN_SPAN / 2;
+    maxX = center + MIN_SPAN / 2;
+  }
+  if (maxY - minY < MIN_SPAN) {
+    const center = (minY + maxY) / 2;
+    minY = center - MIN_SPAN / 2;
+    maxY = center + MIN_SPAN / 2;
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+// Scale the bounds into the viewport keeping the aspect ratio, centred
+export const createProjector = (bounds: MapBounds, viewport: MapViewport) => {
+  const innerWidth = viewport.width - viewport.padding * 2;
+  const innerHeight = viewport.height - viewport.padding * 2;
+  const scale = Math.min(innerWidth / (bounds.maxX - bounds.minX), innerHeight / (bounds.maxY - bounds.minY));
+  const offsetX = viewport.padding + (innerWidth - (bounds.maxX - bounds.minX) * scale) / 2;
+  const offsetY = viewport.padding + (innerHeight - (bounds.maxY - bounds.minY) * scale) / 2;
+
+  return {
+    scale,
+    toScreen: (point: GeoPoint) => {
+      const { x, y } = projectPoint(point);
+      return { x: offsetX + (x - bounds.minX) * scale, y: offsetY + (y - bounds.minY) * scale };
+    },
+    toGeo: (x: number, y: number): GeoPoint => {
+      return unprojectPoint(bounds.minX + (x - offsetX) / scale, bounds.minY + (y - offsetY) / scale);
+    }
+  };
+};
+
+// Greedy clustering: each photo joins the first cluster within radius, clusters sit at their mean position
+export const clusterMapPhotos = (
+  photos: readonly MapPhoto[],
+  toScreen: (point: GeoPoint) => { x: number; y: number },
+  radius: number
+): MapCluster[] => {
+  const clusters: Array<{ sumX: number; sumY: number; x: number; y: number; items: MapPhoto[] }> = [];
+
+  for (const item of photos) {
+    const { x, y } = toScreen(item.point);
+    const cluster = clusters.find(c => Math.hypot(c.x - x, c.y - y) <= radius);
+    if (cluster) {
+      cluster.items.push(item);
+      cluster.sumX += x;
+      cluster.sumY += y;
+      cluster.x = cluster.sumX / cluster.items.length;
+      cluster.y = cluster.sumY / cluster.items.length;
+    } else {
+      clusters.push({ sumX: x, sumY: y, x, y, items: [item] });
+    }
+  }
+
+  return clusters.map(({ x, y, items }) => ({
+    x,
+    y,
+    items,
+    folderIds: Array.from(new Set(items.map(item => item.folderId)))
+  }));
+};
+
+// SVG path data for outline rings in screen coordinates, leaving out rings outside the viewport. Rings
+// are wound one way, or the other for holes, so overlapping land stays filled and seas are cut out of it.
+export const getOutlinePath = (
+  rings: readonly OutlineRing[],
+  toScreen: (point: GeoPoint) => { x: number; y: number },
+  viewport: Pick<MapViewport, 'width' | 'height'>,
+  holes = false
+): string => {
+  return rings.map(ring => {
+    const points = ring.map(([longitude, latitude]) => toScreen({ latitude, longitude }));
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    if (Math.max(...xs) < 0 || Math.min(...xs) > viewport.width || Math.max(...ys) < 0 || Math.min(...ys) > viewport.height) {
+      return '';
+    }
+
+    // Shoelace formula; positive is clockwise on screen, as y grows downwards
+    const area = points.reduce((sum, p, i) => {
+      const next = points[(i + 1) % points.length];
+      return sum + p.x * next.y - next.x * p.y;
+    }, 0);
+    const ordered = (area < 0) === holes ? points : [...points].reverse();
+    return `M${ordered.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join('L')}Z`;
+  }).join('');
+};
+
+// Evenly spaced grid lines (degrees) covering the visible range
+export const getGraticuleStep = (spanDegrees: number): number => {
+  const steps = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30];
+  return steps.find(step => spanDegrees / step <= 8) ?? 30;
+};
@@ -0,0 +1,145 @@
+// Human readable EXIF details for the metadata panel
+
+import { Folder, Photo } from '../types';
+
+export type PhotoMetadataLabel =
+  | 'metadataCamera'
+  | 'metadataLens'
+  | 'metadataExposure'
+  | 'metadataAperture'
+  | 'metadataIso'
+  | 'metadataFocalLength'
+  | 'metadataDimensions'
+  | 'metadataOrientation'
+  | 'metadataFileSize'
+  | 'metadataFileType';
+
+export interface PhotoMetadataRow {
+  readonly label: PhotoMetadataLabel;
+  readonly value: string;
+}
+
+// Camera shared by some of the loaded photos; '' groups the photos without Make/Model
+export interface CameraFacet {
+  readonly camera: string;
+  readonly folderCount: number;
+  readonly photoCount: number;
+}
+
+// EXIF Orientation values 1-8
+const ORIENTATION_LABELS: Record<number, string> = {
+  1: 'Horizontal (normal)',
+  2: 'Mirror horizontal',
+  3: 'Rotate 180',
+  4: 'Mirror vertical',
+  5: 'Mirror horizontal and rotate 270 CW',
+  6: 'Rotate 90 CW',
+  7: 'Mirror horizontal and rotate 90 CW',
+  8: 'Rotate 270 CW'
+};
+
+const asString = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const asNumber = (value: unknown): number | null => {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// "Canon" + "Canon EOS R5" -> "Canon EOS R5"
+export const formatCameraName = (make: unknown, model: unknown): string | null => {
+  const makeName = asString(make);
+  const modelName = asString(model);
+  if (makeName && modelName) {
+    return modelName.toLowerCase().startsWith(makeName.toLowerCase()) ? modelName : `${makeName} ${modelName}`;
+  }
+  return modelName ?? makeName;
+};
+
+// Camera name of a photo, '' when unknown
+export const getPhotoCamera = (photo: Photo): string => {
+  const exif = photo.metadata?.exifData;
+  return formatCameraName(exif?.Make, exif?.Model) ?? '';
+};
+
+export const folderHasCamera = (folder: Folder, camera: string): boolean => {
+  return folder.photos.some(photo => getPhotoCamera(photo) === camera);
+};
+
+// Cameras by number of photos, the unknown camera last
+export const getCameraFacets = (folders: readonly Folder[]): CameraFacet[] => {
+  const facets = new Map<string, { folderIds: Set<string>; photoCount: number }>();
+  for (const folder of folders) {
+    for (const photo of folder.photos) {
+      const camera = getPhotoCamera(photo);
+      const facet = facets.get(camera) ?? { folderIds: new Set<string>(), photoCount: 0 };
+      facet.folderIds.add(folder.id);
+      facet.photoCount++;
+      facets.set(camera, facet);
+    }
+  }
+
+  return Array.from(facets, ([camera, { folderIds, photoCount }]) => ({
+    camera,
+    folderCount: folderIds.size,
+    photoCount
+  })).sort((a, b) => {
+    if (!a.camera !== !b.camera) return a.camera ? -1 : 1;
+    return b.photoCount - a.photoCount || a.camera.localeCompare(b.camera);
+  });
+};
+
+// 0.004 -> "1/250 s", 2.5 -> "2.5 s"
+export const formatExposureTime = (seconds: number): string => {
+  if (seconds > 0 && seconds < 1) {
+    return `1/${Math.round(1 / seconds)} s`;
+  }
+  return `${parseFloat(seconds.toFixed(1))} s`;
+};
+
+export const formatOrientation = (value: unknown): string | null => {
+  const orientation = asNumber(value);
+  if (orientation !== null) return ORIENTATION_LABELS[orientation] ?? String(orientation);
+  return asString(value);
+};
+
+export const getPhotoMetadataRows = (photo: Photo): PhotoMetadataRow[] => {
+  const metadata = photo.metadata;
+  const exif = metadata?.exifData ?? {};
+  const rows: PhotoMetadataRow[] = [];
+  const add = (label: PhotoMetadataLabel, value: string | null) => {
+    if (value) rows.push({ label, value });
+  };
+
+  add('metadataCamera', formatCameraName(exif.Make, exif.Model));
+  add('metadataLens', asString(exif.LensModel));
+
+  const exposureTime = asNumber(exif.ExposureTime);
+  add('metadataExposure', exposureTime !== null ? formatExposureTime(exposureTime) : null);
+
+  const fNumber = asNumber(exif.FNumber);
+  add('metadataAperture', fNumber !== null ? `f/${parseFloat(fNumber.toFixed(1))}` : null);
+
+  const iso = asNumber(exif.ISO);
+  add('metadataIso', iso !== null ? `ISO ${iso}` : null);
+
+  const focalLength = asNumber(exif.FocalLength);
+  add('metadataFocalLength', focalLength !== null ? `${parseFloat(focalLength.toFixed(1))} mm` : null);
+
+  add('metadataDimensions', metadata?.width && metadata?.height ? `${metadata.width} × ${metadata.height}` : null);
+  add('metadataOrientation', formatOrientation(exif.Orientation));
+
+  const size = metadata?.size ?? photo.file?.size;
+  add('metadataFileSize', typeof size === 'number' ? formatBytes(size) : null);
+  add('metadataFileType', asString(metadata?.mimeType) ?? asString(photo.file?.type));
+
+  return rows;
+};
@@ -0,0 +1,132 @@
+// File name template for the optional per-photo rename pass, shared by the card preview, the rename
+// scripts and the organizer. Dates are the ones the processing worker read from EXIF (or its
+// fallbacks), with any camera clock offset already applied.
+
+import { Folder, Photo } from '../types';
+import { TOKEN_PATTERN, TemplateValidationError, formatDatePattern } from './folderNameTemplate';
+import { getPhotoCamera } from './photoMetadata';
+
+export const DEFAULT_PHOTO_NAME_TEMPLATE = '{date:YYYYMMDD_HHmmss}_{seq:3}.{ext}';
+
+export const PHOTO_NAME_TOKENS = ['date', 'seq', 'ext', 'original', 'camera', 'folder'] as const;
+
+export type PhotoNameToken = typeof PHOTO_NAME_TOKENS[number];
+
+const DEFAULT_DATE_PATTERN = 'YYYYMMDD_HHmmss';
+
+// Characters no file system accepts in a name; a camera name like "A/B" must not become a subfolder
+const INVALID_FILE_NAME_CHARS = /[<>:"/\\|?*\x00-\x1f]/g;
+
+// Values available to a template for one photo
+export interface PhotoNameContext {
+  readonly date: Date | null;
+  readonly seq: number;
+  readonly ext: string; // Without the dot, as in the original name
+  readonly original: string; // Original name without the extension
+  readonly camera: string;
+  readonly folder: string; // Final name of the folder the photo ends up in
+}
+
+export interface PhotoNameOptions {
+  readonly template: string;
+  readonly unknownDate: string;
+  readonly timeZone?: string;
+}
+
+const isPhotoNameToken = (value: string): value is PhotoNameToken => {
+  return (PHOTO_NAME_TOKENS as readonly string[]).includes(value);
+};
+
+const splitExtension = (name: string): { base: string; ext: string } => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? { base: name.slice(0, dot), ext: name.slice(dot + 1) } : { base: name, ext: '' };
+};
+
+const getOriginalName = (photo: Photo): string => {
+  return photo.file?.name ?? photo.relativePath?.split('/').pop() ?? photo.id;
+};
+
+export const renderPhotoNameTemplate = (
+  template: string,
+  context: PhotoNameContext,
+  unknownDate: string,
+  timeZone?: string
+): string => {
+  const rendered = template.replace(TOKEN_PATTERN, (match, token: string, arg?: string) => {
+    if (!isPhotoNameToken(token)) return match;
+
+    switch (token) {
+      case 'date':
+        return context.date ? formatDatePattern(context.date, arg || DEFAULT_DATE_PATTERN, timeZone) : unknownDate;
+      case 'seq': {
+        const width = Number(arg);
+        return Number.isInteger(width) && width > 0 ? String(context.seq).padStart(width, '0') : String(context.seq);
+      }
+      default:
+        return context[token];
+    }
+  }).replace(INVALID_FILE_NAME_CHARS, '_').trim();
+
+  // A template without {ext} must not turn a photo into a file nothing can open
+  const { ext } = splitExtension(rendered);
+  return context.ext && ext.toLowerCase() !== context.ext.toLowerCase() ? `${rendered}.${context.ext}` : rendered;
+};
+
+// New file name of every photo of a folder, by photo id. Photos are numbered in date order, and
+// photos sharing a name apart from the extension (RAW + JPEG pairs) share a number. Names that
+// still collide get a "_2", "_3" suffix; case is ignored, as on Windows and macOS.
+export const getPhotoFileNames = (
+  folder: Folder,
+  options: PhotoNameOptions,
+  folderName: string
+): ReadonlyMap<string, string> => {
+  const photos = folder.photos
+    .map(photo => ({ photo, original: getOriginalName(photo), time: photo.date ? new Date(photo.date).getTime() : NaN }))
+    .sort((a, b) => {
+      // Undated photos last
+      if (isNaN(a.time) !== isNaN(b.time)) return isNaN(a.time) ? 1 : -1;
+      return (a.time - b.time || 0) || a.original.localeCompare(b.original);
+    });
+
+  const sequence = new Map<string, number>();
+  const taken = new Set<string>();
+  const names = new Map<string, string>();
+  for (const { photo, original, time } of photos) {
+    const { base, ext } = splitExtension(original);
+    const pairKey = base.toLowerCase();
+    const seq = sequence.get(pairKey) ?? sequence.size + 1;
+    sequence.set(pairKey, seq);
+
+    const name = renderPhotoNameTemplate(
+      options.template,
+      { date: isNaN(time) ? null : new Date(time), seq, ext, original: base, camera: getPhotoCamera(photo), folder: folderName },
+      options.unknownDate,
+      options.timeZone
+    );
+    let unique = name;
+    const parts = splitExtension(name);
+    for (let suffix = 2; taken.has(unique.toLowerCase()); suffix++) {
+      unique = parts.ext ? `${parts.base}_${suffix}.${parts.ext}` : `${name}_${suffix}`;
+    }
+    taken.add(unique.toLowerCase());
+    names.set(photo.id, unique);
+  }
+  return names;
+};
+
+// Check template syntax; rendered names are cleaned up, so they are always usable
+export const validatePhotoNameTemplate = (template: string): TemplateValidationError[] => {
+  const errors: TemplateValidationError[] = [];
+
+  for (const [, token] of template.matchAll(TOKEN_PATTERN)) {
+    if (!isPhotoNameToken(token)) {
+      errors.push({ code: 'UNKNOWN_TOKEN', detail: token });
+    }
+  }
+
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ''))) {
+    errors.push({ code: 'UNBALANCED_BRACES' });
+  }
+
+  return errors;
+};
@@ -0,0 +1,254 @@
+// Project files: the typed names, date overrides and settings of a renaming session, saved as JSON
+// so the work survives closing the tab. Folders are matched again by id, confirmed by the size and
+// modification time of their photos, which stay the same when photos or folders are renamed.
+
+import {
+  ConflictPolicy,
+  DateLogic,
+  Folder,
+  FolderGrouping,
+  LooseFileClustering,
+  Photo,
+  Result,
+  ScanOptions,
+  ScriptTarget
+} from '../types';
+import { applyClockOffset } from './photoDates';
+import { createErrorResult, createSuccessResult, isConflictPolicy, isDateLogic, isScriptTarget } from './typeGuards';
+
+export const PROJECT_FILE_FORMAT = 'photo-folder-organizer-project';
+export const PROJECT_FILE_VERSION = 1;
+
+export interface ProjectSettings {
+  readonly dateLogic: DateLogic;
+  readonly scanOptions: ScanOptions;
+  readonly nameTemplate: string;
+  readonly displayTimeZone: string;
+  readonly renamePhotos: boolean;
+  readonly photoNameTemplate: string;
+  readonly splitByCamera: boolean;
+  readonly conflictPolicy: ConflictPolicy;
+  readonly verifyCopies: boolean;
+  readonly scriptTarget: ScriptTarget;
+}
+
+export interface ProjectFolder {
+  readonly id: string;
+  readonly newName: string;
+  readonly isRenamed: boolean;
+  readonly pinnedDate?: string; // ISO date
+  readonly clockOffsetHours?: number;
+  readonly photos: readonly string[]; // Fingerprint of each photo
+}
+
+export interface ProjectFile {
+  readonly format: typeof PROJECT_FILE_FORMAT;
+  readonly version: number;
+  readonly savedAt: string;
+  readonly rootFolderName: string;
+  readonly settings: Partial<ProjectSettings>; // Settings that were missing or invalid in the file are left out
+  readonly folders: readonly ProjectFolder[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_JSON' | 'NOT_A_PROJECT' | 'UNSUPPORTED_VERSION',
+    public readonly details?: string
+  ) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Size and modification time; the name is left out, as the photo rename pass changes it
+export const getPhotoFingerprint = (photo: Photo): string | null => {
+  const size = photo.file?.size ?? photo.metadata?.size;
+  const lastModified = photo.file?.lastModified ?? photo.metadata?.lastModified;
+  return size !== undefined && lastModified !== undefined ? `${size}:${lastModified}` : null;
+};
+
+const getFolderFingerprints = (folder: Folder): string[] => folder.photos
+  .map(getPhotoFingerprint)
+  .filter((fingerprint): fingerprint is string => fingerprint !== null);
+
+// Folders the user did something with; the rest are restored by simply dropping the folder again
+const hasUserChanges = (folder: Folder): boolean => {
+  return folder.newName.trim() !== '' || folder.isRenamed || !!folder.pinnedDate || !!folder.clockOffsetHours;
+};
+
+export const createProjectFile = (
+  rootFolderName: string,
+  folders: readonly Folder[],
+  settings: ProjectSettings
+): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  savedAt: new Date().toISOString(),
+  rootFolderName,
+  settings,
+  folders: folders.filter(hasUserChanges).map(folder => ({
+    id: folder.id,
+    newName: folder.newName,
+    isRenamed: folder.isRenamed,
+    ...(folder.pinnedDate ? { pinnedDate: folder.pinnedDate.toISOString() } : {}),
+    ...(folder.clockOffsetHours ? { clockOffsetHours: folder.clockOffsetHours } : {}),
+    photos: getFolderFingerprints(folder)
+  }))
+});
+
+export const createProjectBlob = (project: ProjectFile): { blob: Blob; filename: string } => ({
+  blob: new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' }),
+  filename: `${project.rootFolderName || 'photos'}.project.json`
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T => {
+  return (Object.values(values) as unknown[]).includes(value);
+};
+
+const isScanOptions = (value: unknown): value is ScanOptions => {
+  return isRecord(value)
+    && Number.isInteger(value.maxDepth) && (value.maxDepth as number) > 0
+    && isOneOf(FolderGrouping, value.grouping)
+    && Number.isInteger(value.groupLevel) && (value.groupLevel as number) > 0
+    && isOneOf(LooseFileClustering, value.looseFileClustering)
+    && typeof value.eventGapHours === 'number' && value.eventGapHours > 0;
+};
+
+const SETTING_GUARDS: { readonly [K in keyof ProjectSettings]: (value: unknown) => value is ProjectSettings[K] } = {
+  dateLogic: isDateLogic,
+  scanOptions: isScanOptions,
+  nameTemplate: (value): value is string => typeof value === 'string',
+  displayTimeZone: (value): value is string => typeof value === 'string',
+  renamePhotos: (value): value is boolean => typeof value === 'boolean',
+  photoNameTemplate: (value): value is string => typeof value === 'string',
+  splitByCamera: (value): value is boolean => typeof value === 'boolean',
+  conflictPolicy: isConflictPolicy,
+  verifyCopies: (value): value is boolean => typeof value === 'boolean',
+  scriptTarget: isScriptTarget
+};
+
+const parseSettings = (value: unknown): Partial<ProjectSettings> => {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(
+    Object.entries(SETTING_GUARDS).filter(([key, guard]) => guard(value[key])).map(([key]) => [key, value[key]])
+  ) as Partial<ProjectSettings>;
+};
+
+const parseFolder = (value: unknown): ProjectFolder | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.newName !== 'string') return null;
+
+  const { pinnedDate } = value;
+  return {
+    id: value.id,
+    newName: value.newName,
+    isRenamed: value.isRenamed === true,
+    ...(typeof pinnedDate === 'string' && !isNaN(new Date(pinnedDate).getTime()) ? { pinnedDate } : {}),
+    ...(typeof value.clockOffsetHours === 'number' && isFinite(value.clockOffsetHours) ? { clockOffsetHours: value.clockOffsetHours } : {}),
+    photos: Array.isArray(value.photos) ? value.photos.filter((photo): photo is string => typeof photo === 'string') : []
+  };
+};
+
+export const parseProjectFile = (text: string): Result<ProjectFile, ProjectFileError> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return createErrorResult(new ProjectFileError(
+      'Project file is not valid JSON',
+      'INVALID_JSON',
+      error instanceof Error ? error.message : String(error)
+    ));
+  }
+
+  if (!isRecord(data) || data.format !== PROJECT_FILE_FORMAT || !Array.isArray(data.folders)) {
+    return createErrorResult(new ProjectFileError('File is not a project file', 'NOT_A_PROJECT'));
+  }
+  // Later versions may change what fields mean, so they are not guessed at
+  if (!Number.isInteger(data.version) || (data.version as number) < 1 || (data.version as number) > PROJECT_FILE_VERSION) {
+    return createErrorResult(new ProjectFileError('Unsupported project file version', 'UNSUPPORTED_VERSION', String(data.version)));
+  }
+
+  return createSuccessResult({
+    format: PROJECT_FILE_FORMAT,
+    version: data.version as number,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+    rootFolderName: typeof data.rootFolderName === 'string' ? data.rootFolderName : '',
+    settings: parseSettings(data.settings),
+    folders: data.folders.map(parseFolder).filter((folder): folder is ProjectFolder => folder !== null)
+  });
+};
+
+// Saved photos found in the folder; a match needs at least half of the folder's photos
+const countSharedPhotos = (fingerprints: readonly string[], saved: ReadonlySet<string>): number => {
+  return fingerprints.filter(fingerprint => saved.has(fingerprint)).length;
+};
+
+const isMatch = (shared: number, photoCount: number): boolean => {
+  return photoCount === 0 ? shared === 0 : shared > 0 && shared * 2 >= photoCount;
+};
+
+// Saved folder of each loaded folder, by folder id. A folder with the saved id matches when its
+// photos agree; otherwise, e.g. after the folder was renamed on disk, the saved folder sharing the
+// most photos does. Each saved folder is used once.
+export const matchProjectFolders = (
+  folders: readonly Folder[],
+  project: ProjectFile
+): ReadonlyMap<string, ProjectFolder> => {
+  const saved = project.folders.map(folder => ({ folder, photos: new Set(folder.photos) }));
+  const used = new Set<ProjectFolder>();
+  const matches = new Map<string, ProjectFolder>();
+  const unmatched: { folder: Folder; fingerprints: string[] }[] = [];
+
+  for (const folder of folders) {
+    const fingerprints = getFolderFingerprints(folder);
+    const sameId = saved.find(entry => entry.folder.id === folder.id && !used.has(entry.folder));
+    if (sameId && isMatch(countSharedPhotos(fingerprints, sameId.photos), fingerprints.length)) {
+      matches.set(folder.id, sameId.folder);
+      used.add(sameId.folder);
+    } else {
+      unmatched.push({ folder, fingerprints });
+    }
+  }
+
+  for (const { folder, fingerprints } of unmatched) {
+    let best: { folder: ProjectFolder; shared: number } | null = null;
+    for (const entry of saved) {
+      if (used.has(entry.folder)) continue;
+      const shared = countSharedPhotos(fingerprints, entry.photos);
+      if (shared > 0 && isMatch(shared, fingerprints.length) && (!best || shared > best.shared)) {
+        best = { folder: entry.folder, shared };
+      }
+    }
+    if (best) {
+      matches.set(folder.id, best.folder);
+      used.add(best.folder);
+    }
+  }
+
+  return matches;
+};
+
+export const applyProjectToFolders = (
+  folders: readonly Folder[],
+  project: ProjectFile
+): { folders: Folder[]; restored: number } => {
+  const matches = matchProjectFolders(folders, project);
+  return {
+    folders: folders.map(folder => {
+      const saved = matches.get(folder.id);
+      if (!saved) return folder;
+      return {
+        ...applyClockOffset(folder, saved.clockOffsetHours ?? 0, project.settings.displayTimeZone || undefined),
+        newName: saved.newName,
+        isRenamed: saved.isRenamed,
+        pinnedDate: saved.pinnedDate ? new Date(saved.pinnedDate) : null
+      };
+    }),
+    restored: matches.size
+  };
+};
@@ -0,0 +1,496 @@
+// Rename scripts that finish the renaming on disk, written for the shell the user picks rather than
+// the OS the app runs on. Every name is quoted for its shell, so quotes, %, $, backticks and ! stay literal.
+// A script only runs inside the dropped folder, checks each step before taking it and logs what it did
+// to rename_folders.log; its paired rollback script reverses exactly the steps logged as done.
+
+import { ScriptTarget } from '../types';
+import { joinPath } from './directoryScanner';
+
+// One step of a script; paths are relative to the dropped folder, which the script runs in.
+// A rename works for folders and photos alike.
+export type RenameOperation =
+  | { readonly type: 'rename'; readonly path: string; readonly newName: string }
+  // Auto-grouped folders don't exist yet: create them and move the loose photos in, under the
+  // names given parallel to photoPaths or their own
+  | {
+      readonly type: 'gather';
+      readonly newName: string;
+      readonly photoPaths: readonly string[];
+      readonly fileNames?: readonly string[];
+    };
+
+export interface RenameScript {
+  readonly content: string;
+  readonly filename: string;
+}
+
+export interface RenameScriptOptions {
+  readonly rootFolderName?: string; // The scripts refuse to run in a folder with another name
+  readonly runId?: string; // Pairs a script with its rollback in the shared log
+}
+
+// What a script does, one checked and logged step at a time; the id marks it as done in the log
+type ScriptStep =
+  | { readonly id: string; readonly type: 'move'; readonly from: string; readonly to: string }
+  | { readonly id: string; readonly type: 'mkdir'; readonly path: string };
+
+interface ScriptPlan {
+  readonly runId: string;
+  readonly rootFolderName: string;
+  readonly steps: readonly ScriptStep[];
+}
+
+const SCRIPT_EXTENSIONS: Readonly<Record<ScriptTarget, string>> = {
+  [ScriptTarget.CMD]: 'bat',
+  [ScriptTarget.POWERSHELL]: 'ps1',
+  [ScriptTarget.POSIX_SH]: 'sh',
+  [ScriptTarget.PYTHON]: 'py'
+};
+
+const LOG_FILENAME = 'rename_folders.log';
+
+// The shell of the OS the app runs on, as a starting point for the choice
+export const detectScriptTarget = (): ScriptTarget => {
+  const isWindows = typeof navigator !== 'undefined' && navigator.platform.toLowerCase().includes('win');
+  return isWindows ? ScriptTarget.CMD : ScriptTarget.POSIX_SH;
+};
+
+// Inside double quotes a batch file only expands %, and ! with delayed expansion, which the script
+// turns off. Windows names cannot contain double quotes.
+export const quoteCmd = (value: string): string => {
+  return `"${value.replace(/\//g, '\\').replace(/%/g, '%%')}"`;
+};
+
+// Unquoted text for echo inside a block, where the special characters need a caret
+const escapeCmdEcho = (value: string): string => {
+  return value.replace(/\//g, '\\').replace(/%/g, '%%').replace(/[\^&<>|()]/g, '^$&');
+};
+
+// Single-quoted strings are literal apart from the quote itself, which PowerShell also accepts in
+// its typographic forms; each is escaped by doubling it
+export const quotePowerShell = (value: string): string => {
+  return `'${value.replace(/['\u2018\u2019\u201a\u201b]/g, '$&$&')}'`;
+};
+
+// Single quotes keep everything literal; a single quote closes the string, is escaped and reopens it
+export const quoteSh = (value: string): string => {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+};
+
+// A JSON string is also a valid Python string literal
+export const quotePython = (value: string): string => JSON.stringify(value);
+
+const toSteps = (operations: readonly RenameOperation[], runId: string): ScriptStep[] => {
+  const steps: ScriptStep[] = [];
+  const nextId = () => `${runId}.${steps.length + 1}`;
+  for (const operation of operations) {
+    if (operation.type === 'rename') {
+      const parentPath = operation.path.split('/').slice(0, -1).join('/');
+      steps.push({ id: nextId(), type: 'move', from: operation.path, to: joinPath(parentPath, operation.newName) });
+      continue;
+    }
+    steps.push({ id: nextId(), type: 'mkdir', path: operation.newName });
+    operation.photoPaths.forEach((path, index) => {
+      const name = operation.fileNames?.[index] ?? path.split('/').pop() ?? path;
+      steps.push({ id: nextId(), type: 'move', from: path, to: joinPath(operation.newName, name) });
+    });
+  }
+  return steps;
+};
+
+// The first log line of a run, naming the script that wrote the lines after it
+const runHeader = ({ runId }: ScriptPlan, rollback: boolean): string => `${rollback ? 'rollback' : 'run'} ${runId}`;
+
+const cmdLog = (text: string): string[] => [`>>"%LOG%" echo ${text}`, `echo ${text}`];
+
+const toCmd = (plan: ScriptPlan, rollback: boolean): string => {
+  const { rootFolderName, steps } = plan;
+  const lines = [
+    '@echo off',
+    'chcp 65001 > nul',
+    'setlocal DisableDelayedExpansion',
+    `set "LOG=${LOG_FILENAME}"`
+  ];
+  if (rootFolderName) {
+    lines.push(
+      'for %%I in (.) do set "HERE=%%~nxI"',
+      `if /i not "%HERE%"==${quoteCmd(rootFolderName)} (`,
+      `  echo Run this script from inside the folder ${escapeCmdEcho(rootFolderName)}.`,
+      '  pause',
+      '  exit /b 1',
+      ')'
+    );
+  }
+
+  const indent = (block: string[]) => block.map(line => `  ${line}`);
+  // if/else chain; the last branch runs the command and logs whether it worked
+  const checked = (checks: Array<[string, string]>, command: string, done: string, failed: string): string[] => {
+    const block: string[] = [];
+    checks.forEach(([condition, message], index) => {
+      block.push(`${index === 0 ? '' : ') else '}if ${condition} (`, ...indent(cmdLog(message)));
+    });
+    block.push(
+      `) else (`,
+      `  ${command} >nul 2>&1 && (`,
+      ...indent(indent(cmdLog(done))),
+      '  ) || (',
+      ...indent(indent(cmdLog(failed))),
+      '  )',
+      ')'
+    );
+    return block;
+  };
+
+  if (rollback) {
+    lines.push(
+      'if not exist "%LOG%" (',
+      `  echo ${LOG_FILENAME} not found, nothing to roll back.`,
+      '  pause',
+      '  exit /b 1',
+      ')'
+    );
+  }
+  lines.push(...cmdLog(runHeader(plan, rollback)));
+
+  for (const step of rollback ? [...steps].reverse() : steps) {
+    const { id } = step;
+    let block: string[];
+    if (step.type === 'move') {
+      const [from, to] = rollback ? [step.to, step.from] : [step.from, step.to];
+      const label = `${rollback ? 'undo ' : ''}${id}`;
+      block = checked(
+        [
+          [`not exist ${quoteCmd(from)}`, `skip ${label}: ${escapeCmdEcho(from)} is missing`],
+          [`exist ${quoteCmd(to)}`, `skip ${label}: ${escapeCmdEcho(to)} already exists`]
+        ],
+        `move ${quoteCmd(from)} ${quoteCmd(to)}`,
+        `${rollback ? 'undone' : 'done'} ${id}: ${escapeCmdEcho(from)} -^> ${escapeCmdEcho(to)}`,
+        `fail ${label}: ${escapeCmdEcho(from)} -^> ${escapeCmdEcho(to)}`
+      );
+    } else if (rollback) {
+      block = [
+        `if not exist ${quoteCmd(step.path)} (`,
+        ...indent(cmdLog(`skip undo ${id}: ${escapeCmdEcho(step.path)} is missing`)),
+        ') else (',
+        `  rmdir ${quoteCmd(step.path)} >nul 2>&1 && (`,
+        ...indent(indent(cmdLog(`undone ${id}: ${escapeCmdEcho(step.path)}`))),
+        '  ) || (',
+        ...indent(indent(cmdLog(`skip undo ${id}: ${escapeCmdEcho(step.path)} is not empty`))),
+        '  )',
+        ')'
+      ];
+    } else {
+      block = checked(
+        [[`exist ${quoteCmd(step.path)}`, `exists ${id}: ${escapeCmdEcho(step.path)}`]],
+        `mkdir ${quoteCmd(step.path)}`,
+        `done ${id}: ${escapeCmdEcho(step.path)}`,
+        `fail ${id}: ${escapeCmdEcho(step.path)}`
+      );
+    }
+
+    // Only the steps the script logged as done are reversed
+    lines.push(...(rollback ? [`findstr /b /l /c:"done ${id}:" "%LOG%" >nul && (`, ...indent(block), ')'] : block));
+  }
+
+  lines.push(`echo See %LOG% for what was done.`, 'pause');
+  return lines.join('\r\n') + '\r\n';
+};
+
+const toPowerShell = (plan: ScriptPlan, rollback: boolean): string => {
+  const { rootFolderName, steps } = plan;
+  const lines = [`$log = Join-Path (Get-Location).Path ${quotePowerShell(LOG_FILENAME)}`];
+  if (rootFolderName) {
+    lines.push(
+      `if ((Split-Path -Leaf (Get-Location).Path) -ne ${quotePowerShell(rootFolderName)}) {`,
+      `    Write-Host ('Run this script from inside the folder {0}.' -f ${quotePowerShell(rootFolderName)})`,
+      '    exit 1',
+      '}'
+    );
+  }
+  lines.push(
+    'function Write-Log([string]$line) {',
+    '    Add-Content -LiteralPath $log -Value $line -Encoding UTF8',
+    '    Write-Host $line',
+    '}'
+  );
+
+  if (rollback) {
+    lines.push(
+      'if (-not (Test-Path -LiteralPath $log)) {',
+      `    Write-Host '${LOG_FILENAME} not found, nothing to roll back.'`,
+      '    exit 1',
+      '}',
+      '$done = @{}',
+      'foreach ($line in Get-Content -LiteralPath $log -Encoding UTF8) {',
+      "    if ($line -match '^done ([^:]+):') { $done[$Matches[1]] = $true }",
+      '}',
+      'function Undo-Move([string]$id, [string]$from, [string]$to) {',
+      '    if (-not $done.ContainsKey($id)) { return }',
+      '    if (-not (Test-Path -LiteralPath $to)) { Write-Log "skip undo ${id}: $to is missing" }',
+      '    elseif (Test-Path -LiteralPath $from) { Write-Log "skip undo ${id}: $from already exists" }',
+      '    else {',
+      '        try { Move-Item -LiteralPath $to -Destination $from -ErrorAction Stop; Write-Log "undone ${id}: $to -> $from" }',
+      '        catch { Write-Log "fail undo ${id}: $to -> $from ($($_.Exception.Message))" }',
+      '    }',
+      '}',
+      'function Undo-Folder([string]$id, [string]$path) {',
+      '    if (-not $done.ContainsKey($id)) { return }',
+      '    if (-not (Test-Path -LiteralPath $path)) { Write-Log "skip undo ${id}: $path is missing" }',
+      '    elseif (Get-ChildItem -LiteralPath $path -Force | Select-Object -First 1) { Write-Log "skip undo ${id}: $path is not empty" }',
+      '    else { Remove-Item -LiteralPath $path; Write-Log "undone ${id}: $path" }',
+      '}'
+    );
+  } else {
+    lines.push(
+      'function Move-Step([string]$id, [string]$from, [string]$to) {',
+      '    if (-not (Test-Path -LiteralPath $from)) { Write-Log "skip ${id}: $from is missing" }',
+      '    elseif (Test-Path -LiteralPath $to) { Write-Log "skip ${id}: $to already exists" }',
+      '    else {',
+      '        try { Move-Item -LiteralPath $from -Destination $to -ErrorAction Stop; Write-Log "done ${id}: $from -> $to" }',
+      '        catch { Write-Log "fail ${id}: $from -> $to ($($_.Exception.Message))" }',
+      '    }',
+      '}',
+      // New-Item has no -LiteralPath and reads [ ] as wildcards; resolve the path without globbing instead
+      'function New-FolderStep([string]$id, [string]$path) {',
+      '    if (Test-Path -LiteralPath $path) { Write-Log "exists ${id}: $path" }',
+      '    else {',
+      '        try { [void][System.IO.Directory]::CreateDirectory($ExecutionContext.SessionState.Path.GetUnresolvedProviderPathFromPSPath($path)); Write-Log "done ${id}: $path" }',
+      '        catch { Write-Log "fail ${id}: $path ($($_.Exception.Message))" }',
+      '    }',
+      '}'
+    );
+  }
+
+  lines.push(`Write-Log ${quotePowerShell(runHeader(plan, rollback))}`);
+  for (const step of rollback ? [...steps].reverse() : steps) {
+    const id = quotePowerShell(step.id);
+    if (step.type === 'move') {
+      lines.push(`${rollback ? 'Undo-Move' : 'Move-Step'} ${id} ${quotePowerShell(step.from)} ${quotePowerShell(step.to)}`);
+    } else {
+      lines.push(`${rollback ? 'Undo-Folder' : 'New-FolderStep'} ${id} ${quotePowerShell(step.path)}`);
+    }
+  }
+  // Windows PowerShell 5 reads a script without a byte order mark in the legacy code page
+  return '\ufeff' + lines.join('\r\n') + '\r\n';
+};
+
+const toSh = (plan: ScriptPlan, rollback: boolean): string => {
+  const { rootFolderName, steps } = plan;
+  const lines = ['#!/bin/sh', '', `LOG=${LOG_FILENAME}`, ''];
+  if (rootFolderName) {
+    lines.push(
+      `if [ "$(basename "$PWD")" != ${quoteSh(rootFolderName)} ]; then`,
+      `  printf 'Run this script from inside the folder %s.\\n' ${quoteSh(rootFolderName)} >&2`,
+      '  exit 1',
+      'fi',
+      ''
+    );
+  }
+  lines.push(
+    'log() {',
+    `  printf '%s\\n' "$1" | tee -a "$LOG"`,
+    '}',
+    ''
+  );
+
+  if (rollback) {
+    lines.push(
+      'if [ ! -f "$LOG" ]; then',
+      `  echo '${LOG_FILENAME} not found, nothing to roll back.' >&2`,
+      '  exit 1',
+      'fi',
+      '',
+      'is_done() {',
+      '  grep -q "^done $1:" "$LOG"',
+      '}',
+      '',
+      'undo_move() {',
+      '  is_done "$1" || return 0',
+      '  if [ ! -e "$3" ]; then',
+      '    log "skip undo $1: $3 is missing"',
+      '  elif [ -e "$2" ]; then',
+      '    log "skip undo $1: $2 already exists"',
+      '  elif mv -- "$3" "$2"; then',
+      '    log "undone $1: $3 -> $2"',
+      '  else',
+      '    log "fail undo $1: $3 -> $2"',
+      '  fi',
+      '}',
+      '',
+      'undo_mkdir() {',
+      '  is_done "$1" || return 0',
+      '  if [ ! -d "$2" ]; then',
+      '    log "skip undo $1: $2 is missing"',
+      '  elif rmdir -- "$2" 2>/dev/null; then',
+      '    log "undone $1: $2"',
+      '  else',
+      '    log "skip undo $1: $2 is not empty"',
+      '  fi',
+      '}',
+      ''
+    );
+  } else {
+    lines.push(
+      'move() {',
+      '  if [ ! -e "$2" ]; then',
+      '    log "skip $1: $2 is missing"',
+      '  elif [ -e "$3" ]; then',
+      '    log "skip $1: $3 already exists"',
+      '  elif mv -- "$2" "$3"; then',
+      '    log "done $1: $2 -> $3"',
+      '  else',
+      '    log "fail $1: $2 -> $3"',
+      '  fi',
+      '}',
+      '',
+      'makedir() {',
+      '  if [ -e "$2" ]; then',
+      '    log "exists $1: $2"',
+      '  elif mkdir -- "$2"; then',
+      '    log "done $1: $2"',
+      '  else',
+      '    log "fail $1: $2"',
+      '  fi',
+      '}',
+      ''
+    );
+  }
+
+  lines.push(`log ${quoteSh(runHeader(plan, rollback))}`);
+  for (const step of rollback ? [...steps].reverse() : steps) {
+    if (step.type === 'move') {
+      lines.push(`${rollback ? 'undo_move' : 'move'} ${quoteSh(step.id)} ${quoteSh(step.from)} ${quoteSh(step.to)}`);
+    } else {
+      lines.push(`${rollback ? 'undo_mkdir' : 'makedir'} ${quoteSh(step.id)} ${quoteSh(step.path)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+
+const toPython = (plan: ScriptPlan, rollback: boolean): string => {
+  const { rootFolderName, steps } = plan;
+  const lines = [
+    '#!/usr/bin/env python3',
+    'import os',
+    'import sys',
+    '',
+    `LOG = ${quotePython(LOG_FILENAME)}`,
+    '',
+    '',
+    'def log(line):',
+    '    print(line)',
+    '    with open(LOG, "a", encoding="utf-8") as file:',
+    '        file.write(line + "\\n")',
+    '',
+    ''
+  ];
+
+  if (rollback) {
+    lines.push(
+      'def done_steps():',
+      '    with open(LOG, encoding="utf-8") as file:',
+      '        return {line[5:line.index(":")] for line in file if line.startswith("done ") and ":" in line}',
+      '',
+      '',
+      'def undo_move(step, source, target):',
+      '    if step not in DONE:',
+      '        return',
+      '    if not os.path.lexists(target):',
+      '        log(f"skip undo {step}: {target} is missing")',
+      '    elif os.path.lexists(source):',
+      '        log(f"skip undo {step}: {source} already exists")',
+      '    else:',
+      '        try:',
+      '            os.rename(target, source)',
+      '            log(f"undone {step}: {target} -> {source}")',
+      '        except OSError as error:',
+      '            log(f"fail undo {step}: {target} -> {source} ({error})")',
+      '',
+      '',
+      'def undo_mkdir(step, path):',
+      '    if step not in DONE:',
+      '        return',
+      '    if not os.path.isdir(path):',
+      '        log(f"skip undo {step}: {path} is missing")',
+      '        return',
+      '    try:',
+      '        os.rmdir(path)',
+      '        log(f"undone {step}: {path}")',
+      '    except OSError:',
+      '        log(f"skip undo {step}: {path} is not empty")',
+      '',
+      ''
+    );
+  } else {
+    lines.push(
+      'def move(step, source, target):',
+      '    if not os.path.lexists(source):',
+      '        log(f"skip {step}: {source} is missing")',
+      '    elif os.path.lexists(target):',
+      '        log(f"skip {step}: {target} already exists")',
+      '    else:',
+      '        try:',
+      '            os.rename(source, target)',
+      '            log(f"done {step}: {source} -> {target}")',
+      '        except OSError as error:',
+      '            log(f"fail {step}: {source} -> {target} ({error})")',
+      '',
+      '',
+      'def makedir(step, path):',
+      '    if os.path.lexists(path):',
+      '        log(f"exists {step}: {path}")',
+      '    else:',
+      '        try:',
+      '            os.mkdir(path)',
+      '            log(f"done {step}: {path}")',
+      '        except OSError as error:',
+      '            log(f"fail {step}: {path} ({error})")',
+      '',
+      ''
+    );
+  }
+
+  if (rootFolderName) {
+    lines.push(
+      `if os.path.basename(os.getcwd()) != ${quotePython(rootFolderName)}:`,
+      `    sys.exit("Run this script from inside the folder " + ${quotePython(rootFolderName)} + ".")`
+    );
+  }
+  if (rollback) {
+    lines.push(
+      'if not os.path.exists(LOG):',
+      `    sys.exit(${quotePython(`${LOG_FILENAME} not found, nothing to roll back.`)})`,
+      'DONE = done_steps()'
+    );
+  }
+
+  lines.push(`log(${quotePython(runHeader(plan, rollback))})`);
+  for (const step of rollback ? [...steps].reverse() : steps) {
+    lines.push(step.type === 'move'
+      ? `${rollback ? 'undo_move' : 'move'}(${quotePython(step.id)}, ${quotePython(step.from)}, ${quotePython(step.to)})`
+      : `${rollback ? 'undo_mkdir' : 'makedir'}(${quotePython(step.id)}, ${quotePython(step.path)})`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+const GENERATORS: Readonly<Record<ScriptTarget, (plan: ScriptPlan, rollback: boolean) => string>> = {
+  [ScriptTarget.CMD]: toCmd,
+  [ScriptTarget.POWERSHELL]: toPowerShell,
+  [ScriptTarget.POSIX_SH]: toSh,
+  [ScriptTarget.PYTHON]: toPython
+};
+
+// The rename script and the rollback script that reverses it
+export const createRenameScripts = (
+  operations: readonly RenameOperation[],
+  target: ScriptTarget,
+  options: RenameScriptOptions = {}
+): { readonly script: RenameScript; readonly rollback: RenameScript } => {
+  const runId = options.runId ?? Date.now().toString(36);
+  const plan: ScriptPlan = { runId, rootFolderName: options.rootFolderName ?? '', steps: toSteps(operations, runId) };
+  const extension = SCRIPT_EXTENSIONS[target];
+  return {
+    script: { content: GENERATORS[target](plan, false), filename: `rename_folders.${extension}` },
+    rollback: { content: GENERATORS[target](plan, true), filename: `rollback_folders.${extension}` }
+  };
+};
@@ -10,6 +10,8 @@ import {
   Folder,
   ProcessingStatus,
   DateLogic,
+  ConflictPolicy,
+  ScriptTarget,
   WorkerResponseMessage,
   WorkerProgressMessage,
   WorkerStartMessage,
@@ -98,7 +100,15 @@ export const isProcessingStatus = (value: unknown): value is ProcessingStatus =>
 };
 
 export const isDateLogic = (value: unknown): value is DateLogic => {
-  return typeof value === 'string' && ['earliest', 'latest'].includes(value);
+  return typeof value === 'string' && ['earliest', 'latest', 'range', 'median', 'mode', 'trimmedEarliest'].includes(value);
+};
+
+export const isConflictPolicy = (value: unknown): value is ConflictPolicy => {
+  return (Object.values(ConflictPolicy) as unknown[]).includes(value);
+};
+
+export const isScriptTarget = (value: unknown): value is ScriptTarget => {
+  return (Object.values(ScriptTarget) as unknown[]).includes(value);
 };
 
 export const isSupportedImageMimeType = (value: unknown): value is SupportedImageMimeType => {
@@ -209,7 +219,7 @@ export const isWorkerErrorMessage = (value: unknown): value is WorkerErrorMessag
 };
 
 // Result type helpers with validation
-export const createSuccessResult = <T>(data: T): Result<T> => ({
+export const createSuccessResult = <T>(data: T): Result<T, never> => ({
   success: true as const,
   data
 });
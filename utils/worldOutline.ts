@@ -0,0 +1,251 @@
+// Simplified outline of the continents and larger islands for the photo map, drawn without network
+// access. Coastlines are smoothed to a degree or so, finer around Japan.
+
+// Longitude, latitude
+export type OutlineRing = readonly (readonly [longitude: number, latitude: number])[];
+
+// Rings are closed implicitly and may overlap
+export const LAND_OUTLINES: readonly OutlineRing[] = [
+  // North America
+  [[-166, 68.9], [-162, 70.3], [-156.5, 71.3], [-152, 70.8], [-143, 70.1], [-137, 69], [-129, 70], [-124, 69.4],
+    [-117, 68.9], [-110, 68], [-104, 68.5], [-98, 67.8], [-94.5, 69.5], [-90, 68.5], [-85, 69.8], [-82, 66.5],
+    [-86, 64], [-93, 61.5], [-94.6, 58.8], [-92.5, 57], [-88, 56], [-82.3, 55], [-82.2, 52.5], [-79.5, 51.5],
+    [-78.5, 54], [-77, 56.5], [-78, 58.5], [-77.5, 60.5], [-78, 62.3], [-74, 62.3], [-70, 61], [-69.5, 59],
+    [-66, 58.8], [-64.5, 60.3], [-61.5, 56], [-57.5, 54], [-55.7, 52], [-60, 50.2], [-66.5, 50.2], [-71, 46.8],
+    [-65, 48.7], [-64.5, 46.2], [-61, 45.6], [-66, 44.5], [-70, 43.7], [-70.5, 41.8], [-74, 40.6], [-75.5, 38.5],
+    [-76, 36.5], [-75.5, 35.2], [-78, 33.8], [-81, 31.5], [-81, 29], [-80, 26.5], [-80.12, 25.8], [-80.4, 25.2],
+    [-81.8, 26.2], [-82.8, 28], [-84, 30], [-86.5, 30.4], [-89.5, 30.2], [-89.2, 29.1], [-91, 29.2], [-94, 29.6],
+    [-97.2, 27.6], [-97.7, 24], [-97.8, 22], [-96, 19], [-94.5, 18.2], [-91, 18.8], [-90.5, 19.8], [-90, 21.2],
+    [-86.8, 21.1], [-87.5, 19], [-88.3, 18.5], [-88.3, 16], [-84, 15.8], [-83.3, 14], [-83.7, 11], [-82, 9],
+    [-79.5, 9.6], [-77.4, 8.6], [-77.9, 7.2], [-80, 7.3], [-82.5, 8.2], [-85.7, 10], [-85.7, 11.1], [-87.5, 13],
+    [-91.5, 14], [-94, 16], [-96.5, 15.7], [-101, 17.3], [-105.5, 20.5], [-105.2, 22.5], [-109, 25.5], [-112.7, 31.5],
+    [-114.8, 31.5], [-112.5, 29], [-109.9, 22.9], [-112, 24.8], [-114, 28], [-116.8, 31.8], [-117.2, 32.7],
+    [-120.6, 34.5], [-122.5, 37.8], [-124.2, 40.4], [-124, 46.2], [-124.7, 48.4], [-123, 49], [-125, 50], [-128, 51],
+    [-130.5, 54.5], [-133, 57.5], [-136.5, 58.5], [-140, 59.8], [-146, 60.8], [-150, 59.5], [-152.5, 60.5],
+    [-154, 58.5], [-158, 56.7], [-162.5, 55], [-164.8, 54.5], [-160, 58.6], [-162.2, 60], [-165.5, 61.5],
+    [-165, 62.5], [-162, 63.5], [-161, 64.6], [-166.5, 64.6], [-168, 65.6], [-164.5, 66.5]],
+  // Baffin Island
+  [[-61.9, 66.6], [-64.3, 64], [-65.4, 62.7], [-68, 62.4], [-71.5, 63.3], [-74.5, 64.5], [-77.5, 65.3], [-73, 67.5],
+    [-76.5, 69.5], [-83, 70], [-88.5, 70.5], [-89.7, 72.5], [-85, 73.7], [-80, 73.7], [-75, 72.5], [-71, 71],
+    [-67, 69.5], [-62.5, 67.5]],
+  // Ellesmere Island
+  [[-80, 76], [-92, 76.5], [-95, 79], [-88, 81], [-75, 83], [-62, 82.5], [-67, 80], [-75, 79], [-78, 77]],
+  // Victoria Island
+  [[-118, 70.5], [-117, 72.6], [-113, 73], [-104, 73], [-101, 70], [-106, 68.8], [-113, 68.5], [-117, 69.2]],
+  // Banks Island
+  [[-125, 71.9], [-124, 74], [-117, 74.4], [-115, 73.5], [-120, 71.5]],
+  // Newfoundland
+  [[-59.3, 47.6], [-56, 47.6], [-53, 46.7], [-52.7, 48], [-53.5, 49.5], [-55.5, 49.9], [-55.5, 51.6], [-57, 51.4],
+    [-59, 48.6]],
+  // Greenland
+  [[-73, 78.5], [-66, 80.5], [-60, 82], [-45, 82.8], [-32, 83.6], [-20, 82.5], [-12, 81.5], [-19, 80], [-18, 77],
+    [-22, 74], [-22, 71], [-24.5, 68], [-32.5, 68.4], [-40, 65], [-42.5, 60.5], [-45, 60], [-48.5, 61.5],
+    [-50.5, 64.5], [-52.5, 66.5], [-54, 70], [-55, 71.5], [-56.5, 74.5], [-61, 76.2], [-68, 76.7], [-71.5, 77.5]],
+  // Iceland
+  [[-22.5, 63.9], [-24, 65.5], [-22, 66.4], [-18, 66.2], [-14.5, 66.3], [-13.5, 65.1], [-15, 64.3], [-18, 63.4],
+    [-20.5, 63.5]],
+  // Oahu
+  [[-158.3, 21.55], [-157.95, 21.7], [-157.65, 21.3], [-158.1, 21.3]],
+  // Maui
+  [[-156.7, 20.95], [-156, 20.7], [-156.4, 20.6], [-156.7, 20.8]],
+  // Hawaii
+  [[-155.9, 20.25], [-155, 19.7], [-154.8, 19.5], [-155.6, 18.9], [-156.05, 19.7]],
+  // Cuba
+  [[-84.9, 21.9], [-82, 23.2], [-79, 22.5], [-76.5, 21.2], [-74.2, 20.2], [-77.5, 19.9], [-78.5, 21.5], [-81.5, 22.1],
+    [-83, 21.8]],
+  // Hispaniola
+  [[-74.4, 18.5], [-72.8, 19.9], [-70, 19.8], [-68.4, 18.6], [-70, 18.2], [-71.5, 17.7], [-74.4, 18.2]],
+  // South America
+  [[-77.4, 8.6], [-76, 9.5], [-75.5, 10.5], [-73, 11.3], [-71.5, 12.4], [-70, 11.5], [-68, 10.6], [-64, 10.6],
+    [-61.8, 10.7], [-60, 8.5], [-57.5, 6], [-54, 5.7], [-51.5, 4.2], [-50, 1.8], [-49, -0.1], [-47.5, -0.6],
+    [-44.5, -2.5], [-41, -2.9], [-38.5, -3.7], [-35.2, -5.5], [-34.8, -7.5], [-35.5, -9.5], [-37, -11],
+    [-38.8, -13.5], [-39, -17.5], [-40, -20], [-41, -22], [-43, -23], [-45, -23.8], [-48.5, -26], [-48.7, -28.5],
+    [-50.5, -31], [-53, -33.8], [-55, -35], [-57.5, -34.5], [-57, -36.5], [-57.6, -38.2], [-62, -39], [-62.3, -40.8],
+    [-65, -41], [-64.5, -42.5], [-65.5, -45], [-67.5, -46.5], [-65.8, -47.8], [-68.3, -50.2], [-69, -52],
+    [-68.6, -54.9], [-66.5, -55], [-70, -55.3], [-73, -53.5], [-74.5, -51], [-75.5, -48], [-74, -44], [-73.5, -41],
+    [-73.7, -37.5], [-72.5, -35], [-71.5, -32], [-71.4, -29], [-70.5, -25], [-70.2, -20], [-70.3, -18.3], [-72, -17],
+    [-75.5, -15], [-77, -12], [-79.5, -7.5], [-81.2, -5.5], [-80, -3.5], [-80.9, -1], [-80, 0.8], [-78.8, 1.8],
+    [-78, 3.8], [-77.3, 5.5], [-77.9, 7.2]],
+  // Africa
+  [[-17, 21], [-16, 23.7], [-14.5, 26], [-13, 27.7], [-9.8, 29.5], [-9.5, 32.5], [-6.8, 34], [-5.9, 35.8], [-2, 35.1],
+    [1, 36.5], [5, 36.8], [10, 37.3], [11, 35.6], [10.2, 34.2], [11.5, 33.1], [15.5, 32.3], [19.5, 30.5], [20.2, 32],
+    [23, 32.7], [25, 31.8], [29, 31], [32, 31.2], [32.6, 29.9], [33.5, 27.5], [35.5, 23.9], [37.2, 21], [38.5, 18],
+    [39.7, 15.5], [41.5, 13.8], [43.3, 12.5], [44, 10.5], [46, 10.8], [51.2, 11.9], [51, 10.4], [49.6, 7],
+    [47.5, 4.5], [44, 1], [41.5, -1.7], [40, -3.5], [39.2, -5], [39.3, -8], [40.5, -10.5], [40.6, -14.5],
+    [39.5, -16.5], [36.5, -18.8], [35, -21], [35.5, -24], [32.9, -26], [32.4, -28.5], [31, -30], [28, -33],
+    [25.5, -34], [22, -34.2], [20, -34.8], [18.4, -34.2], [17.9, -32.5], [16.5, -28.6], [15.2, -26.5], [14.5, -22.9],
+    [13.3, -20], [11.8, -17.3], [12, -15], [13.6, -11], [13, -8.6], [12.2, -6], [11.8, -4], [9.5, -1.5], [9.3, 1],
+    [9.6, 3.8], [8.5, 4.5], [6, 4.3], [4.5, 6.3], [1.5, 6.1], [-2, 4.8], [-4.5, 5.2], [-7.5, 4.4], [-9.5, 5.5],
+    [-11.5, 6.9], [-13.2, 8.6], [-14.7, 10.7], [-16.7, 12.4], [-17.5, 14.7], [-16.5, 16.2], [-16, 19]],
+  // Madagascar
+  [[49.3, -12], [50.5, -15.5], [49.5, -17.8], [48, -22.5], [47, -25], [45, -25.5], [43.7, -23.5], [43.3, -21],
+    [44.4, -19], [44, -17], [46.5, -15.7], [48, -13.5]],
+  // Eurasia
+  [[32.6, 30], [34.2, 31.3], [35, 33], [35.9, 35.5], [36.2, 36.6], [34, 36.2], [32, 36.1], [30.5, 36.6], [28, 36.7],
+    [27.2, 38], [26.2, 39.5], [26.5, 40.5], [26, 40.8], [24, 40.8], [23, 40.3], [24, 38], [23, 36.5], [21.7, 36.8],
+    [21, 38.3], [19.5, 40], [19.5, 41.8], [16.5, 43.5], [13.6, 45.7], [12.3, 45.3], [12.4, 44.2], [13.6, 43.5],
+    [16, 41.5], [18.5, 40.2], [17, 39], [16.5, 38], [15.7, 38], [15.8, 40], [14, 40.8], [12.3, 41.7], [10.5, 43],
+    [8.8, 44.4], [7.4, 43.65], [4.8, 43.4], [3.1, 43], [3.2, 41.9], [2.1, 41.3], [0.8, 41], [-0.3, 39.5], [0.2, 38.7],
+    [-0.7, 37.6], [-2.1, 36.7], [-4.4, 36.7], [-5.6, 36], [-6.3, 36.8], [-7.4, 37.2], [-9, 37], [-9.3, 38.7],
+    [-9.5, 39.5], [-8.8, 42], [-9.3, 43], [-8, 43.7], [-4, 43.4], [-1.8, 43.4], [-1.2, 44.7], [-1.2, 46.2],
+    [-2.3, 47.2], [-4.6, 48], [-3, 48.8], [-1.5, 48.7], [-1.3, 49.7], [0.2, 49.5], [1.5, 50.2], [2.5, 51.1],
+    [4, 51.5], [4.8, 53], [7, 53.5], [8.6, 54], [8.6, 55.5], [8.1, 56.8], [10.5, 57.7], [10.5, 56.2], [10.9, 55],
+    [12, 54.2], [14, 54], [16, 54.5], [18.5, 54.7], [21, 55.2], [21.1, 56.8], [22.5, 57.8], [24.3, 57.2], [24, 58.4],
+    [23.5, 59.2], [28, 59.5], [30.2, 59.9], [28, 60.5], [25, 60.1], [22.8, 60], [21.4, 61], [21.5, 63.2], [25, 65],
+    [25.3, 65.6], [22.3, 65.8], [21, 64.5], [19, 63.5], [17.5, 62.2], [17.3, 60.7], [18.8, 60], [18.8, 59.3],
+    [16.5, 57.5], [16, 56.2], [14.2, 55.4], [12.8, 55.5], [12.5, 56.3], [11.5, 58], [11, 59], [10.5, 59.5], [9.5, 59],
+    [7, 58], [5.6, 58.9], [5, 61], [5.2, 62.5], [8, 63.5], [10.5, 64.5], [12.5, 66], [14, 67.5], [16, 68.5],
+    [19, 69.8], [23, 70.5], [26, 71], [28.5, 70.9], [31, 70.3], [33, 69.3], [36.5, 69], [41, 67.5], [40, 66.2],
+    [37, 66.3], [34.8, 65.9], [34.5, 64.5], [37, 63.9], [37.5, 64.8], [40.5, 64.5], [43.5, 66.3], [44.3, 68.3],
+    [46, 68], [49, 68], [53.5, 68.5], [58, 68.9], [60.5, 69.8], [64, 69.3], [68, 69], [68.5, 71.5], [66.8, 72.5],
+    [70, 73.4], [72.5, 72.8], [72.5, 71], [73.5, 69.2], [73, 66.8], [74.5, 67.8], [75, 69], [77, 72.3], [80, 72.5],
+    [83, 71], [84, 70.2], [87, 73.8], [90, 75.6], [95, 76.1], [100, 76.5], [104, 77.7], [107, 77], [112, 76.3],
+    [113.5, 73.5], [120, 73], [127, 73.5], [129.5, 71], [132, 71.5], [135, 71.6], [139.5, 72.4], [142, 72.7],
+    [150, 71.6], [152, 70.9], [158, 70.9], [160.7, 69.6], [167, 69.6], [170, 70.1], [176, 69.7], [180, 68.9],
+    [180, 65], [177, 62.5], [173, 61.5], [170, 60], [166, 60], [163.5, 59.8], [162, 58], [163, 56], [162, 54.5],
+    [160, 53], [158.5, 52.5], [156.6, 51], [155.9, 56], [157.5, 57.8], [160, 59.3], [161.9, 60.3], [159.5, 61.8],
+    [156, 61.5], [154, 59.2], [151, 59.2], [148.5, 59.3], [145, 59.4], [142.2, 59], [138, 56], [135.2, 54.7],
+    [137, 53.5], [141.3, 52.8], [140.5, 50], [140, 48], [138.2, 46.5], [135.5, 43.9], [133, 42.8], [131, 42.6],
+    [130.7, 42.3], [129.6, 41], [128, 39.5], [129.4, 37], [129.5, 35.5], [129.1, 35.1], [128.5, 35], [126.5, 34.4],
+    [126.3, 36.5], [126.5, 37.7], [125, 37.8], [124.7, 39.8], [122, 40.5], [121, 40.9], [122.3, 39.3], [121.5, 38.8],
+    [118.5, 39.2], [117.7, 38.6], [118.8, 37.5], [120.8, 37.8], [122.5, 37.2], [120.5, 36.1], [119.2, 34.8],
+    [120.8, 32.5], [121.9, 31], [121.9, 29.9], [121.5, 28.5], [120.5, 27], [119.5, 25.5], [118, 24.5], [116.5, 23],
+    [114.2, 22.3], [112.5, 21.8], [110.4, 21], [110.2, 20.3], [109.7, 21.5], [108, 21.6], [106.7, 20.5], [105.7, 19],
+    [107, 17], [108.8, 15.4], [109.3, 12.5], [109, 11.3], [106.8, 10.4], [105, 8.6], [104.8, 10.2], [103, 10.8],
+    [102.2, 12.2], [100.9, 13.4], [100, 13.3], [99.5, 10.5], [100.3, 8.2], [101, 6.9], [102.2, 6.2], [103.4, 4.8],
+    [103.5, 2.8], [104.2, 1.4], [103.5, 1.3], [101.3, 2.9], [100.4, 4.5], [100.3, 6.4], [98.5, 8.2], [98.3, 10],
+    [98.6, 12], [97.7, 16.5], [96.5, 16.7], [95.2, 15.8], [94.3, 16.3], [94.3, 18.3], [93.5, 19.6], [92.3, 20.7],
+    [91.8, 22.3], [90.5, 22.6], [89, 21.8], [87, 21.5], [86.5, 20.2], [85, 19.4], [82.4, 17], [80.3, 15.8],
+    [80.3, 13.3], [79.8, 11.5], [79.3, 10.3], [78.2, 8.9], [77.5, 8.1], [76.5, 9], [75.7, 11.4], [74.6, 13.9],
+    [73.4, 16.2], [72.8, 19], [72.6, 21.3], [70.6, 20.8], [69, 22.4], [70.4, 23], [68.4, 23.7], [67, 24.8],
+    [66.6, 25.4], [64.5, 25.2], [61.5, 25.1], [57.3, 25.8], [56.4, 27.1], [54.5, 26.6], [51.5, 27.9], [50.1, 30.2],
+    [48.6, 30], [48, 29.5], [48.8, 27.6], [50.2, 26.2], [50.8, 24.8], [51.6, 24.3], [52.4, 24.2], [54.3, 24.3],
+    [56, 26.2], [56.4, 24.9], [57.8, 23.8], [59.8, 22.5], [58.7, 20.5], [57.7, 19], [55.3, 17.4], [52.2, 15.7],
+    [49.6, 14.6], [45.6, 13.3], [43.5, 12.7], [42.8, 15.3], [42.6, 16.8], [41.2, 19.1], [39.1, 21.8], [38.5, 23.6],
+    [37.5, 24.9], [35.2, 28], [34.6, 28.1], [34.9, 29.5], [34.3, 27.8], [33.6, 28.5]],
+  // Chukotka, east of the antimeridian
+  [[-180, 68.9], [-174, 67], [-171, 66.5], [-169.7, 66], [-172, 64.3], [-176, 65], [-180, 65]],
+  // Great Britain
+  [[-5.7, 50.1], [-3.5, 50.4], [-1, 50.7], [1.4, 51.2], [1.7, 52.7], [0.3, 53.4], [-0.1, 54.2], [-1.6, 55.6],
+    [-2.1, 57.2], [-1.8, 57.6], [-3.3, 58.6], [-5, 58.6], [-5.7, 57.5], [-5.6, 56.2], [-4.9, 55], [-3, 54.9],
+    [-3.4, 54.3], [-3, 53.4], [-4.6, 53.3], [-4.2, 52.3], [-5.3, 51.8], [-4, 51.6], [-3, 51.5], [-4.5, 51.2]],
+  // Zealand
+  [[11.1, 55.7], [11.9, 55.95], [12.6, 56.05], [12.65, 55.6], [12.2, 55.2], [11.2, 55.2]],
+  // Ireland
+  [[-6, 52.2], [-6.2, 53.5], [-5.6, 54.6], [-6.2, 55.2], [-7.5, 55.3], [-8.5, 54.4], [-10, 54.2], [-9.8, 53.3],
+    [-10.3, 51.9], [-9.4, 51.5], [-8, 51.8]],
+  // Corsica
+  [[8.6, 41.4], [9.4, 41.4], [9.5, 43], [8.6, 42.4]],
+  // Sardinia
+  [[8.4, 39], [9.6, 39.2], [9.8, 40.9], [9.2, 41.3], [8.2, 40.9]],
+  // Sicily
+  [[12.4, 37.8], [15.6, 38.3], [15.1, 36.7]],
+  // Crete
+  [[23.5, 35.3], [26.3, 35.2], [24.8, 34.9]],
+  // Cyprus
+  [[32.3, 34.7], [34.6, 35.7], [33.3, 35.2]],
+  // Svalbard
+  [[11, 78.5], [16, 76.6], [22, 77.5], [27, 79.5], [20, 80.4], [11, 79.8]],
+  // Novaya Zemlya
+  [[51.5, 71.5], [55.5, 70.7], [58, 70.6], [57, 72.3], [56.2, 73.4], [61, 75.8], [68.5, 76.9], [66, 77], [59, 76],
+    [55.5, 74.3], [53.5, 73]],
+  // Sri Lanka
+  [[79.8, 6.2], [80.1, 9.8], [81.3, 8.5], [81.9, 7], [80.6, 5.9]],
+  // Hainan
+  [[108.6, 19.2], [110.4, 20.1], [111, 19.6], [109.6, 18.2]],
+  // Taiwan
+  [[120.1, 23], [121, 25.1], [121.9, 25], [121.5, 23.5], [120.9, 21.9], [120.5, 22.6]],
+  // Honshu
+  [[130.9, 34], [131.5, 34.6], [132.7, 35.5], [133.5, 35.5], [134.6, 35.7], [135.4, 35.5], [136, 35.7], [136.1, 36.2],
+    [136.7, 36.9], [136.8, 37.3], [137.3, 37.5], [137.1, 36.8], [137.6, 36.9], [138.4, 37.3], [139.05, 37.95],
+    [139.4, 38.2], [139.6, 38.8], [140, 39.5], [139.7, 39.9], [140, 40.6], [140.3, 41.2], [141.2, 41.2],
+    [141.4, 40.6], [141.9, 40.1], [142, 39.5], [141.5, 38.3], [141, 38.2], [141, 37.1], [140.8, 36.5], [140.6, 35.8],
+    [140.9, 35.7], [140.4, 35.2], [139.9, 34.9], [139.8, 35.3], [140, 35.6], [139.7, 35.5], [139.6, 35.2],
+    [139.2, 35.3], [139.1, 34.9], [138.8, 34.6], [138.8, 35.1], [138.2, 34.6], [137.3, 34.7], [137, 34.6],
+    [136.9, 35], [136.5, 34.7], [136.75, 34.52], [136.9, 34.45], [136.9, 34.3], [136.2, 33.9], [135.8, 33.5],
+    [135.1, 33.9], [135.1, 34.25], [135.4, 34.6], [134.6, 34.8], [133.9, 34.5], [132.5, 34.3], [132.1, 33.9],
+    [131.2, 33.9]],
+  // Hokkaido
+  [[140, 41.4], [140.1, 42.2], [140.5, 42.6], [140.3, 43.2], [141.4, 43.3], [141.6, 44.3], [141.7, 45.4],
+    [142.6, 44.8], [143.8, 44.2], [145.3, 44.3], [145.2, 43.7], [145.8, 43.4], [145.3, 43], [144.3, 42.9],
+    [143.3, 42], [141.8, 42.6], [141, 42.3], [140.5, 41.8], [141.2, 41.8], [140.6, 41.2]],
+  // Kyushu
+  [[129.7, 33.1], [130.3, 33.6], [130.9, 33.95], [131.7, 33.6], [131.7, 32.6], [131.4, 31.5], [130.7, 31],
+    [130.2, 31.3], [130.4, 32.1], [129.9, 32.6]],
+  // Shikoku
+  [[132.4, 33.4], [132.7, 33.85], [133, 34], [134, 34.36], [134.2, 34.3], [134.6, 34.2], [134.7, 33.8], [134.2, 33.2],
+    [133.3, 33.4], [133, 32.7], [132.5, 32.9]],
+  // Okinawa
+  [[127.6, 26.1], [127.8, 26.1], [128.3, 26.8], [128.2, 26.9], [127.7, 26.5]],
+  // Miyako Island
+  [[125.22, 24.73], [125.47, 24.72], [125.36, 24.92], [125.25, 24.86]],
+  // Ishigaki Island
+  [[124.08, 24.33], [124.3, 24.35], [124.28, 24.6], [124.12, 24.45]],
+  // Sakhalin
+  [[142, 46], [143.3, 46.6], [143.5, 49.3], [144.7, 48.9], [143.2, 51.8], [143.3, 53.2], [142.7, 54.4], [142.2, 54.3],
+    [141.6, 53.3], [142.1, 51.5], [141.8, 48.8], [142, 47.8], [141.9, 46.6]],
+  // Luzon
+  [[120.6, 18.5], [122.3, 18.4], [122.1, 17.1], [121.6, 15.8], [121.6, 14.2], [124, 13.9], [124.1, 12.6],
+    [122.6, 13.3], [121.9, 13.9], [120.6, 13.9], [120.9, 14.6], [120, 15], [119.8, 16.3], [120.4, 16.7]],
+  // Mindanao
+  [[121.9, 6.9], [123.7, 8], [125.4, 9.8], [126.6, 7.3], [126.1, 6.3], [125.3, 5.6], [124, 6.4]],
+  // Borneo
+  [[109, 1.6], [109.6, 2], [111.2, 2.5], [113, 3.2], [114.4, 4.5], [115.5, 5.4], [116.8, 6.9], [117.7, 6],
+    [119.2, 5.2], [118.2, 4.3], [117.8, 1.8], [118.9, 0.9], [117.5, 0.1], [116.5, -2.2], [116.2, -4], [114.5, -3.6],
+    [113, -3.2], [111.8, -3.5], [110.2, -3], [110, -1.5], [109.1, -0.4]],
+  // Sumatra
+  [[95.3, 5.6], [97.5, 5.2], [98.7, 3.8], [100.4, 2.2], [101.5, 1.6], [103.8, 0.3], [104.5, -1.5], [106.1, -3.1],
+    [105.8, -5.8], [104.6, -5.9], [102.3, -4], [100.8, -1.5], [99.3, 0.2], [98.6, 1.7], [97.2, 3.2], [95.4, 4.9]],
+  // Bali
+  [[114.45, -8.1], [115.2, -8.05], [115.7, -8.4], [115.2, -8.85], [114.6, -8.4]],
+  // Java
+  [[105.3, -6.8], [106.1, -5.9], [108.3, -6.3], [110.5, -6.9], [112.6, -6.9], [114.5, -7.8], [114.4, -8.7],
+    [111, -8.2], [108.6, -7.7], [106.4, -7.4]],
+  // Sulawesi
+  [[119.4, -5.5], [118.8, -2.8], [119.8, 0.2], [120.9, 1.3], [124.6, 1.6], [125.2, 1.4], [121.6, 0.5], [120.1, 0.6],
+    [121.1, -1.4], [122.9, -0.9], [121.3, -1.9], [122.3, -3.2], [123.2, -4.8], [121.9, -4.7], [121.5, -3.7],
+    [120.8, -2.7], [120.3, -5.5]],
+  // New Guinea
+  [[131, -1.2], [132.4, -0.4], [134, -0.9], [135, -3.3], [137.9, -1.5], [141, -2.6], [144.6, -3.9], [145.8, -5],
+    [147.6, -6.1], [147.2, -7.5], [148.6, -9], [150.1, -10.6], [148, -10.2], [146, -8.1], [144, -7.6], [143.3, -8.8],
+    [141, -9.1], [139.1, -8.1], [138.1, -8.3], [137.6, -7.1], [138.6, -6.8], [137.9, -5.4], [135.2, -4.5], [133, -4],
+    [132, -2.8], [133.6, -2.5], [132.2, -2.2], [131, -1.5]],
+  // Australia
+  [[113.5, -22], [114.1, -21.8], [116.7, -20.6], [119.1, -20], [121, -19.5], [122.2, -18], [123.5, -16.5],
+    [125.5, -14.5], [127.1, -13.8], [128.4, -14.9], [129.6, -14.9], [130.1, -12.9], [132.6, -12.1], [132.6, -11.4],
+    [136.5, -11.9], [135.9, -13.3], [135.4, -15], [137.1, -16], [139.3, -17.4], [140.9, -17.4], [141.7, -15],
+    [141.5, -12.6], [142.5, -10.7], [143.5, -12.9], [143.9, -14.5], [145.3, -15], [145.9, -16.9], [146.1, -18.9],
+    [148.8, -20.4], [150.5, -22.5], [153.2, -25.9], [153.6, -28.6], [153.1, -31], [152, -33], [150.8, -34.9],
+    [149.9, -37.5], [147.7, -37.9], [146.3, -39.1], [144.9, -37.9], [143.5, -38.8], [140.6, -38], [139.6, -37.3],
+    [139.5, -35.9], [138.1, -35.6], [138.5, -34.5], [137.5, -34.9], [137.9, -33.5], [137.4, -34.1], [136, -35],
+    [135.2, -34.6], [135.2, -33.9], [134.2, -32.8], [131.3, -31.5], [128.2, -32], [124.2, -33], [123.6, -33.9],
+    [120, -34], [118, -35], [116.6, -35], [115, -34.3], [115.7, -33.3], [115.7, -31.7], [115, -29.5], [114.2, -27],
+    [113.4, -26], [113.8, -24.5]],
+  // Guam
+  [[144.65, 13.25], [144.8, 13.25], [144.95, 13.6], [144.87, 13.65], [144.62, 13.45]],
+  // Tasmania
+  [[144.6, -40.7], [148.3, -40.9], [148.3, -42.2], [147, -43.6], [145.5, -42.6], [144.7, -41.3]],
+  // North Island
+  [[172.7, -34.4], [174.3, -35.6], [175.9, -37.3], [178.5, -37.7], [177.9, -39.2], [176.9, -39.6], [174.9, -41.4],
+    [174.6, -39.9], [173.8, -39.2], [174.6, -38], [173.9, -36.3]],
+  // South Island
+  [[172.6, -40.5], [174.2, -41.7], [173.1, -43.2], [171.2, -44.3], [170.8, -45.9], [169.2, -46.6], [166.5, -46],
+    [167, -45], [168.5, -44], [170.8, -42.8], [172.1, -41.2]],
+  // Antarctica
+  [[-180, -78], [-160, -78], [-150, -76], [-130, -74], [-110, -74], [-100, -73], [-80, -73], [-68, -70], [-58, -63.3],
+    [-62, -66], [-62, -70], [-60, -74], [-45, -78], [-30, -77], [-20, -73.5], [-10, -71], [0, -70], [20, -70],
+    [40, -69], [55, -66.5], [70, -68], [80, -67], [100, -66], [120, -66.5], [140, -66.5], [160, -70], [170, -71.5],
+    [180, -78], [180, -85], [-180, -85]]
+];
+
+// Inland seas, drawn as holes in the land
+export const INLAND_SEAS: readonly OutlineRing[] = [
+  // Black Sea
+  [[27.5, 42.5], [28, 41.6], [29.2, 41.2], [31.3, 41.1], [33.5, 42], [35.5, 41.7], [38.3, 40.9], [41.5, 41.5],
+    [41.6, 42.5], [39.8, 43.4], [38, 44.4], [36.6, 45.3], [35, 45], [33.5, 44.5], [32.5, 45.4], [33.5, 46],
+    [31.5, 46.6], [30.5, 46.2], [29.7, 45.2], [28.7, 44.3], [28, 43.3]],
+  // Caspian Sea
+  [[47, 45], [49, 46.5], [51.2, 47], [53, 46.8], [53, 45.3], [51.3, 44.5], [52.5, 42.8], [53, 41.5], [52.9, 40],
+    [53.9, 38.9], [53.9, 37.3], [51.5, 36.8], [49.5, 37.5], [48.9, 38.4], [49.5, 40.2], [48.5, 41.8], [47.5, 43],
+    [47.3, 44.5]]
+];